@@ -0,0 +1,172 @@
+import type { GameSimulation } from './simulation';
+
+// --- Achievements ---
+// Each achievement watches simulation events and moves its own progress towards a goal. Progress
+// is kept in the save profile, so counts like destroyed DIVERs add up over many runs, while
+// one-off feats simply go from 0 to 1. Some achievements unlock a ship, see ships.ts.
+
+export type AchievementId =
+    | 'GIANT_SLAYER' | 'UNTOUCHABLE' | 'SHARPSHOOTER' | 'DIVER_HUNTER' | 'VETERAN'
+    | 'PURIST' | 'CHAIN_MASTER' | 'GRAZER' | 'LIBERATOR';
+
+// Moves one achievement towards its goal; ignored once the achievement is unlocked
+export interface Progress {
+    add: (amount?: number) => void;
+    // Progress becomes at least `value`, for bests such as the furthest wave reached
+    reach: (value: number) => void;
+    complete: () => void;
+}
+
+export interface Achievement {
+    id: AchievementId;
+    name: string;
+    description: string;
+    // Progress needed to unlock; 1 for one-off feats
+    goal: number;
+    // Subscribes to the simulation and returns the unsubscribe functions
+    listen: (sim: GameSimulation, progress: Progress) => (() => void)[];
+}
+
+export interface AchievementState {
+    progress: Partial<Record<AchievementId, number>>;
+    unlocked: AchievementId[];
+}
+
+export const emptyAchievements = (): AchievementState => ({ progress: {}, unlocked: [] });
+
+// A wave needs this many shots before its accuracy counts
+const SHARPSHOOTER_SHOTS = 20;
+const SHARPSHOOTER_ACCURACY = 0.95;
+// Early waves rarely drop a power-up at all, so only later ones count for PURIST
+const PURIST_WAVE = 5;
+
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'GIANT_SLAYER',
+        name: 'GIANT SLAYER',
+        description: 'Destroy a boss.',
+        goal: 1,
+        listen: (sim, progress) => [sim.on('bossDeath', () => progress.complete())],
+    },
+    {
+        id: 'UNTOUCHABLE',
+        name: 'UNTOUCHABLE',
+        description: 'Destroy a boss without losing any hull during the fight.',
+        goal: 1,
+        listen: (sim, progress) => {
+            let clean = false;
+            return [
+                sim.on('runStart', () => { clean = false; }),
+                sim.on('bossSpawn', () => { clean = true; }),
+                sim.on('damage', e => { if (!e.absorbed) clean = false; }),
+                sim.on('bossDeath', () => { if (clean) progress.complete(); }),
+            ];
+        },
+    },
+    {
+        id: 'SHARPSHOOTER',
+        name: 'SHARPSHOOTER',
+        description: `Hit ${SHARPSHOOTER_ACCURACY * 100}% of your shots over a whole wave.`,
+        goal: 1,
+        listen: (sim, progress) => [
+            sim.on('waveBonus', ({ tally }) => {
+                if (tally.shotsFired >= SHARPSHOOTER_SHOTS && tally.shotsHit / tally.shotsFired >= SHARPSHOOTER_ACCURACY) progress.complete();
+            }),
+        ],
+    },
+    {
+        id: 'DIVER_HUNTER',
+        name: 'DIVER HUNTER',
+        description: 'Destroy 100 DIVERs.',
+        goal: 100,
+        listen: (sim, progress) => [sim.on('kill', e => { if (e.type === 'DIVER') progress.add(); })],
+    },
+    {
+        id: 'VETERAN',
+        name: 'VETERAN',
+        description: 'Reach wave 10.',
+        goal: 10,
+        listen: (sim, progress) => [sim.on('wave', e => progress.reach(e.wave))],
+    },
+    {
+        id: 'PURIST',
+        name: 'PURIST',
+        description: `Clear wave ${PURIST_WAVE} or later without picking up a power-up.`,
+        goal: 1,
+        listen: (sim, progress) => [
+            sim.on('waveBonus', ({ wave, tally }) => { if (wave >= PURIST_WAVE && tally.pickups === 0) progress.complete(); }),
+        ],
+    },
+    {
+        id: 'CHAIN_MASTER',
+        name: 'CHAIN MASTER',
+        description: 'Build a kill chain of 50.',
+        goal: 50,
+        listen: (sim, progress) => [sim.on('combo', e => progress.reach(e.chain))],
+    },
+    {
+        id: 'GRAZER',
+        name: 'CLOSE SHAVE',
+        description: 'Graze 2000 enemy shots.',
+        goal: 2000,
+        listen: (sim, progress) => [sim.on('graze', () => progress.add())],
+    },
+    {
+        id: 'LIBERATOR',
+        name: 'LIBERATOR',
+        description: 'Complete the campaign.',
+        goal: 1,
+        listen: (sim, progress) => [sim.on('gameOver', () => { if (sim.victory) progress.complete(); })],
+    },
+];
+
+export const getAchievement = (id: AchievementId) => ACHIEVEMENTS.find(a => a.id === id);
+
+export interface TrackerOptions {
+    // Replays, benchmarks and play-tests make no progress
+    active: () => boolean;
+    onUnlock: (achievement: Achievement) => void;
+    // Called with the latest progress when a wave or run ends and when something unlocks; saving
+    // on every kill or graze would be far too often
+    onSave: (state: AchievementState) => void;
+}
+
+export class AchievementTracker {
+    private state: AchievementState;
+    private unsubscribe: (() => void)[];
+
+    constructor(sim: GameSimulation, state: AchievementState, private options: TrackerOptions) {
+        this.state = { progress: { ...state.progress }, unlocked: [...state.unlocked] };
+        this.unsubscribe = [
+            ...ACHIEVEMENTS.flatMap(a => a.listen(sim, this.progress(a))),
+            sim.on('waveClear', () => this.save()),
+            sim.on('gameOver', () => this.save()),
+        ];
+    }
+
+    private progress(a: Achievement): Progress {
+        const set = (value: number) => {
+            const { state } = this;
+            if (!this.options.active() || state.unlocked.includes(a.id)) return;
+            state.progress[a.id] = Math.min(a.goal, value);
+            if (value < a.goal) return;
+            state.unlocked.push(a.id);
+            this.options.onUnlock(a);
+            this.save();
+        };
+        const current = () => this.state.progress[a.id] ?? 0;
+        return {
+            add: (amount = 1) => set(current() + amount),
+            reach: value => { if (value > current()) set(value); },
+            complete: () => set(a.goal),
+        };
+    }
+
+    private save() {
+        if (this.options.active()) this.options.onSave({ progress: { ...this.state.progress }, unlocked: [...this.state.unlocked] });
+    }
+
+    detach() {
+        this.unsubscribe.forEach(off => off());
+    }
+}
@@ -0,0 +1,295 @@
+import { MusicIntensity, SoundCue } from './types';
+
+// --- Audio ---
+// Everything is synthesized. Effects and music each feed their own bus; both buses meet in a
+// master gain and a compressor, so a screen full of explosions squashes instead of clipping and
+// the soundtrack never drowns the game out.
+
+export interface MixLevels {
+    // 0..1 per bus; master scales the other two
+    master: number;
+    sfx: number;
+    music: number;
+    muted: boolean;
+}
+
+// Most voices of one cue allowed to ring at once; triggers past the limit are dropped. The boss
+// death sequence alone used to stack dozens of explosions.
+const VOICE_LIMITS: Record<SoundCue, number> = { shoot: 4, explosion: 5, hit: 4, powerup: 3, coin: 3 };
+const VOICE_LENGTH: Record<SoundCue, number> = { shoot: 0.1, explosion: 0.5, hit: 0.15, powerup: 0.15, coin: 0.06 };
+
+export class SoundEngine {
+    ctx: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private sfx: GainNode | null = null;
+    private musicBus: GainNode | null = null;
+    private noiseBuffer: AudioBuffer | null = null;
+    private soundtrack: Soundtrack | null = null;
+    private levels: MixLevels = { master: 1, sfx: 1, music: 0.5, muted: false };
+    private intensity: MusicIntensity = 'CALM';
+    // When each ringing voice ends, per cue
+    private voices: Record<SoundCue, number[]> = { shoot: [], explosion: [], hit: [], powerup: [], coin: [] };
+
+    init() {
+        if (!this.ctx) {
+            const ctx = this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+            const compressor = ctx.createDynamicsCompressor();
+            compressor.threshold.value = -18;
+            compressor.knee.value = 12;
+            compressor.ratio.value = 6;
+            compressor.attack.value = 0.003;
+            compressor.release.value = 0.25;
+            compressor.connect(ctx.destination);
+            this.master = ctx.createGain();
+            this.master.connect(compressor);
+            this.sfx = ctx.createGain();
+            this.sfx.connect(this.master);
+            this.musicBus = ctx.createGain();
+            this.musicBus.connect(this.master);
+            this.noiseBuffer = this.createNoiseBuffer();
+            this.applyLevels();
+            this.soundtrack = new Soundtrack(ctx, this.musicBus, this.noiseBuffer!);
+            this.soundtrack.intensity = this.intensity;
+            this.soundtrack.start();
+        }
+        if (this.ctx && this.ctx.state === 'suspended') {
+            this.ctx.resume();
+        }
+    }
+
+    setLevels(levels: MixLevels) {
+        this.levels = levels;
+        this.applyLevels();
+    }
+
+    setIntensity(intensity: MusicIntensity) {
+        this.intensity = intensity;
+        if (this.soundtrack) this.soundtrack.intensity = intensity;
+    }
+
+    private applyLevels() {
+        const { master, sfx, music, muted } = this.levels;
+        if (!this.ctx || !this.master || !this.sfx || !this.musicBus) return;
+        // Short ramps so dragging a slider doesn't zipper
+        const now = this.ctx.currentTime;
+        this.master.gain.setTargetAtTime(muted ? 0 : master, now, 0.02);
+        this.sfx.gain.setTargetAtTime(sfx, now, 0.02);
+        this.musicBus.gain.setTargetAtTime(music, now, 0.02);
+    }
+
+    private createNoiseBuffer() {
+        if (!this.ctx) return null;
+        const bufferSize = this.ctx.sampleRate * 2;
+        const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
+        const output = buffer.getChannelData(0);
+        for (let i = 0; i < bufferSize; i++) {
+            output[i] = Math.random() * 2 - 1;
+        }
+        return buffer;
+    }
+
+    // `pan` runs from -1 (left) to 1 (right)
+    play(cue: SoundCue, pan = 0) {
+        const { ctx, sfx } = this;
+        if (!ctx || !sfx || !this.noiseBuffer) return;
+        const now = ctx.currentTime;
+        const ringing = this.voices[cue].filter(end => end > now);
+        if (ringing.length >= VOICE_LIMITS[cue]) return;
+        ringing.push(now + VOICE_LENGTH[cue]);
+        this.voices[cue] = ringing;
+
+        let out: AudioNode = sfx;
+        if (pan !== 0 && ctx.createStereoPanner) {
+            const panner = ctx.createStereoPanner();
+            panner.pan.value = Math.max(-1, Math.min(1, pan));
+            panner.connect(sfx);
+            out = panner;
+        }
+        if (cue === 'shoot') this.shoot(out);
+        else if (cue === 'explosion') this.explosion(out);
+        else if (cue === 'hit') this.hit(out);
+        else if (cue === 'coin') this.coin(out);
+        else this.powerup(out);
+    }
+
+    private playTone(out: AudioNode, freq: number, type: OscillatorType, duration: number, volume: number, decay = true) {
+        if (!this.ctx) return;
+        const osc = this.ctx.createOscillator();
+        const gain = this.ctx.createGain();
+        osc.type = type;
+        osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
+        gain.gain.setValueAtTime(volume, this.ctx.currentTime);
+        if (decay) {
+            gain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + duration);
+        }
+        osc.connect(gain);
+        gain.connect(out);
+        osc.start();
+        osc.stop(this.ctx.currentTime + duration);
+    }
+
+    private playNoise(out: AudioNode, volume: number, duration: number) {
+        if (!this.ctx || !this.noiseBuffer) return;
+        const noiseSource = this.ctx.createBufferSource();
+        noiseSource.buffer = this.noiseBuffer;
+        const noiseGain = this.ctx.createGain();
+        noiseGain.gain.setValueAtTime(volume, this.ctx.currentTime);
+        noiseGain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + duration);
+        noiseSource.connect(noiseGain);
+        noiseGain.connect(out);
+        noiseSource.start();
+        noiseSource.stop(this.ctx.currentTime + duration);
+    }
+
+    private shoot(out: AudioNode) {
+        this.playNoise(out, 0.015, 0.1);
+        this.playTone(out, 880, 'sine', 0.08, 0.01);
+    }
+
+    private explosion(out: AudioNode) {
+        this.playTone(out, 60, 'sawtooth', 0.5, 0.1);
+        this.playNoise(out, 0.05, 0.5);
+    }
+
+    private hit(out: AudioNode) {
+        this.playTone(out, 120, 'square', 0.15, 0.03);
+    }
+
+    private powerup(out: AudioNode) {
+        this.playTone(out, 440, 'sine', 0.1, 0.04, false);
+        this.playTone(out, 660, 'sine', 0.15, 0.03, true);
+    }
+
+    private coin(out: AudioNode) {
+        this.playTone(out, 1320, 'square', 0.06, 0.012);
+    }
+}
+
+// --- Soundtrack ---
+// A 16th-note step sequencer over a four-bar A minor loop. A timer schedules notes a little
+// ahead of the audio clock, so timing holds even when the main thread stutters. Each intensity
+// adds layers and tempo on top of the one below it.
+
+const TEMPO: Record<MusicIntensity, number> = { CALM: 92, ACTION: 116, BOSS: 138 };
+const LOOKAHEAD = 0.12;
+const STEPS_PER_BAR = 16;
+
+// Root (MIDI note) and chord tones (semitones above it) of each bar
+const PROGRESSION = [
+    { root: 45, chord: [0, 3, 7, 12] },
+    { root: 41, chord: [0, 4, 7, 12] },
+    { root: 48, chord: [0, 4, 7, 12] },
+    { root: 43, chord: [0, 4, 7, 12] },
+];
+
+const midiToFreq = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+class Soundtrack {
+    intensity: MusicIntensity = 'CALM';
+    private step = 0;
+    private nextTime = 0;
+    private timer: number | null = null;
+    // Chord tone picked for each step of the boss lead, re-rolled every loop so it never quite repeats
+    private lead: number[] = [];
+
+    constructor(private ctx: AudioContext, private out: AudioNode, private noise: AudioBuffer) {}
+
+    start() {
+        if (this.timer !== null) return;
+        this.nextTime = this.ctx.currentTime + 0.05;
+        this.timer = window.setInterval(() => this.schedule(), 25);
+    }
+
+    private schedule() {
+        // A suspended context stops its clock; catch up instead of scheduling a burst on resume
+        if (this.nextTime < this.ctx.currentTime - LOOKAHEAD) this.nextTime = this.ctx.currentTime + 0.05;
+        while (this.nextTime < this.ctx.currentTime + LOOKAHEAD) {
+            this.playStep(this.step, this.nextTime);
+            this.nextTime += 60 / TEMPO[this.intensity] / 4;
+            this.step = (this.step + 1) % (STEPS_PER_BAR * PROGRESSION.length);
+        }
+    }
+
+    private playStep(step: number, time: number) {
+        const { intensity } = this;
+        const bar = PROGRESSION[Math.floor(step / STEPS_PER_BAR)];
+        const beat = step % STEPS_PER_BAR;
+        if (step === 0) this.lead = Array.from({ length: STEPS_PER_BAR }, () => Math.floor(Math.random() * 4));
+
+        if (beat === 0) bar.chord.slice(0, 3).forEach(t => this.note(bar.root + 12 + t, time, 2.2, 'sine', 0.025));
+        const bassSteps = intensity === 'CALM' ? [0, 8] : [0, 3, 6, 8, 11, 14];
+        if (bassSteps.includes(beat)) this.note(bar.root - 12, time, 0.22, 'sawtooth', 0.07, 700);
+        if (intensity === 'CALM') return;
+
+        if (beat % 2 === 0) this.note(bar.root + 24 + bar.chord[(beat / 2) % bar.chord.length], time, 0.12, 'triangle', 0.03);
+        if (beat % 4 === 2) this.hat(time, 0.02);
+        if (intensity !== 'BOSS') return;
+
+        if (beat % 4 === 0) this.kick(time);
+        if (beat === 4 || beat === 12) this.snare(time);
+        if (beat % 2 === 1) this.hat(time, 0.012);
+        if (beat % 4 === 0) this.note(bar.root + 36 + bar.chord[this.lead[beat]], time, 0.18, 'square', 0.018, 2400);
+    }
+
+    private note(midi: number, time: number, duration: number, type: OscillatorType, volume: number, cutoff?: number) {
+        const { ctx } = this;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.type = type;
+        osc.frequency.setValueAtTime(midiToFreq(midi), time);
+        gain.gain.setValueAtTime(0.0001, time);
+        gain.gain.exponentialRampToValueAtTime(volume, time + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+        osc.connect(gain);
+        if (cutoff) {
+            const filter = ctx.createBiquadFilter();
+            filter.type = 'lowpass';
+            filter.frequency.value = cutoff;
+            gain.connect(filter);
+            filter.connect(this.out);
+        } else {
+            gain.connect(this.out);
+        }
+        osc.start(time);
+        osc.stop(time + duration);
+    }
+
+    private burst(time: number, duration: number, volume: number, type: BiquadFilterType, frequency: number) {
+        const { ctx } = this;
+        const source = ctx.createBufferSource();
+        source.buffer = this.noise;
+        const filter = ctx.createBiquadFilter();
+        filter.type = type;
+        filter.frequency.value = frequency;
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(volume, time);
+        gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+        source.connect(filter);
+        filter.connect(gain);
+        gain.connect(this.out);
+        source.start(time);
+        source.stop(time + duration);
+    }
+
+    private hat(time: number, volume: number) {
+        this.burst(time, 0.05, volume, 'highpass', 7000);
+    }
+
+    private snare(time: number) {
+        this.burst(time, 0.18, 0.05, 'bandpass', 1800);
+    }
+
+    private kick(time: number) {
+        const { ctx } = this;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.frequency.setValueAtTime(140, time);
+        osc.frequency.exponentialRampToValueAtTime(40, time + 0.15);
+        gain.gain.setValueAtTime(0.12, time);
+        gain.gain.exponentialRampToValueAtTime(0.0001, time + 0.2);
+        osc.connect(gain);
+        gain.connect(this.out);
+        osc.start(time);
+        osc.stop(time + 0.2);
+    }
+}
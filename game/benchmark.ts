@@ -0,0 +1,113 @@
+import { NaiveBroadphase, SpatialGrid } from './collision';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { Enemy } from './entities';
+import { BulletSpec } from './patterns';
+import { Rng } from './rng';
+import { DEFAULT_UPGRADES, GameSimulation } from './simulation';
+
+// --- Collision Benchmark ---
+// A stress scene that keeps thousands of bullets, a cloud of player shots and a field of
+// ships alive at once, and times every simulation tick. Switching the broadphase or pooling
+// off shows what the grid and the object pools save; the game itself always runs with both.
+// The scene flies on a simulation of its own, so none of that reaches the next real run.
+
+export type BroadphaseKind = 'GRID' | 'NAIVE';
+
+export interface BenchmarkOptions {
+    // Enemy bullets kept on screen
+    bullets: number;
+    // Player shots kept on screen
+    shots: number;
+    enemies: number;
+    broadphase: BroadphaseKind;
+    pooling: boolean;
+}
+
+export interface BenchmarkStats {
+    // Mean and worst tick over the recent window, in milliseconds
+    averageMs: number;
+    worstMs: number;
+    entities: number;
+    // Instances constructed since the scene started; flat once the pools are warm
+    allocated: number;
+}
+
+export const BENCHMARK_BULLET_COUNTS = [1000, 3000, 6000];
+
+export const DEFAULT_BENCHMARK: BenchmarkOptions = { bullets: 3000, shots: 1000, enemies: 300, broadphase: 'GRID', pooling: true };
+
+const SEED = 0xbe9c4;
+const WINDOW = 120;
+
+export class CollisionBenchmark {
+    readonly sim = new GameSimulation({ upgrades: DEFAULT_UPGRADES });
+    options: BenchmarkOptions;
+    private rng = new Rng(SEED);
+    private samples: number[] = [];
+
+    constructor(options: BenchmarkOptions = DEFAULT_BENCHMARK) {
+        const { sim } = this;
+        // A hull nothing can chew through keeps the player in the scene and colliding
+        sim.reset({ ...DEFAULT_UPGRADES, weapons: ['BLASTER'], tech: {}, maxHealth: 1e9 }, { mode: 'ENDLESS', seed: SEED, difficulty: DIFFICULTY_PRESETS.NORMAL });
+        this.configure(options);
+    }
+
+    configure(options: BenchmarkOptions) {
+        const { sim } = this;
+        this.options = options;
+        sim.broadphase = options.broadphase === 'GRID' ? new SpatialGrid<Enemy>(64) : new NaiveBroadphase<Enemy>();
+        Object.values(sim.pools).forEach(pool => { pool.enabled = options.pooling; });
+        this.samples = [];
+    }
+
+    // Tops the scene back up and runs one tick; the top-up is timed too, since that is where
+    // the pools save their allocations
+    step() {
+        const { sim } = this;
+        const start = performance.now();
+        this.refill();
+        sim.step({ move: 0, fire: true, bomb: false });
+        this.samples.push(performance.now() - start);
+        if (this.samples.length > WINDOW) this.samples.shift();
+        // Never let a boss show up, and keep the screen still
+        sim.enemiesDefeated = 0;
+        sim.shake = 0;
+    }
+
+    private refill() {
+        const { sim, rng, options } = this;
+        const { width, height } = sim;
+        const shots: BulletSpec[] = [];
+        for (let i = sim.enemyBullets.length; i < options.bullets; i++) {
+            const angle = rng.next() * Math.PI * 2;
+            const speed = rng.range(90, 260);
+            shots.push({ x: rng.next() * width, y: rng.next() * height * 0.6, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed });
+        }
+        sim.emitShots(shots);
+        for (let i = sim.bullets.length; i < options.shots; i++) {
+            sim.bullets.push(sim.pools.projectiles.acquire().reset(rng.next() * width, height * (0.3 + rng.next() * 0.7), 0, -900));
+        }
+        for (let i = sim.enemies.length; i < options.enemies; i++) {
+            // Tough enough to soak a few dozen shots, so the field stays crowded
+            sim.spawnEnemy('BASIC', rng.next() * (width - 40), rng.next() * height * 0.5, undefined, e => { e.hp = e.maxHp = 40; });
+        }
+    }
+
+    get stats(): BenchmarkStats {
+        const { sim, samples } = this;
+        const total = samples.reduce((sum, ms) => sum + ms, 0);
+        return {
+            averageMs: samples.length ? total / samples.length : 0,
+            worstMs: samples.length ? Math.max(...samples) : 0,
+            entities: sim.enemyBullets.length + sim.bullets.length + sim.enemies.length + sim.particles.length,
+            allocated: Object.values(sim.pools).reduce((sum, pool) => sum + pool.created, 0),
+        };
+    }
+}
+
+// Headless run, for the console or a script
+export const runBenchmark = (options: BenchmarkOptions = DEFAULT_BENCHMARK, ticks = 600) => {
+    const bench = new CollisionBenchmark(options);
+    for (let i = 0; i < ticks; i++) bench.step();
+    return bench.stats;
+};
@@ -0,0 +1,248 @@
+import { Boss, Player } from './entities';
+import { Palette } from './palette';
+import {
+    BulletSpec, Vec, accelerating, aimed, beam, burst, curved, every, fan, registerPattern, ring, spiral,
+} from './patterns';
+import { Rng } from './rng';
+
+// --- Boss Archetypes ---
+// A boss is a list of phases. Each phase names how the boss moves, which attacks it fires, which
+// parts of the hull take damage and how it hands over to the next phase: after a timer, when
+// its movement completes, or immediately once HP drops below a threshold.
+
+export interface BossContext {
+    dt: number;
+    width: number;
+    height: number;
+    difficulty: number;
+    // The ship closest to the boss this tick
+    player: Player;
+    rng: Rng;
+    emit: (shots: BulletSpec[]) => void;
+}
+
+// Returns true when the movement has run its course and the phase may end
+export type BossMovement = (boss: Boss, ctx: BossContext) => boolean | void;
+
+// Rectangle relative to the boss's top-left corner
+export interface Hitbox { x: number; y: number; w: number; h: number; }
+
+export interface BossAttack {
+    // Name of a registered bullet pattern
+    pattern: string;
+    // Muzzle position relative to the boss's top-left corner; defaults to the bottom centre
+    from?: Vec;
+}
+
+export interface BossPhase {
+    name: string;
+    movement: BossMovement;
+    attacks: BossAttack[];
+    // Parts of the hull that take damage; bullets hitting anywhere else are deflected
+    hitboxes: Hitbox[];
+    duration?: number;
+    // Forces this phase (once) as soon as HP falls below this fraction of max
+    hpBelow?: number;
+    // Phase to continue with; defaults to the next one in the list
+    next?: string;
+}
+
+export interface BossDefinition {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    // Multiplier on the wave's base boss HP
+    hpScale: number;
+    contactDamage: number;
+    // Paid when the boss is destroyed, on top of the wave bonuses
+    reward: { score: number; coins: number };
+    // Solid parts of the ship; shots that hit these outside an exposed hitbox are deflected
+    hull: Hitbox[];
+    phases: BossPhase[];
+    // Drawn once per phase into a cached sprite; the look may change with the phase, not over time
+    render: (g: CanvasRenderingContext2D, boss: Boss, x: number, y: number, palette: Palette) => void;
+}
+
+// --- Movements ---
+
+const ENTRY_Y = 120;
+
+export const movements = {
+    descend: ((boss, ctx) => {
+        if (boss.y < ENTRY_Y) boss.y = Math.min(ENTRY_Y, boss.y + 120 * ctx.dt);
+        return boss.y >= ENTRY_Y;
+    }) as BossMovement,
+    sway: ((boss, ctx) => {
+        boss.angle += 1.8 * ctx.dt;
+        boss.x = (ctx.width / 2 - boss.width / 2) + Math.sin(boss.angle) * Math.min(200, ctx.width / 2 - boss.width / 2);
+    }) as BossMovement,
+    hover: ((boss, ctx) => {
+        boss.y = ENTRY_Y + Math.sin(boss.phaseTimer * 2.4) * 60;
+        boss.x += (ctx.rng.next() - 0.5) * 1200 * ctx.dt;
+        boss.x = Math.max(50, Math.min(ctx.width - boss.width - 50, boss.x));
+    }) as BossMovement,
+    // Backs off for a second, then rams straight down and re-enters from the top
+    charge: ((boss, ctx) => {
+        if (boss.phaseTimer < 1) boss.y -= 120 * ctx.dt;
+        else boss.y += 1320 * ctx.dt;
+        if (boss.y > ctx.height + 150) {
+            boss.y = boss.py = -250;
+            return true;
+        }
+    }) as BossMovement,
+    strafe: ((boss, ctx) => {
+        if (boss.vx === 0) boss.vx = 160;
+        boss.x += boss.vx * ctx.dt;
+        if (boss.x < 20) { boss.x = 20; boss.vx = Math.abs(boss.vx); }
+        if (boss.x > ctx.width - boss.width - 20) { boss.x = ctx.width - boss.width - 20; boss.vx = -Math.abs(boss.vx); }
+    }) as BossMovement,
+    track: ((boss, ctx) => {
+        const target = ctx.player.x + ctx.player.w / 2 - boss.width / 2;
+        boss.x += Math.max(-140 * ctx.dt, Math.min(140 * ctx.dt, target - boss.x));
+        boss.x = Math.max(20, Math.min(ctx.width - boss.width - 20, boss.x));
+        boss.y += (ENTRY_Y - boss.y) * Math.min(1, 3 * ctx.dt);
+    }) as BossMovement,
+};
+
+// --- Bullet patterns ---
+
+registerPattern('warden-spiral', every(0.2, spiral(300, 9, 180)));
+registerPattern('warden-homing', every(5 / 6, aimed(480)));
+registerPattern('warden-overdrive', every(0.15, spiral(320, 11, 120)));
+// Slow ring that hangs in place before rushing outwards
+registerPattern('warden-nova', every(1.6, accelerating(ring(14, 220), 40, 0.6, 500, 420)));
+registerPattern('hydra-spread', every(0.9, fan(5, 0.9, 320)));
+registerPattern('hydra-bloom', every(0.8, ring(16, 200)));
+registerPattern('hydra-core-ring', every(0.7, ring(20, 210)));
+registerPattern('hydra-snipe', burst(aimed(520), 2, 0.15, 1.2));
+registerPattern('hydra-fury', every(0.5, curved(fan(7, 1.4, 360), 30, 1.5)));
+registerPattern('lancer-beam', every(1.5, beam({ width: 46, telegraph: 0.9, duration: 0.6 })));
+registerPattern('lancer-aimed', every(0.6, aimed(420)));
+registerPattern('lancer-sweep', every(0.25, spiral(260, -7, 150)));
+registerPattern('lancer-storm-beam', every(0.8, beam({ width: 40, telegraph: 0.7, duration: 0.5 })));
+registerPattern('lancer-storm-ring', every(0.9, ring(12, 240)));
+
+// --- Roster ---
+
+const fullHull = (w: number, h: number): Hitbox[] => [{ x: 0, y: 0, w, h }];
+
+// Translucent fill in a palette colour
+const tint = (g: CanvasRenderingContext2D, color: string, alpha: number, x: number, y: number, w: number, h: number) => {
+    g.globalAlpha = alpha;
+    g.fillStyle = color;
+    g.fillRect(x, y, w, h);
+    g.globalAlpha = 1;
+};
+
+const WARDEN: BossDefinition = {
+    id: 'WARDEN',
+    name: 'THE WARDEN',
+    width: 220,
+    height: 140,
+    hpScale: 1,
+    contactDamage: 25,
+    reward: { score: 2000, coins: 150 },
+    hull: fullHull(220, 140),
+    phases: [
+        { name: 'ENTRY', movement: movements.descend, attacks: [], hitboxes: fullHull(220, 140) },
+        { name: 'SPIRAL', movement: movements.sway, duration: 7, hitboxes: fullHull(220, 140),
+            attacks: [{ pattern: 'warden-spiral' }] },
+        { name: 'HOMING', movement: movements.hover, duration: 35 / 6, hitboxes: fullHull(220, 140),
+            attacks: [{ pattern: 'warden-homing' }] },
+        { name: 'CHARGE', movement: movements.charge, attacks: [], hitboxes: fullHull(220, 140), next: 'ENTRY' },
+        { name: 'OVERDRIVE', hpBelow: 0.35, movement: movements.sway, duration: 8, hitboxes: fullHull(220, 140), next: 'HOMING',
+            attacks: [{ pattern: 'warden-overdrive' }, { pattern: 'warden-nova' }] },
+    ],
+    render: (g, boss, x, y, palette) => {
+        g.strokeStyle = boss.state === 'CHARGE' ? palette.danger : palette.accent;
+        g.lineWidth = 6;
+        g.strokeRect(x, y, boss.width, boss.height);
+        tint(g, boss.state === 'OVERDRIVE' ? palette.danger : palette.accent, boss.state === 'OVERDRIVE' ? 0.12 : 0.05, x, y, boss.width, boss.height);
+        g.strokeRect(x - 15, y + 20, 15, 60); g.strokeRect(x + boss.width, y + 20, 15, 60);
+    },
+};
+
+// Two gun pods shield an armoured core; once they are shot down the core opens up
+const HYDRA_PODS: Hitbox[] = [{ x: 0, y: 30, w: 60, h: 70 }, { x: 200, y: 30, w: 60, h: 70 }];
+const HYDRA_CORE: Hitbox[] = [{ x: 90, y: 20, w: 80, h: 100 }];
+
+const HYDRA: BossDefinition = {
+    id: 'HYDRA',
+    name: 'HYDRA',
+    width: 260,
+    height: 120,
+    hpScale: 1.1,
+    contactDamage: 25,
+    reward: { score: 2500, coins: 175 },
+    hull: [{ x: 60, y: 0, w: 140, h: 120 }, ...HYDRA_PODS],
+    phases: [
+        { name: 'ENTRY', movement: movements.descend, attacks: [], hitboxes: HYDRA_PODS },
+        { name: 'STRAFE', movement: movements.strafe, duration: 6, hitboxes: HYDRA_PODS,
+            attacks: [
+                { pattern: 'hydra-spread', from: { x: 30, y: 100 } },
+                { pattern: 'hydra-spread', from: { x: 230, y: 100 } },
+            ] },
+        { name: 'BLOOM', movement: movements.track, duration: 4, hitboxes: HYDRA_PODS, next: 'STRAFE',
+            attacks: [{ pattern: 'hydra-bloom' }] },
+        { name: 'EXPOSED', hpBelow: 0.5, movement: movements.strafe, duration: 7, hitboxes: HYDRA_CORE,
+            attacks: [{ pattern: 'hydra-core-ring' }, { pattern: 'hydra-snipe' }] },
+        { name: 'FURY', movement: movements.track, duration: 5, hitboxes: HYDRA_CORE, next: 'EXPOSED',
+            attacks: [{ pattern: 'hydra-fury' }] },
+    ],
+    render: (g, boss, x, y, palette) => {
+        const exposed = boss.state === 'EXPOSED' || boss.state === 'FURY';
+        g.lineWidth = 5;
+        g.strokeStyle = palette.good;
+        g.strokeRect(x + 60, y, 140, boss.height);
+        // Pods fade out once they are shot down
+        if (exposed) g.globalAlpha = 0.25;
+        HYDRA_PODS.forEach(p => g.strokeRect(x + p.x, y + p.y, p.w, p.h));
+        g.globalAlpha = 1;
+        const c = HYDRA_CORE[0];
+        tint(g, exposed ? palette.danger : palette.good, exposed ? 0.35 : 0.08, x + c.x, y + c.y, c.w, c.h);
+        g.strokeStyle = exposed ? palette.danger : palette.good;
+        g.strokeRect(x + c.x, y + c.y, c.w, c.h);
+    },
+};
+
+// Only the glowing emitter at the bottom is vulnerable
+const LANCER_EMITTER: Hitbox[] = [{ x: 40, y: 120, w: 80, h: 50 }];
+
+const LANCER: BossDefinition = {
+    id: 'LANCER',
+    name: 'LANCER',
+    width: 160,
+    height: 170,
+    hpScale: 0.75,
+    contactDamage: 30,
+    reward: { score: 3000, coins: 200 },
+    hull: [{ x: 20, y: 10, w: 120, h: 110 }],
+    phases: [
+        { name: 'ENTRY', movement: movements.descend, attacks: [], hitboxes: LANCER_EMITTER },
+        { name: 'SIGHTING', movement: movements.track, duration: 6, hitboxes: LANCER_EMITTER,
+            attacks: [{ pattern: 'lancer-beam' }, { pattern: 'lancer-aimed' }] },
+        { name: 'SWEEP', movement: movements.sway, duration: 5, hitboxes: LANCER_EMITTER,
+            attacks: [{ pattern: 'lancer-sweep' }] },
+        { name: 'CHARGE', movement: movements.charge, attacks: [], hitboxes: LANCER_EMITTER, next: 'ENTRY' },
+        { name: 'LANCE STORM', hpBelow: 0.4, movement: movements.strafe, duration: 9, hitboxes: LANCER_EMITTER, next: 'SIGHTING',
+            attacks: [{ pattern: 'lancer-storm-beam' }, { pattern: 'lancer-storm-ring' }] },
+    ],
+    render: (g, boss, x, y, palette) => {
+        g.lineWidth = 5;
+        g.strokeStyle = boss.state === 'CHARGE' ? palette.danger : palette.warning;
+        g.beginPath();
+        g.moveTo(x + boss.width / 2, y);
+        g.lineTo(x + boss.width, y + 110);
+        g.lineTo(x + boss.width / 2, y + boss.height);
+        g.lineTo(x, y + 110);
+        g.closePath();
+        g.stroke();
+        const e = LANCER_EMITTER[0];
+        tint(g, boss.state === 'LANCE STORM' ? palette.danger : palette.warning, boss.state === 'LANCE STORM' ? 0.4 : 0.25, x + e.x, y + e.y, e.w, e.h);
+    },
+};
+
+export const BOSS_ROSTER: BossDefinition[] = [WARDEN, HYDRA, LANCER];
+
+export const bossForWave = (wave: number) => BOSS_ROSTER[(wave - 1) % BOSS_ROSTER.length];
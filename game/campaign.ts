@@ -0,0 +1,132 @@
+import { StageFile, parseStages } from './stages';
+
+// --- Campaign ---
+// The authored stages, in the same JSON shape a stage file on disk uses. They go through the
+// same validation as any loaded file, so a typo here fails loudly at startup.
+
+const STAGES: unknown = [
+    {
+        name: 'Outer Picket',
+        music: 'CALM',
+        boss: null,
+        groups: [
+            { at: 1, enemy: 'BASIC', count: 5, formation: 'LINE', x: 0.5, path: 'DROP' },
+            { at: 6, enemy: 'BASIC', count: 5, formation: 'V', x: 0.3, path: 'SWOOP_LEFT' },
+            { at: 10, enemy: 'BASIC', count: 5, formation: 'V', x: 0.7, path: 'SWOOP_RIGHT' },
+            { at: 15, enemy: 'SINE', count: 3, formation: 'LINE', x: 0.5, spacing: 140 },
+            { at: 20, enemy: 'SCOUT', count: 4, formation: 'LINE', x: 0.5, path: 'DROP' },
+            { at: 25, enemy: 'BASIC', count: 7, formation: 'V', x: 0.5, path: 'DROP' },
+        ],
+        events: [
+            { at: 0, type: 'MESSAGE', text: 'STAGE 1 - OUTER PICKET' },
+            { at: 12, type: 'POWERUP', powerup: 'TRIPLE_SHOT', x: 0.5 },
+            { at: 19, type: 'MUSIC', music: 'ACTION' },
+        ],
+    },
+    {
+        name: 'Asteroid Run',
+        music: 'ACTION',
+        boss: 'WARDEN',
+        groups: [
+            { at: 1, enemy: 'ZIGZAG', count: 4, formation: 'LINE', x: 0.5, spacing: 120 },
+            { at: 5, enemy: 'SCOUT', count: 5, formation: 'V', x: 0.25, path: 'SWOOP_LEFT' },
+            { at: 9, enemy: 'SCOUT', count: 5, formation: 'V', x: 0.75, path: 'SWOOP_RIGHT' },
+            { at: 14, enemy: 'DIVER', count: 3, formation: 'LINE', x: 0.5, spacing: 180, path: 'DROP' },
+            { at: 18, enemy: 'SINE', count: 6, formation: 'CIRCLE', x: 0.5, spacing: 90, path: 'LOOP' },
+            { at: 24, enemy: 'ZIGZAG', count: 6, formation: 'V', x: 0.5 },
+            { at: 28, enemy: 'DIVER', count: 4, formation: 'LINE', x: 0.5, spacing: 140, path: 'DROP' },
+        ],
+        events: [
+            { at: 0, type: 'MESSAGE', text: 'STAGE 2 - ASTEROID RUN' },
+            { at: 3, type: 'HAZARD', hazard: 'ASTEROID', x: 0.3 },
+            { at: 11, type: 'HAZARD', hazard: 'ASTEROID', x: 0.7 },
+            { at: 16, type: 'POWERUP', powerup: 'SHIELD', x: 0.3 },
+            { at: 21, type: 'HAZARD', hazard: 'ASTEROID', x: 0.5 },
+            { at: 30, type: 'MESSAGE', text: 'WARDEN CLASS SIGNATURE DETECTED' },
+        ],
+    },
+    {
+        name: 'Shattered Fleet',
+        music: 'ACTION',
+        boss: null,
+        groups: [
+            { at: 1, enemy: 'SPLITTER', count: 3, formation: 'LINE', x: 0.5, spacing: 160, path: 'DROP' },
+            { at: 6, enemy: 'KAMIKAZE', count: 4, formation: 'V', x: 0.5, path: 'SWOOP_LEFT' },
+            { at: 10, enemy: 'KAMIKAZE', count: 4, formation: 'V', x: 0.5, path: 'SWOOP_RIGHT' },
+            { at: 14, enemy: 'BASIC', count: 8, formation: 'CIRCLE', x: 0.5, spacing: 110, path: 'LOOP' },
+            { at: 20, enemy: 'SPLITTER', count: 5, formation: 'V', x: 0.5, path: 'DROP' },
+            { at: 26, enemy: 'SCOUT', count: 6, formation: 'LINE', x: 0.5 },
+            { at: 30, enemy: 'KAMIKAZE', count: 6, formation: 'CIRCLE', x: 0.5, spacing: 80, path: 'DROP' },
+        ],
+        events: [
+            { at: 0, type: 'MESSAGE', text: 'STAGE 3 - SHATTERED FLEET' },
+            { at: 12, type: 'POWERUP', powerup: 'RAPID_FIRE', x: 0.7 },
+            { at: 24, type: 'POWERUP', powerup: 'HEAL', x: 0.3 },
+        ],
+    },
+    {
+        name: 'Gun Line',
+        music: 'ACTION',
+        boss: 'HYDRA',
+        groups: [
+            { at: 1, enemy: 'TURRET', count: 3, formation: 'LINE', x: 0.5, spacing: 200 },
+            { at: 6, enemy: 'SINE', count: 5, formation: 'V', x: 0.5, path: 'DROP' },
+            { at: 12, enemy: 'DIVER', count: 5, formation: 'V', x: 0.3, path: 'SWOOP_LEFT' },
+            { at: 16, enemy: 'DIVER', count: 5, formation: 'V', x: 0.7, path: 'SWOOP_RIGHT' },
+            { at: 22, enemy: 'TURRET', count: 4, formation: 'LINE', x: 0.5, spacing: 150, path: 'DROP' },
+            { at: 28, enemy: 'KAMIKAZE', count: 8, formation: 'CIRCLE', x: 0.5, spacing: 100, path: 'LOOP' },
+            { at: 34, enemy: 'SPLITTER', count: 4, formation: 'LINE', x: 0.5, spacing: 130 },
+        ],
+        events: [
+            { at: 0, type: 'MESSAGE', text: 'STAGE 4 - GUN LINE' },
+            { at: 10, type: 'POWERUP', powerup: 'SHIELD', x: 0.5 },
+            { at: 19, type: 'HAZARD', hazard: 'LASER_GATE', x: 0.25 },
+            { at: 26, type: 'POWERUP', powerup: 'TRIPLE_SHOT', x: 0.5 },
+            { at: 36, type: 'MESSAGE', text: 'HYDRA CLASS SIGNATURE DETECTED' },
+        ],
+    },
+    {
+        name: 'Citadel Approach',
+        music: 'ACTION',
+        boss: null,
+        groups: [
+            { at: 1, enemy: 'SCOUT', count: 7, formation: 'V', x: 0.5, path: 'DROP' },
+            { at: 5, enemy: 'TURRET', count: 2, formation: 'LINE', x: 0.5, spacing: 320 },
+            { at: 8, enemy: 'ZIGZAG', count: 6, formation: 'CIRCLE', x: 0.5, spacing: 90, path: 'LOOP' },
+            { at: 13, enemy: 'KAMIKAZE', count: 5, formation: 'V', x: 0.2, path: 'SWOOP_LEFT' },
+            { at: 13, enemy: 'KAMIKAZE', count: 5, formation: 'V', x: 0.8, path: 'SWOOP_RIGHT' },
+            { at: 19, enemy: 'SPLITTER', count: 6, formation: 'LINE', x: 0.5, spacing: 100, path: 'DROP' },
+            { at: 25, enemy: 'DIVER', count: 7, formation: 'V', x: 0.5, path: 'DROP' },
+            { at: 31, enemy: 'TURRET', count: 3, formation: 'V', x: 0.5, spacing: 150, path: 'DROP' },
+        ],
+        events: [
+            { at: 0, type: 'MESSAGE', text: 'STAGE 5 - CITADEL APPROACH' },
+            { at: 10, type: 'HAZARD', hazard: 'GRAVITY_WELL', x: 0.5 },
+            { at: 17, type: 'POWERUP', powerup: 'HEAL', x: 0.5 },
+            { at: 22, type: 'HAZARD', hazard: 'EMP_STORM', x: 0.3 },
+            { at: 29, type: 'MUSIC', music: 'BOSS' },
+            { at: 29, type: 'MESSAGE', text: 'CITADEL DEFENCES ONLINE' },
+        ],
+    },
+    {
+        name: 'The Citadel',
+        music: 'BOSS',
+        boss: 'LANCER',
+        groups: [
+            { at: 1, enemy: 'TURRET', count: 4, formation: 'LINE', x: 0.5, spacing: 150, path: 'DROP' },
+            { at: 7, enemy: 'KAMIKAZE', count: 8, formation: 'CIRCLE', x: 0.5, spacing: 110, path: 'LOOP' },
+            { at: 13, enemy: 'SPLITTER', count: 5, formation: 'V', x: 0.3, path: 'SWOOP_LEFT' },
+            { at: 13, enemy: 'SPLITTER', count: 5, formation: 'V', x: 0.7, path: 'SWOOP_RIGHT' },
+            { at: 20, enemy: 'SINE', count: 9, formation: 'V', x: 0.5, path: 'DROP' },
+            { at: 26, enemy: 'DIVER', count: 8, formation: 'CIRCLE', x: 0.5, spacing: 120, path: 'LOOP' },
+        ],
+        events: [
+            { at: 0, type: 'MESSAGE', text: 'FINAL STAGE - THE CITADEL' },
+            { at: 11, type: 'POWERUP', powerup: 'SHIELD', x: 0.5 },
+            { at: 24, type: 'POWERUP', powerup: 'RAPID_FIRE', x: 0.5 },
+            { at: 30, type: 'MESSAGE', text: 'LANCER CLASS SIGNATURE DETECTED' },
+        ],
+    },
+];
+
+export const CAMPAIGN: StageFile[] = parseStages(STAGES);
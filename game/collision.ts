@@ -0,0 +1,202 @@
+import { Vec } from './patterns';
+
+// --- Collision ---
+// Every overlap test in the game goes through here. Entities keep an axis-aligned `x, y, w, h`
+// footprint for the cheap broadphase; the exact outline is a typed shape that is only built
+// for pairs whose footprints already touch, so the hot loops never allocate.
+
+export interface Bounds { x: number; y: number; w: number; h: number; }
+
+export interface BoxShape { kind: 'aabb'; x: number; y: number; w: number; h: number; }
+export interface CircleShape { kind: 'circle'; x: number; y: number; r: number; }
+export interface TriangleShape { kind: 'triangle'; points: [Vec, Vec, Vec]; }
+
+export type Shape = BoxShape | CircleShape | TriangleShape;
+
+export const box = (x: number, y: number, w: number, h: number): BoxShape => ({ kind: 'aabb', x, y, w, h });
+export const circle = (x: number, y: number, r: number): CircleShape => ({ kind: 'circle', x, y, r });
+export const triangle = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number): TriangleShape =>
+    ({ kind: 'triangle', points: [{ x: ax, y: ay }, { x: bx, y: by }, { x: cx, y: cy }] });
+
+// Nose-up triangle filling the footprint, as drawn for the player ship and the DIVER
+export const arrowhead = ({ x, y, w, h }: Bounds) => triangle(x + w / 2, y, x + w, y + h, x, y + h);
+
+export const boundsOverlap = (a: Bounds, b: Bounds) =>
+    a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+export const pointInRect = (px: number, py: number, x: number, y: number, w: number, h: number) =>
+    px > x && px < x + w && py > y && py < y + h;
+
+// --- Narrowphase ---
+
+const corners = (s: BoxShape | TriangleShape): Vec[] => s.kind === 'triangle' ? s.points : [
+    { x: s.x, y: s.y }, { x: s.x + s.w, y: s.y }, { x: s.x + s.w, y: s.y + s.h }, { x: s.x, y: s.y + s.h },
+];
+
+const project = (points: Vec[], ax: number, ay: number) => {
+    let min = Infinity, max = -Infinity;
+    for (const p of points) {
+        const d = p.x * ax + p.y * ay;
+        if (d < min) min = d;
+        if (d > max) max = d;
+    }
+    return { min, max };
+};
+
+// Separating axis test; the edge normals of both convex outlines are the only axes to try
+const polygonsOverlap = (a: Vec[], b: Vec[]) => {
+    for (const poly of [a, b]) {
+        for (let i = 0; i < poly.length; i++) {
+            const p = poly[i], q = poly[(i + 1) % poly.length];
+            const ax = q.y - p.y, ay = p.x - q.x;
+            const pa = project(a, ax, ay), pb = project(b, ax, ay);
+            if (pa.max <= pb.min || pb.max <= pa.min) return false;
+        }
+    }
+    return true;
+};
+
+const insidePolygon = (points: Vec[], x: number, y: number) => {
+    let sign = 0;
+    for (let i = 0; i < points.length; i++) {
+        const p = points[i], q = points[(i + 1) % points.length];
+        const cross = (q.x - p.x) * (y - p.y) - (q.y - p.y) * (x - p.x);
+        if (cross === 0) continue;
+        if (sign === 0) sign = Math.sign(cross);
+        else if (Math.sign(cross) !== sign) return false;
+    }
+    return true;
+};
+
+const polygonCircleOverlap = (points: Vec[], c: CircleShape) => {
+    if (insidePolygon(points, c.x, c.y)) return true;
+    for (let i = 0; i < points.length; i++) {
+        const p = points[i], q = points[(i + 1) % points.length];
+        const ex = q.x - p.x, ey = q.y - p.y;
+        const t = Math.max(0, Math.min(1, ((c.x - p.x) * ex + (c.y - p.y) * ey) / (ex * ex + ey * ey || 1)));
+        const dx = p.x + ex * t - c.x, dy = p.y + ey * t - c.y;
+        if (dx * dx + dy * dy < c.r * c.r) return true;
+    }
+    return false;
+};
+
+export const overlaps = (a: Shape, b: Shape): boolean => {
+    if (a.kind === 'circle' && b.kind === 'circle') {
+        const dx = a.x - b.x, dy = a.y - b.y, r = a.r + b.r;
+        return dx * dx + dy * dy < r * r;
+    }
+    if (a.kind === 'aabb' && b.kind === 'aabb') return boundsOverlap(a, b);
+    if (a.kind === 'circle') return polygonCircleOverlap(corners(b as BoxShape | TriangleShape), a);
+    if (b.kind === 'circle') return polygonCircleOverlap(corners(a), b);
+    return polygonsOverlap(corners(a), corners(b));
+};
+
+export const containsPoint = (s: Shape, x: number, y: number) => {
+    if (s.kind === 'circle') return (x - s.x) ** 2 + (y - s.y) ** 2 < s.r * s.r;
+    if (s.kind === 'aabb') return pointInRect(x, y, s.x, s.y, s.w, s.h);
+    return insidePolygon(s.points, x, y);
+};
+
+// --- Broadphase ---
+// Narrows "everything against everything" down to pairs whose footprints share space. Both
+// implementations return candidates in insertion order, so swapping one for the other never
+// changes the outcome of a run, only how long it takes.
+
+export interface Broadphase<T> {
+    clear(): void;
+    insert(item: T, bounds: Bounds): void;
+    // Fills `out` with items whose footprint overlaps `bounds`
+    query(bounds: Bounds, out: T[]): T[];
+}
+
+// Checks every item; kept as the reference the grid is measured against
+export class NaiveBroadphase<T> implements Broadphase<T> {
+    private items: T[] = [];
+    private bounds: Bounds[] = [];
+
+    clear() {
+        this.items.length = 0;
+        this.bounds.length = 0;
+    }
+
+    insert(item: T, bounds: Bounds) {
+        this.items.push(item);
+        this.bounds.push(bounds);
+    }
+
+    query(bounds: Bounds, out: T[]) {
+        out.length = 0;
+        for (let i = 0; i < this.items.length; i++) {
+            if (boundsOverlap(this.bounds[i], bounds)) out.push(this.items[i]);
+        }
+        return out;
+    }
+}
+
+// Uniform grid of square cells. Cell lists are kept between frames and only emptied, and
+// items spanning several cells are reported once thanks to a per-query stamp.
+export class SpatialGrid<T> implements Broadphase<T> {
+    private cells = new Map<number, number[]>();
+    private used: number[][] = [];
+    private items: T[] = [];
+    private bounds: Bounds[] = [];
+    private stamps: number[] = [];
+    private queryId = 0;
+    private found: number[] = [];
+
+    constructor(readonly cellSize = 64) {}
+
+    // Rows and columns are packed into one number; the playfield never gets near 32k cells across
+    private key(cx: number, cy: number) {
+        return cx * 65536 + cy;
+    }
+
+    clear() {
+        for (const list of this.used) list.length = 0;
+        this.used.length = 0;
+        this.items.length = 0;
+        this.bounds.length = 0;
+        this.stamps.length = 0;
+    }
+
+    insert(item: T, bounds: Bounds) {
+        const index = this.items.length;
+        this.items.push(item);
+        this.bounds.push(bounds);
+        this.stamps.push(0);
+        const size = this.cellSize;
+        const x1 = Math.floor((bounds.x + bounds.w) / size), y1 = Math.floor((bounds.y + bounds.h) / size);
+        for (let cx = Math.floor(bounds.x / size); cx <= x1; cx++) {
+            for (let cy = Math.floor(bounds.y / size); cy <= y1; cy++) {
+                const key = this.key(cx, cy);
+                let list = this.cells.get(key);
+                if (!list) this.cells.set(key, list = []);
+                if (list.length === 0) this.used.push(list);
+                list.push(index);
+            }
+        }
+    }
+
+    query(bounds: Bounds, out: T[]) {
+        out.length = 0;
+        const found = this.found;
+        found.length = 0;
+        const stamp = ++this.queryId;
+        const size = this.cellSize;
+        const x1 = Math.floor((bounds.x + bounds.w) / size), y1 = Math.floor((bounds.y + bounds.h) / size);
+        for (let cx = Math.floor(bounds.x / size); cx <= x1; cx++) {
+            for (let cy = Math.floor(bounds.y / size); cy <= y1; cy++) {
+                const list = this.cells.get(this.key(cx, cy));
+                if (!list) continue;
+                for (const index of list) {
+                    if (this.stamps[index] === stamp) continue;
+                    this.stamps[index] = stamp;
+                    if (boundsOverlap(this.bounds[index], bounds)) found.push(index);
+                }
+            }
+        }
+        if (found.length > 1) found.sort((a, b) => a - b);
+        for (const index of found) out.push(this.items[index]);
+        return out;
+    }
+}
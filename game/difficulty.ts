@@ -0,0 +1,23 @@
+import { isObject, isOneOf } from './json';
+import { Difficulty, DifficultyPreset } from './types';
+
+// --- Difficulty ---
+// Presets are plain multipliers on the standard rules. They travel with the run config, so a
+// replay or leaderboard entry always knows which rules it was played under.
+
+export const DIFFICULTY_PRESETS: Record<Exclude<DifficultyPreset, 'CUSTOM'>, Difficulty> = {
+    EASY: { preset: 'EASY', scaling: 0.7, damage: 0.6, spawnRate: 0.75 },
+    NORMAL: { preset: 'NORMAL', scaling: 1, damage: 1, spawnRate: 1 },
+    HARD: { preset: 'HARD', scaling: 1.35, damage: 1.4, spawnRate: 1.3 },
+};
+
+export const DIFFICULTY_PRESET_IDS: DifficultyPreset[] = ['EASY', 'NORMAL', 'HARD', 'CUSTOM'];
+
+// Custom multipliers stay within this range
+export const DIFFICULTY_MIN = 0.5;
+export const DIFFICULTY_MAX = 2;
+
+const inRange = (value: unknown) => typeof value === 'number' && value >= DIFFICULTY_MIN && value <= DIFFICULTY_MAX;
+
+export const isDifficulty = (d: unknown): d is Difficulty =>
+    isObject(d) && isOneOf(d.preset, DIFFICULTY_PRESET_IDS) && ['scaling', 'damage', 'spawnRate'].every(k => inRange(d[k]));
@@ -0,0 +1,54 @@
+import { SpawnGroup, StageError, StageFile, parseStage, stageLength } from './stages';
+import { StorageBackend } from './storage';
+
+// --- Stage Editor ---
+// The editor works on one stage draft, kept in storage between sessions so a designer can
+// play-test, tweak and come back without exporting first. Stages leave and enter the editor as
+// JSON files and go through the same validation as the campaign.
+
+export const DRAFT_KEY = 'galaxy-defender-stage-draft';
+
+// The timeline always shows at least this many seconds, and some room past the last group
+const MIN_TIMELINE = 40;
+const TIMELINE_PADDING = 10;
+
+export const newGroup = (at: number): SpawnGroup => ({ at, enemy: 'BASIC', count: 5, formation: 'V', x: 0.5, path: 'DROP' });
+
+export const blankStage = (): StageFile => ({
+    name: 'New Stage',
+    music: 'ACTION',
+    boss: null,
+    groups: [newGroup(1)],
+    events: [],
+});
+
+export const timelineLength = (stage: StageFile) => Math.max(MIN_TIMELINE, Math.ceil(stageLength(stage) + TIMELINE_PADDING));
+
+// A draft that no longer validates, say after an enemy type was renamed, starts over blank
+export const loadDraft = (storage: StorageBackend): StageFile => {
+    try {
+        return parseStage(JSON.parse(storage.read(DRAFT_KEY) ?? 'null'));
+    } catch {
+        return blankStage();
+    }
+};
+
+export const saveDraft = (storage: StorageBackend, stage: StageFile) => {
+    storage.write(DRAFT_KEY, JSON.stringify(stage));
+};
+
+// Reads an exported stage file; problems are thrown with the validator's message
+export const importStage = (text: string): StageFile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new StageError('Stage file is not valid JSON');
+    }
+    return parseStage(data);
+};
+
+export const exportStage = (stage: StageFile) => JSON.stringify(stage, null, 2);
+
+export const stageFileName = (stage: StageFile) =>
+    `${stage.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'stage'}.json`;
@@ -0,0 +1,272 @@
+import { Shape, arrowhead } from './collision';
+import { Enemy, Player } from './entities';
+import { Palette } from './palette';
+import { Vec, aimed, burst, once, registerPattern, straight } from './patterns';
+import { DropTable } from './powerups';
+import { Rng } from './rng';
+import { EnemyType } from './types';
+
+// --- Enemy Archetypes ---
+// Each ship is one self-contained definition: stats, how it moves, how it shoots, how it looks,
+// what it is worth, what it drops and how often it shows up. The simulation only ever talks to this interface.
+
+export interface EnemyContext {
+    dt: number;
+    width: number;
+    height: number;
+    difficulty: number;
+    wave: number;
+    // The closest ship still flying; there are two in co-op
+    target: (from: Vec) => Player;
+    rng: Rng;
+    // Starts the named bullet pattern from a fixed point; later steps of a burst keep firing from there
+    fire: (pattern: string, origin: Vec) => void;
+    spawn: (type: EnemyType, x: number, y: number, init?: (e: Enemy) => void) => void;
+}
+
+export interface EnemyStats {
+    hue: number;
+    w: number;
+    h: number;
+    // Multiplier on the wave's base descent speed
+    speed: number;
+    hp: number;
+    contactDamage: number;
+}
+
+export interface EnemyArchetype {
+    id: EnemyType;
+    stats: EnemyStats;
+    reward: { score: number; coins: number };
+    // Power-ups it may leave behind; DEFAULT_DROPS when left out
+    drops?: DropTable;
+    // Relative chance of being picked by the procedural spawner; 0 keeps it out of the wave
+    spawnWeight: (wave: number) => number;
+    // Outline for hit tests; defaults to the full w x h box
+    shape?: (e: Enemy) => Shape;
+    init?: (e: Enemy, ctx: EnemyContext) => void;
+    move: (e: Enemy, ctx: EnemyContext) => void;
+    fire?: (e: Enemy, ctx: EnemyContext) => void;
+    onDeath?: (e: Enemy, ctx: EnemyContext) => void;
+    // Drawn once per size and generation into a cached sprite, so it must not animate
+    render: (g: CanvasRenderingContext2D, e: Enemy, x: number, y: number, palette: Palette) => void;
+}
+
+export const ENEMY_ARCHETYPES: Record<EnemyType, EnemyArchetype> = {};
+
+export const registerEnemy = (archetype: EnemyArchetype) => {
+    ENEMY_ARCHETYPES[archetype.id] = archetype;
+    return archetype;
+};
+
+export const getArchetype = (type: EnemyType) => {
+    const archetype = ENEMY_ARCHETYPES[type];
+    if (!archetype) throw new Error(`Unknown enemy type "${type}"`);
+    return archetype;
+};
+
+export const pickArchetype = (wave: number, rng: Rng) => {
+    const pool = Object.values(ENEMY_ARCHETYPES).map(a => ({ a, w: Math.max(0, a.spawnWeight(wave)) }));
+    const total = pool.reduce((sum, p) => sum + p.w, 0);
+    let roll = rng.next() * total;
+    for (const p of pool) {
+        roll -= p.w;
+        if (roll < 0) return p.a;
+    }
+    return pool[0].a;
+};
+
+// --- Shared building blocks ---
+
+const BASE_STATS: EnemyStats = { hue: 200, w: 40, h: 40, speed: 1, hp: 1, contactDamage: 20 };
+
+const stroke = (g: CanvasRenderingContext2D, e: Enemy, palette: Palette) => {
+    g.strokeStyle = palette.enemy(e.hue);
+    g.lineWidth = 3;
+};
+
+const drawBox = (g: CanvasRenderingContext2D, e: Enemy, x: number, y: number, palette: Palette) => {
+    stroke(g, e, palette);
+    g.strokeRect(x, y, e.w, e.h);
+};
+
+const descend = (e: Enemy, ctx: EnemyContext) => { e.y += e.s * ctx.dt; };
+
+registerPattern('drop', once(straight(Math.PI / 2, 420)));
+registerPattern('turret-burst', burst(aimed(360), 3, 0.12));
+
+const muzzle = (e: Enemy): Vec => ({ x: e.x + e.w / 2, y: e.y + e.h });
+
+// Random straight-down shots, `rate` per second before difficulty scaling
+const dropShots = (rate: number) => (e: Enemy, ctx: EnemyContext) => {
+    if (ctx.rng.next() < rate * ctx.difficulty * ctx.dt) ctx.fire('drop', muzzle(e));
+};
+
+const aimAt = (e: Enemy, player: Player, speed: number) => {
+    const dx = (player.x + player.w / 2) - (e.x + e.w / 2);
+    const dy = (player.y + player.h / 2) - (e.y + e.h);
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+    return { vx: (dx / dist) * speed, vy: (dy / dist) * speed };
+};
+
+// --- Classic roster ---
+
+registerEnemy({
+    id: 'BASIC',
+    stats: BASE_STATS,
+    reward: { score: 50, coins: 10 },
+    // The most common ship drops least, and mostly the basics
+    drops: { chance: 0.12, weights: { RAPID_FIRE: 6, SHIELD: 5, TRIPLE_SHOT: 6, HEAL: 5, MAGNET: 2 } },
+    spawnWeight: () => 40,
+    move: descend,
+    render: drawBox,
+});
+
+registerEnemy({
+    id: 'SINE',
+    stats: { ...BASE_STATS, hue: 300, speed: 0.9 },
+    reward: { score: 60, coins: 10 },
+    drops: { chance: 0.16, weights: { RAPID_FIRE: 5, SHIELD: 5, TRIPLE_SHOT: 5, HEAL: 4, MAGNET: 3, TIME_SLOW: 2 } },
+    spawnWeight: () => 20,
+    move: (e, ctx) => {
+        e.y += e.s * ctx.dt;
+        e.x = e.startX + Math.sin(e.timer * 2.4) * 120;
+    },
+    fire: dropShots(0.3),
+    render: drawBox,
+});
+
+registerEnemy({
+    id: 'ZIGZAG',
+    stats: { ...BASE_STATS, hue: 120, speed: 1.3 },
+    reward: { score: 60, coins: 10 },
+    // Hard to pin down, so it pays out a little more and leans towards TIME_SLOW
+    drops: { chance: 0.2, weights: { RAPID_FIRE: 4, TRIPLE_SHOT: 4, HEAL: 3, MAGNET: 3, TIME_SLOW: 4 } },
+    spawnWeight: () => 15,
+    move: (e, ctx) => {
+        e.y += e.s * ctx.dt;
+        e.x += Math.sin(e.timer * 9) * 600 * ctx.dt;
+    },
+    render: drawBox,
+});
+
+registerEnemy({
+    id: 'SCOUT',
+    stats: { ...BASE_STATS, hue: 40, speed: 1.5 },
+    reward: { score: 75, coins: 12 },
+    drops: { chance: 0.2, weights: { RAPID_FIRE: 6, SHIELD: 3, TRIPLE_SHOT: 4, HEAL: 3, MAGNET: 4, SCORE_DOUBLER: 1 } },
+    spawnWeight: () => 15,
+    move: (e, ctx) => {
+        e.y += e.s * ctx.dt;
+        if (e.timer % (5 / 3) < 5 / 6) e.x += 150 * ctx.dt; else e.x -= 150 * ctx.dt;
+    },
+    fire: dropShots(0.6),
+    render: (g, e, x, y, palette) => {
+        stroke(g, e, palette);
+        g.strokeRect(x + 5, y + 10, 30, 20);
+        g.strokeRect(x + 15, y, 10, 10);
+    },
+});
+
+registerEnemy({
+    id: 'DIVER',
+    stats: { ...BASE_STATS, hue: 0, speed: 0.6, hp: 3 },
+    reward: { score: 90, coins: 14 },
+    drops: { chance: 0.25, weights: { SHIELD: 6, TRIPLE_SHOT: 3, HEAL: 4, DRONE: 2, SCORE_DOUBLER: 2 } },
+    spawnWeight: () => 10,
+    shape: arrowhead,
+    move: (e, ctx) => {
+        if (e.y < 250) e.y += e.s * ctx.dt;
+        else e.y += e.s * 4.5 * ctx.dt;
+    },
+    render: (g, e, x, y, palette) => {
+        stroke(g, e, palette);
+        g.beginPath(); g.moveTo(x + 20, y); g.lineTo(x + 40, y + 40); g.lineTo(x, y + 40); g.closePath(); g.stroke();
+    },
+});
+
+// --- Newer ships ---
+
+// Breaks into two fast shards when destroyed; the shards themselves do not split again
+registerEnemy({
+    id: 'SPLITTER',
+    stats: { ...BASE_STATS, hue: 180, w: 44, h: 44, speed: 0.7, hp: 4 },
+    reward: { score: 80, coins: 12 },
+    // Each shard rolls too, so the chance is kept low
+    drops: { chance: 0.1, weights: { RAPID_FIRE: 4, SHIELD: 3, TRIPLE_SHOT: 5, HEAL: 3, MAGNET: 3 } },
+    spawnWeight: wave => (wave >= 2 ? 8 : 0),
+    move: (e, ctx) => {
+        e.y += e.s * ctx.dt;
+        e.x += e.vx * ctx.dt;
+    },
+    onDeath: (e, ctx) => {
+        if (e.generation > 0) return;
+        [-1, 1].forEach(dir => ctx.spawn('SPLITTER', e.x + e.w / 4, e.y, shard => {
+            shard.generation = 1;
+            shard.w = shard.h = 22;
+            shard.hp = shard.maxHp = 1;
+            shard.s = e.s * 1.6;
+            shard.vx = dir * 160;
+        }));
+    },
+    render: (g, e, x, y, palette) => {
+        stroke(g, e, palette);
+        const cx = x + e.w / 2, cy = y + e.h / 2, r = e.w / 2;
+        g.beginPath(); g.moveTo(cx, y); g.lineTo(x + e.w, cy); g.lineTo(cx, y + e.h); g.lineTo(x, cy); g.closePath(); g.stroke();
+        if (e.generation === 0) { g.beginPath(); g.moveTo(cx, cy - r / 2); g.lineTo(cx, cy + r / 2); g.stroke(); }
+    },
+});
+
+// Locks on after a short glide and steers into the nearest player
+registerEnemy({
+    id: 'KAMIKAZE',
+    stats: { ...BASE_STATS, hue: 15, w: 32, h: 32, speed: 1.1, hp: 2, contactDamage: 30 },
+    reward: { score: 70, coins: 12 },
+    drops: { chance: 0.18, weights: { SHIELD: 6, HEAL: 6, TIME_SLOW: 3, BOMB_CHARGE: 1 } },
+    spawnWeight: wave => (wave >= 2 ? 7 : 0),
+    init: e => { e.vy = e.s; },
+    move: (e, ctx) => {
+        if (e.timer > 0.8) {
+            const target = aimAt(e, ctx.target({ x: e.x + e.w / 2, y: e.y + e.h / 2 }), 200 + e.s * 1.5);
+            const steer = Math.min(1, 2.5 * ctx.dt);
+            e.vx += (target.vx - e.vx) * steer;
+            e.vy += (Math.max(target.vy, 60) - e.vy) * steer;
+        }
+        e.x += e.vx * ctx.dt;
+        e.y += e.vy * ctx.dt;
+    },
+    render: (g, e, x, y, palette) => {
+        stroke(g, e, palette);
+        const cx = x + e.w / 2;
+        g.beginPath(); g.moveTo(cx, y + e.h); g.lineTo(x + e.w, y); g.lineTo(cx, y + e.h * 0.35); g.lineTo(x, y); g.closePath(); g.stroke();
+    },
+});
+
+// Descends to a firing line, parks, and fires aimed three-round bursts
+registerEnemy({
+    id: 'TURRET',
+    stats: { ...BASE_STATS, hue: 60, w: 46, h: 38, speed: 0.8, hp: 6, contactDamage: 25 },
+    reward: { score: 120, coins: 20 },
+    // Tough and rare, so it carries the best of the rarer power-ups
+    drops: { chance: 0.35, weights: { SHIELD: 3, TRIPLE_SHOT: 3, HEAL: 3, DRONE: 4, BOMB_CHARGE: 3, SCORE_DOUBLER: 3 } },
+    spawnWeight: wave => (wave >= 3 ? 6 : 0),
+    init: (e, ctx) => { e.anchorY = 110 + ctx.rng.next() * 120; e.cooldown = 1; },
+    move: (e, ctx) => {
+        if (e.y < e.anchorY) e.y = Math.min(e.anchorY, e.y + e.s * ctx.dt);
+        else if (e.timer > 14) e.y += e.s * ctx.dt;
+    },
+    fire: (e, ctx) => {
+        if (e.y < e.anchorY || e.timer > 14) return;
+        e.cooldown -= ctx.dt;
+        if (e.cooldown > 0) return;
+        ctx.fire('turret-burst', muzzle(e));
+        // The burst takes a quarter second, then a pause that shortens as difficulty climbs
+        e.cooldown += 0.24 + 2.2 / Math.sqrt(ctx.difficulty);
+    },
+    render: (g, e, x, y, palette) => {
+        stroke(g, e, palette);
+        g.strokeRect(x, y + 10, e.w, e.h - 10);
+        g.beginPath(); g.arc(x + e.w / 2, y + 14, 9, Math.PI, 0); g.stroke();
+        g.beginPath(); g.moveTo(x + e.w / 2, y + 14); g.lineTo(x + e.w / 2, y + e.h + 6); g.stroke();
+    },
+});
@@ -0,0 +1,447 @@
+import type { BossContext, BossDefinition } from './bosses';
+import type { EnemyArchetype, EnemyContext } from './enemies';
+import type { HazardContext, HazardDef } from './hazards';
+import type { EntryPath } from './stages';
+import { Shape, arrowhead, box, circle, pointInRect } from './collision';
+import { BulletMotion, PatternRunner, Vec, getPattern } from './patterns';
+import { EnemyType, HazardType, PowerUpType, RandomSource } from './types';
+
+// --- Game Entities ---
+// Speeds are in pixels per second and timers in seconds; every update() takes the step length.
+// px/py hold the position at the start of the current step so the renderer can interpolate.
+// Particles, projectiles and enemies are pooled: reset() returns a recycled instance to the
+// state a fresh one would have, and the simulation sets `dead` instead of splicing it out.
+
+// What one ship contributed to the run, for the co-op breakdown
+export interface PlayerStats {
+    score: number;
+    kills: number;
+    shotsFired: number;
+    shotsHit: number;
+    damageTaken: number;
+    revives: number;
+    grazes: number;
+}
+
+// A timed power-up running on a ship, see powerups.ts
+export interface ActiveEffect {
+    // Seconds left, and the most it has had left, for the HUD timer
+    time: number;
+    duration: number;
+    // Copies running at once, for power-ups that stack
+    stacks: number;
+    // Free for the power-up's own use, such as a fire cooldown
+    timer: number;
+}
+
+export interface Player {
+    // 0 for player one, 1 for player two in co-op
+    index: number;
+    x: number; y: number; w: number; h: number; vx: number;
+    px: number; py: number;
+    invul: number;
+    effects: Partial<Record<PowerUpType, ActiveEffect>>;
+    // Seconds until an EMP storm's jamming wears off; power-ups are held until then
+    jammed: number;
+    // Seconds the trigger has been held for a charged weapon
+    charge: number;
+    health: number;
+    // A downed ship drifts out of the fight until its partner hovers alongside for long enough
+    downed: boolean;
+    revive: number;
+    lastFire: number;
+    // Bombs go off on the press, not while the button is held
+    bombHeld: boolean;
+    stats: PlayerStats;
+}
+
+export const createPlayer = (index: number, health: number): Player => ({
+    index, x: 0, y: 0, px: 0, py: 0, w: 40, h: 40, vx: 0,
+    invul: 0, effects: {}, jammed: 0, charge: 0,
+    health, downed: false, revive: 0, lastFire: -Infinity, bombHeld: false,
+    stats: { score: 0, kills: 0, shotsFired: 0, shotsHit: 0, damageTaken: 0, revives: 0, grazes: 0 },
+});
+
+// Tighter than the drawn ship so grazing shots along the wings do not count
+export const playerShape = (player: Player): Shape => arrowhead(player);
+
+export class Particle {
+    x: number; y: number; vx: number; vy: number;
+    px: number; py: number;
+    life: number = 1.0;
+    color: string;
+    reset(x: number, y: number, color: string, random: RandomSource, vx?: number, vy?: number) {
+        this.x = this.px = x; this.y = this.py = y;
+        this.vx = vx ?? (random() - 0.5) * 360;
+        this.vy = vy ?? (random() - 0.5) * 360;
+        this.color = color;
+        this.life = 1.0;
+        return this;
+    }
+    update(dt: number) { this.x += this.vx * dt; this.y += this.vy * dt; this.life -= 1.2 * dt; }
+}
+
+// Floating score text over where the points were earned; drifts up and fades
+export type PopupKind = 'KILL' | 'GRAZE' | 'BONUS';
+
+export class Popup {
+    x: number; y: number;
+    px: number; py: number;
+    text: string;
+    kind: PopupKind;
+    life: number = 1.0;
+    constructor(x: number, y: number, text: string, kind: PopupKind) {
+        this.x = this.px = x; this.y = this.py = y; this.text = text; this.kind = kind;
+    }
+    update(dt: number) { this.y -= 48 * dt; this.life -= 1.1 * dt; }
+}
+
+export class Projectile {
+    x: number; y: number; vx: number; vy: number;
+    px: number; py: number;
+    w: number = 4; h: number = 12;
+    fromEnemy: boolean;
+    motion?: BulletMotion;
+    age: number = 0;
+    // Player weapon traits: damage multiplier, extra targets it may pass through, and steering
+    power: number = 1;
+    pierce: number = 0;
+    homing: boolean = false;
+    color?: string;
+    // Ids of targets already struck, so a piercing shot damages each only once
+    hits: number[] = [];
+    // Index of the player who fired it
+    owner: number = 0;
+    // Enemy fire only pays a graze bonus once
+    grazed: boolean = false;
+    dead: boolean = false;
+    constructor(x = 0, y = 0, vx = 0, vy = 0, fromEnemy = false, motion?: BulletMotion) {
+        this.reset(x, y, vx, vy, fromEnemy, motion);
+    }
+    // Enemy shots are small round pellets, player shots tall bolts
+    reset(x: number, y: number, vx: number, vy: number, fromEnemy = false, motion?: BulletMotion) {
+        this.x = this.px = x; this.y = this.py = y; this.vx = vx; this.vy = vy; this.fromEnemy = fromEnemy;
+        this.motion = motion;
+        this.w = fromEnemy ? 6 : 4;
+        this.h = fromEnemy ? 6 : 12;
+        this.age = 0;
+        this.power = 1;
+        this.pierce = 0;
+        this.homing = false;
+        this.color = undefined;
+        this.hits.length = 0;
+        this.owner = 0;
+        this.grazed = false;
+        this.dead = false;
+        return this;
+    }
+    get shape(): Shape {
+        return this.fromEnemy ? circle(this.x + this.w / 2, this.y + this.h / 2, this.w / 2) : box(this.x, this.y, this.w, this.h);
+    }
+    update(dt: number) {
+        const m = this.motion;
+        this.age += dt;
+        if (!m) { this.x += this.vx * dt; this.y += this.vy * dt; return; }
+        let speed = Math.sqrt(this.vx * this.vx + this.vy * this.vy) || 1;
+        if (m.accel && this.age > (m.delay ?? 0)) {
+            const next = Math.min(m.maxSpeed ?? Infinity, speed + m.accel * dt);
+            this.vx *= next / speed; this.vy *= next / speed;
+            speed = next;
+        }
+        // The wobble is a sideways velocity so the base heading is never lost
+        let side = 0;
+        if (m.curve) {
+            const w = Math.PI * 2 * m.curve.frequency;
+            side = (m.curve.amplitude * w * Math.cos(w * this.age)) / speed;
+        }
+        this.x += (this.vx - this.vy * side) * dt;
+        this.y += (this.vy + this.vx * side) * dt;
+    }
+}
+
+// Coins and crystals pop out of a wreck, then fall and have to be flown over, see loot.ts
+export type LootKind = 'COIN' | 'CRYSTAL';
+
+const LOOT_GRAVITY = 480;
+const LOOT_FALL_SPEED = 150;
+
+export class Loot {
+    x: number; y: number; vx: number; vy: number;
+    px: number; py: number;
+    w: number = 10; h: number = 10;
+    kind: LootKind;
+    value: number;
+    // Set while a ship's collection field holds it; it then flies straight in
+    pulled: boolean = false;
+    dead: boolean = false;
+    reset(x: number, y: number, kind: LootKind, value: number, vx: number, vy: number) {
+        this.x = this.px = x; this.y = this.py = y; this.vx = vx; this.vy = vy;
+        this.kind = kind;
+        this.value = value;
+        this.w = this.h = kind === 'CRYSTAL' ? 14 : 10;
+        this.pulled = false;
+        this.dead = false;
+        return this;
+    }
+    update(dt: number) {
+        if (!this.pulled) {
+            this.vx -= this.vx * Math.min(1, 2 * dt);
+            this.vy = Math.min(LOOT_FALL_SPEED, this.vy + LOOT_GRAVITY * dt);
+        }
+        this.x += this.vx * dt;
+        this.y += this.vy * dt;
+    }
+}
+
+export class PowerUp {
+    x: number; y: number; w = 30; h = 30;
+    px: number; py: number;
+    type: PowerUpType;
+    pulse: number = 0;
+    dead: boolean = false;
+    constructor(x: number, y: number, type: PowerUpType) {
+        this.x = this.px = x; this.y = this.py = y; this.type = type;
+    }
+    update(dt: number) {
+        this.y += 108 * dt;
+        this.pulse += 6 * dt;
+    }
+    get shape(): Shape {
+        return box(this.x, this.y, this.w, this.h);
+    }
+}
+
+export class Enemy {
+    x: number; y: number; w: number; h: number; s: number; hue: number;
+    px: number; py: number;
+    // Unique within a run; recycled instances get a new one
+    id: number = 0;
+    type: EnemyType;
+    archetype: EnemyArchetype;
+    startX: number;
+    timer: number = 0;
+    hp: number; maxHp: number;
+    // Free-form movement and firing state for archetype behaviors
+    vx: number = 0; vy: number = 0;
+    anchorY: number = 0;
+    cooldown: number = 0;
+    generation: number = 0;
+    // Scripted flight in from off screen, see stages.ts; the archetype's own movement waits for it
+    entry: EntryPath | null = null;
+    entryX: number = 0;
+    entryOffset: Vec = { x: 0, y: 0 };
+    dead: boolean = false;
+
+    reset(id: number, archetype: EnemyArchetype, x: number, y: number, speedBase: number) {
+        const { stats } = archetype;
+        this.id = id;
+        this.archetype = archetype;
+        this.type = archetype.id;
+        this.w = stats.w; this.h = stats.h;
+        this.hue = stats.hue;
+        this.s = speedBase * stats.speed;
+        this.hp = this.maxHp = stats.hp;
+        this.startX = this.x = this.px = x;
+        this.y = this.py = y;
+        this.timer = 0;
+        this.vx = this.vy = 0;
+        this.anchorY = 0;
+        this.cooldown = 0;
+        this.generation = 0;
+        this.entry = null;
+        this.dead = false;
+        return this;
+    }
+
+    // Flies `path` with the formation centred on `x`, keeping `offset` from that centre
+    enter(path: EntryPath, x: number, offset: Vec, width: number, height: number) {
+        this.entry = path;
+        this.entryX = x;
+        this.entryOffset = offset;
+        this.followEntry(0, width, height);
+        this.px = this.x;
+        this.py = this.y;
+    }
+
+    private followEntry(t: number, width: number, height: number) {
+        const p = this.entry!.point(t, this.entryX, width, height);
+        this.x = p.x + this.entryOffset.x - this.w / 2;
+        this.y = p.y + this.entryOffset.y - this.h / 2;
+    }
+
+    get shape(): Shape {
+        return this.archetype.shape?.(this) ?? box(this.x, this.y, this.w, this.h);
+    }
+
+    update(ctx: EnemyContext) {
+        this.timer += ctx.dt;
+        if (this.entry) {
+            const t = Math.min(1, this.timer / this.entry.duration);
+            this.followEntry(t, ctx.width, ctx.height);
+            if (t < 1) return;
+            // Hands over as if the ship had just spawned where the path left it
+            this.entry = null;
+            this.startX = this.x;
+            this.timer = 0;
+        }
+        this.archetype.move(this, ctx);
+        this.x = Math.max(0, Math.min(ctx.width - this.w, this.x));
+    }
+}
+
+export class Boss {
+    def: BossDefinition;
+    x: number; y: number; width: number; height: number;
+    px: number; py: number;
+    hp: number; maxHp: number;
+    phaseIndex: number = 0;
+    phaseTimer: number = 0;
+    // Scratch state for movements
+    angle: number = 0;
+    vx: number = 0;
+    // One pattern runner per attack of the current phase
+    weapons: PatternRunner[] = [];
+    // HP-threshold phases that have already been forced, so each only triggers once
+    triggered: number[] = [];
+    dying: boolean = false;
+    deathTimer: number = 0;
+    // Counts down to the next burst of the death sequence
+    shotTimer: number = 0;
+    // Player credited with the kill
+    lastHitBy: number = 0;
+
+    constructor(def: BossDefinition, canvasWidth: number, maxHp: number) {
+        this.def = def;
+        this.width = def.width;
+        this.height = def.height;
+        this.x = this.px = canvasWidth / 2 - def.width / 2;
+        this.y = this.py = -200;
+        this.hp = maxHp;
+        this.maxHp = maxHp;
+        this.enter(0);
+    }
+
+    get phase() {
+        return this.def.phases[this.phaseIndex];
+    }
+
+    get state() {
+        return this.dying ? 'DYING' : this.phase.name;
+    }
+
+    private enter(index: number) {
+        this.phaseIndex = index;
+        this.phaseTimer = 0;
+        this.vx = 0;
+        // Each attack holds its fire for one period after the phase starts
+        this.weapons = this.phase.attacks.map(a => {
+            const pattern = getPattern(a.pattern);
+            return new PatternRunner(pattern, pattern.period);
+        });
+    }
+
+    private nextPhase() {
+        const { phases } = this.def;
+        const named = this.phase.next ? phases.findIndex(p => p.name === this.phase.next) : -1;
+        this.enter(named >= 0 ? named : (this.phaseIndex + 1) % phases.length);
+    }
+
+    startDying() {
+        this.dying = true;
+        this.shotTimer = 0;
+    }
+
+    update(ctx: BossContext) {
+        const { dt } = ctx;
+        if (this.dying) {
+            this.deathTimer += dt;
+            this.y += 24 * dt;
+            this.x += (ctx.rng.next() - 0.5) * 480 * dt;
+            return;
+        }
+
+        const threshold = this.def.phases.findIndex((p, i) =>
+            p.hpBelow !== undefined && !this.triggered.includes(i) && this.hp / this.maxHp < p.hpBelow);
+        if (threshold >= 0) {
+            this.triggered.push(threshold);
+            this.enter(threshold);
+        }
+
+        this.phaseTimer += dt;
+        const phase = this.phase;
+        const moved = phase.movement(this, ctx);
+
+        const target = { x: ctx.player.x + ctx.player.w / 2, y: ctx.player.y + ctx.player.h / 2 };
+        phase.attacks.forEach((attack, i) => {
+            const from = attack.from ?? { x: this.width / 2, y: this.height };
+            ctx.emit(this.weapons[i].update(dt, { x: this.x + from.x, y: this.y + from.y }, target));
+        });
+
+        if (phase.duration !== undefined ? this.phaseTimer > phase.duration : moved) this.nextPhase();
+    }
+
+    get shape(): Shape {
+        return box(this.x, this.y, this.width, this.height);
+    }
+
+    contains(x: number, y: number) {
+        return pointInRect(x, y, this.x, this.y, this.width, this.height);
+    }
+
+    private inside(boxes: { x: number; y: number; w: number; h: number }[], x: number, y: number) {
+        return boxes.some(h => pointInRect(x, y, this.x + h.x, this.y + h.y, h.w, h.h));
+    }
+
+    isVulnerableAt(x: number, y: number) {
+        return this.inside(this.phase.hitboxes, x, y);
+    }
+
+    isArmouredAt(x: number, y: number) {
+        return this.inside(this.def.hull, x, y);
+    }
+}
+
+// A vertical beam that is harmless while its telegraph line shows, then live for `duration`
+export class Laser {
+    x: number; y: number; w: number;
+    telegraph: number; duration: number;
+    t: number = 0;
+    constructor(x: number, y: number, w: number, telegraph: number, duration: number) {
+        this.x = x; this.y = y; this.w = w; this.telegraph = telegraph; this.duration = duration;
+    }
+    get active() { return this.t >= this.telegraph; }
+    // The beam runs from its muzzle to the bottom of the playfield
+    shape(height: number): Shape { return box(this.x, this.y, this.w, height - this.y); }
+    get done() { return this.t >= this.telegraph + this.duration; }
+    update(dt: number) { this.t += dt; }
+}
+
+// Part of the playfield that gets in the way, see hazards.ts
+export class Hazard {
+    x: number; y: number; w: number; h: number;
+    px: number; py: number;
+    vx: number = 0; vy: number = 0;
+    // Negative, so a piercing shot never mistakes it for an enemy or the boss
+    id: number;
+    type: HazardType;
+    def: HazardDef;
+    // Seconds since it appeared
+    t: number = 0;
+    hp: number = 0;
+    // Asteroids: 3 for the largest, one less for every split
+    size: number = 0;
+    // Laser gates: left edge of the safe gap
+    gap: number = 0;
+    dead: boolean = false;
+    constructor(id: number, def: HazardDef, x: number, y: number, w: number, h: number) {
+        this.id = id; this.def = def; this.type = def.id;
+        this.x = this.px = x; this.y = this.py = y; this.w = w; this.h = h;
+    }
+    // Harmless while its warning shows
+    get armed() { return this.t >= this.def.telegraph; }
+    get parts(): Shape[] { return this.def.parts(this); }
+    update(ctx: HazardContext) {
+        this.t += ctx.dt;
+        this.def.move(this, ctx);
+    }
+}
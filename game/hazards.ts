@@ -0,0 +1,189 @@
+import { Shape, box, circle } from './collision';
+import { Hazard } from './entities';
+import { Rng } from './rng';
+import { HazardType } from './types';
+
+// --- Hazards ---
+// The playfield fights back. Each hazard is one definition: when it turns up, how it moves, the
+// parts of it that hurt ships and stop shots, and what else it does to whatever flies nearby.
+// Hazards are not ships: they never count as kills or drop anything, but a ship that runs into
+// one takes the hit through the same damage and shield rules as enemy fire. In the procedural
+// modes they take some of the spawn slots that would otherwise bring in a ship, more of them
+// and more kinds as the waves go on; stages place them with HAZARD events.
+
+export interface HazardContext {
+    dt: number;
+    width: number;
+    height: number;
+    rng: Rng;
+    // Puts a new hazard of this type on the field with its box at (x, y)
+    spawn: (type: HazardType, x: number, y: number, w: number, h: number) => Hazard;
+}
+
+export interface HazardDef {
+    id: HazardType;
+    name: string;
+    description: string;
+    // Relative chance of taking a procedural spawn slot; 0 keeps it out of the wave
+    spawnWeight: (wave: number) => number;
+    // Seconds of warning before it can do harm or stop shots
+    telegraph: number;
+    // Hull a ship loses touching one of its parts
+    damage: number;
+    // Player shots wear its `hp` down and break it; other shots just stop against it
+    breakable?: boolean;
+    // Points for breaking it
+    score?: number;
+    // Comes apart when it hits a ship, the way a ship ramming another does
+    fragile?: boolean;
+    // Bends every shot within `radius` of its centre towards it, by up to `strength` px/s²
+    pull?: { radius: number; strength: number };
+    // Ships within `radius` of its centre have their power-ups knocked out for `seconds`
+    jam?: { radius: number; seconds: number };
+    // Brings one in, or a whole field; `x` is where across the playfield, 0 to 1
+    arrive: (x: number, ctx: HazardContext) => void;
+    move: (h: Hazard, ctx: HazardContext) => void;
+    // Outlines that hurt ships and stop shots from either side
+    parts: (h: Hazard) => Shape[];
+    onBreak?: (h: Hazard, ctx: HazardContext) => void;
+}
+
+// Procedural waves before this one are ships only
+export const HAZARD_WAVE = 2;
+
+// Share of procedural spawn slots a hazard takes instead of a ship
+export const hazardChance = (wave: number) => (wave < HAZARD_WAVE ? 0 : Math.min(0.12, 0.04 + (wave - HAZARD_WAVE) * 0.01));
+
+// Diameter and hit points by asteroid size; every split takes one off the size
+const ASTEROID_SIZES = [0, 22, 36, 56];
+const ASTEROID_HP = [0, 2, 5, 12];
+
+const GATE_THICKNESS = 12;
+export const GATE_GAP = 150;
+const GATE_SPEED = 220;
+
+const WELL_CORE = 22;
+const WELL_SPEED = 60;
+
+const STORM_RADIUS = 130;
+const STORM_SPEED = 80;
+
+const centre = (h: Hazard) => ({ x: h.x + h.w / 2, y: h.y + h.h / 2 });
+
+// Drifts with its velocity, glancing off the sides, until it has left the bottom of the playfield
+const drift = (h: Hazard, ctx: HazardContext) => {
+    h.x += h.vx * ctx.dt;
+    h.y += h.vy * ctx.dt;
+    if (h.x < 0 || h.x + h.w > ctx.width) {
+        h.x = Math.max(0, Math.min(ctx.width - h.w, h.x));
+        h.vx = -h.vx;
+    }
+    if (h.y > ctx.height + h.h) h.dead = true;
+};
+
+const asteroid = (ctx: HazardContext, x: number, y: number, size: number, vx: number, vy: number) => {
+    const d = ASTEROID_SIZES[size];
+    const h = ctx.spawn('ASTEROID', x - d / 2, y - d / 2, d, d);
+    h.size = size;
+    h.hp = ASTEROID_HP[size];
+    h.vx = vx;
+    h.vy = vy;
+    return h;
+};
+
+export const HAZARDS: Record<HazardType, HazardDef> = {
+    ASTEROID: {
+        id: 'ASTEROID', name: 'ASTEROID FIELD',
+        description: 'Rocks that block fire from both sides and break into smaller pieces when shot.',
+        spawnWeight: wave => (wave >= 2 ? 3 : 0),
+        telegraph: 0,
+        damage: 20,
+        breakable: true,
+        score: 20,
+        fragile: true,
+        arrive: (x, ctx) => {
+            const { rng, width } = ctx;
+            const count = 3 + rng.int(3);
+            for (let i = 0; i < count; i++) {
+                const cx = Math.max(40, Math.min(width - 40, x * width + rng.range(-220, 220)));
+                asteroid(ctx, cx, -60 - rng.range(0, 260), 2 + rng.int(2), rng.range(-30, 30), rng.range(80, 140));
+            }
+        },
+        move: drift,
+        parts: h => [circle(h.x + h.w / 2, h.y + h.h / 2, h.w * 0.45)],
+        // Two smaller rocks fly apart; the smallest just crumble
+        onBreak: (h, ctx) => {
+            if (h.size <= 1) return;
+            const { x, y } = centre(h);
+            for (const side of [-1, 1]) asteroid(ctx, x + side * h.w / 4, y, h.size - 1, side * ctx.rng.range(60, 120) + h.vx, h.vy * 0.8);
+        },
+    },
+    LASER_GATE: {
+        id: 'LASER_GATE', name: 'LASER GATE',
+        description: 'A beam across the whole playfield that sweeps down it; only its gap is safe.',
+        spawnWeight: wave => (wave >= 3 ? 2 : 0),
+        telegraph: 1.5,
+        damage: 25,
+        arrive: (x, ctx) => {
+            const h = ctx.spawn('LASER_GATE', 0, 0, ctx.width, GATE_THICKNESS);
+            h.gap = Math.max(0, Math.min(ctx.width - GATE_GAP, x * ctx.width - GATE_GAP / 2));
+        },
+        // Holds at the top while its warning shows
+        move: (h, ctx) => {
+            if (h.t < HAZARDS.LASER_GATE.telegraph) return;
+            h.y += GATE_SPEED * ctx.dt;
+            if (h.y > ctx.height) h.dead = true;
+        },
+        parts: h => [box(h.x, h.y, h.gap, h.h), box(h.gap + GATE_GAP, h.y, h.w - h.gap - GATE_GAP, h.h)],
+    },
+    GRAVITY_WELL: {
+        id: 'GRAVITY_WELL', name: 'GRAVITY WELL',
+        description: 'Sinks slowly down the playfield, bending shots towards its core and swallowing any that reach it.',
+        spawnWeight: wave => (wave >= 4 ? 2 : 0),
+        telegraph: 1,
+        damage: 30,
+        pull: { radius: 220, strength: 900 },
+        arrive: (x, ctx) => {
+            const d = WELL_CORE * 2;
+            const h = ctx.spawn('GRAVITY_WELL', Math.max(0, Math.min(ctx.width - d, x * ctx.width - d / 2)), ctx.height * 0.12, d, d);
+            h.vy = WELL_SPEED;
+        },
+        move: (h, ctx) => { if (h.t >= HAZARDS.GRAVITY_WELL.telegraph) drift(h, ctx); },
+        parts: h => [circle(h.x + h.w / 2, h.y + h.h / 2, WELL_CORE)],
+    },
+    EMP_STORM: {
+        id: 'EMP_STORM', name: 'EMP STORM',
+        description: 'A drifting cloud that knocks out the power-ups of any ship caught in it for a while.',
+        spawnWeight: wave => (wave >= 5 ? 1 : 0),
+        telegraph: 0,
+        damage: 0,
+        jam: { radius: STORM_RADIUS, seconds: 3 },
+        arrive: (x, ctx) => {
+            const d = STORM_RADIUS * 2;
+            const h = ctx.spawn('EMP_STORM', Math.max(0, Math.min(ctx.width - d, x * ctx.width - d / 2)), -d, d, d);
+            h.vx = ctx.rng.range(-50, 50);
+            h.vy = STORM_SPEED;
+        },
+        move: drift,
+        parts: () => [],
+    },
+};
+
+export const HAZARD_TYPES = Object.keys(HAZARDS) as HazardType[];
+
+export const getHazard = (type: HazardType) => {
+    const def = HAZARDS[type];
+    if (!def) throw new Error(`Unknown hazard type "${type}"`);
+    return def;
+};
+
+// Weighted by each hazard's spawnWeight; null when the wave has none
+export const pickHazard = (wave: number, rng: Rng): HazardDef | null => {
+    const pool = HAZARD_TYPES.map(type => ({ def: HAZARDS[type], w: Math.max(0, HAZARDS[type].spawnWeight(wave)) })).filter(p => p.w > 0);
+    let roll = rng.next() * pool.reduce((sum, p) => sum + p.w, 0);
+    for (const p of pool) {
+        roll -= p.w;
+        if (roll < 0) return p.def;
+    }
+    return pool[0]?.def ?? null;
+};
@@ -0,0 +1,246 @@
+import { InputSnapshot } from './types';
+
+// --- Input Actions ---
+// Devices never reach the game directly. Each source (keyboard, gamepad, touch, or a script)
+// reports which actions it holds and how far it pushes the ship; the manager merges them once
+// per frame into the InputSnapshot the simulation steps with.
+
+export type Action = 'MoveLeft' | 'MoveRight' | 'Fire' | 'Pause' | 'Bomb';
+
+export const ACTIONS: { id: Action; label: string }[] = [
+    { id: 'MoveLeft', label: 'MOVE LEFT' },
+    { id: 'MoveRight', label: 'MOVE RIGHT' },
+    { id: 'Fire', label: 'FIRE' },
+    { id: 'Bomb', label: 'BOMB' },
+    { id: 'Pause', label: 'PAUSE' },
+];
+
+// Keyboard codes (KeyboardEvent.code) and standard-mapping gamepad button indices per action
+export interface Bindings {
+    keyboard: Record<Action, string[]>;
+    gamepad: Record<Action, number[]>;
+}
+
+export const DEFAULT_BINDINGS: Bindings = {
+    keyboard: {
+        MoveLeft: ['ArrowLeft', 'KeyA'],
+        MoveRight: ['ArrowRight', 'KeyD'],
+        Fire: ['Space'],
+        Bomb: ['KeyB'],
+        Pause: ['KeyP', 'Escape'],
+    },
+    gamepad: {
+        MoveLeft: [14],
+        MoveRight: [15],
+        Fire: [0, 7],
+        Bomb: [1],
+        Pause: [9],
+    },
+};
+
+// Co-op splits one keyboard down the middle; player two also gets the gamepad, whose buttons
+// come from the profile. Only player one's keys pause.
+export const COOP_BINDINGS: [Bindings, Bindings] = [
+    {
+        keyboard: { MoveLeft: ['KeyA'], MoveRight: ['KeyD'], Fire: ['Space'], Bomb: ['KeyQ'], Pause: ['KeyP', 'Escape'] },
+        gamepad: DEFAULT_BINDINGS.gamepad,
+    },
+    {
+        keyboard: { MoveLeft: ['ArrowLeft'], MoveRight: ['ArrowRight'], Fire: ['Enter', 'NumpadEnter'], Bomb: ['ShiftRight'], Pause: [] },
+        gamepad: DEFAULT_BINDINGS.gamepad,
+    },
+];
+
+export const cloneBindings = (b: Bindings): Bindings => ({
+    keyboard: Object.fromEntries(ACTIONS.map(({ id }) => [id, [...b.keyboard[id]]])) as Record<Action, string[]>,
+    gamepad: Object.fromEntries(ACTIONS.map(({ id }) => [id, [...b.gamepad[id]]])) as Record<Action, number[]>,
+});
+
+// D-pad buttons, or steer by dragging a finger across the playfield
+export type TouchMode = 'DPAD' | 'DRAG';
+
+export const DEFAULT_DEADZONE = 0.2;
+
+// Button names for the standard gamepad mapping
+const GAMEPAD_BUTTONS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'BACK', 'START', 'L3', 'R3', 'UP', 'DOWN', 'LEFT', 'RIGHT', 'HOME'];
+
+export const keyLabel = (code: string) => code.replace(/^Key|^Digit/, '').replace(/^Arrow/, '').toUpperCase();
+export const buttonLabel = (index: number) => `PAD ${GAMEPAD_BUTTONS[index] ?? index}`;
+
+// --- Analog movement ---
+
+// The simulation sees movement in steps of 1/MOVE_STEPS, which keeps replays compact and exact
+export const MOVE_STEPS = 8;
+export const quantizeMove = (move: number) => Math.round(Math.max(-1, Math.min(1, move)) * MOVE_STEPS) / MOVE_STEPS;
+
+// Radial deadzone on a stick, rescaled so motion starts from zero just past the edge
+export const applyDeadzone = (x: number, y: number, deadzone: number) => {
+    const length = Math.sqrt(x * x + y * y);
+    if (length <= deadzone) return 0;
+    const scaled = Math.min(1, (length - deadzone) / (1 - deadzone));
+    return (x / length) * scaled;
+};
+
+// How far from the finger the ship still moves at full speed, in playfield pixels
+const DRAG_RANGE = 60;
+
+// --- Sources ---
+
+export interface ActionFrame {
+    held: Record<Action, boolean>;
+    // Analog push in [-1, 1]; digital MoveLeft/MoveRight are added on top
+    axis: number;
+    // Playfield x the ship should steer towards, while a finger is dragging
+    target: number | null;
+}
+
+export interface InputSource {
+    // Adds this source's contribution to the frame being assembled
+    read(frame: ActionFrame): void;
+}
+
+const emptyFrame = (): ActionFrame => ({
+    held: { MoveLeft: false, MoveRight: false, Fire: false, Pause: false, Bomb: false },
+    axis: 0,
+    target: null,
+});
+
+export class KeyboardInput implements InputSource {
+    private down = new Set<string>();
+
+    constructor(public bindings: Bindings) {}
+
+    attach(target: Window) {
+        const onDown = (e: KeyboardEvent) => { this.down.add(e.code); };
+        const onUp = (e: KeyboardEvent) => { this.down.delete(e.code); };
+        // Keys held while the window loses focus never send keyup
+        const onBlur = () => this.down.clear();
+        target.addEventListener('keydown', onDown);
+        target.addEventListener('keyup', onUp);
+        target.addEventListener('blur', onBlur);
+        return () => {
+            target.removeEventListener('keydown', onDown);
+            target.removeEventListener('keyup', onUp);
+            target.removeEventListener('blur', onBlur);
+        };
+    }
+
+    read(frame: ActionFrame) {
+        for (const { id } of ACTIONS) {
+            if (this.bindings.keyboard[id].some(code => this.down.has(code))) frame.held[id] = true;
+        }
+    }
+}
+
+// Reads the first connected pad with the standard layout; the left stick steers
+export class GamepadInput implements InputSource {
+    constructor(public bindings: Bindings, public deadzone = DEFAULT_DEADZONE) {}
+
+    static connected() {
+        const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+        return Array.from(pads).find(p => p?.connected) ?? null;
+    }
+
+    read(frame: ActionFrame) {
+        const pad = GamepadInput.connected();
+        if (!pad) return;
+        for (const { id } of ACTIONS) {
+            if (this.bindings.gamepad[id].some(i => pad.buttons[i]?.pressed)) frame.held[id] = true;
+        }
+        frame.axis += applyDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0, this.deadzone);
+    }
+}
+
+// On-screen buttons set actions directly; in drag mode a finger on the playfield steers the
+// ship towards itself and keeps the guns firing
+export class TouchInput implements InputSource {
+    mode: TouchMode = 'DPAD';
+    private held = new Set<Action>();
+    private dragX: number | null = null;
+
+    set(action: Action, down: boolean) {
+        if (down) this.held.add(action); else this.held.delete(action);
+    }
+
+    drag(x: number | null) {
+        this.dragX = x;
+    }
+
+    // Fingers lifted off an overlay that went away never send touchend
+    reset() {
+        this.held.clear();
+        this.dragX = null;
+    }
+
+    read(frame: ActionFrame) {
+        this.held.forEach(action => { frame.held[action] = true; });
+        if (this.mode === 'DRAG' && this.dragX !== null) {
+            frame.target = this.dragX;
+            frame.held.Fire = true;
+        }
+    }
+}
+
+// Scripted input for tests and tools: hold actions by hand, or queue whole frames that are
+// played back one per poll, e.g. snapshots decoded from a replay
+export class SyntheticInput implements InputSource {
+    private held = new Set<Action>();
+    axis = 0;
+    private queue: InputSnapshot[] = [];
+
+    press(action: Action) { this.held.add(action); }
+    release(action: Action) { this.held.delete(action); }
+
+    play(snapshots: InputSnapshot[]) {
+        this.queue.push(...snapshots);
+    }
+
+    get pending() {
+        return this.queue.length;
+    }
+
+    read(frame: ActionFrame) {
+        this.held.forEach(action => { frame.held[action] = true; });
+        frame.axis += this.axis;
+        const next = this.queue.shift();
+        if (!next) return;
+        frame.axis += next.move;
+        if (next.fire) frame.held.Fire = true;
+        if (next.bomb) frame.held.Bomb = true;
+    }
+}
+
+// --- Manager ---
+
+export class InputManager {
+    frame: ActionFrame = emptyFrame();
+    private previous: ActionFrame = emptyFrame();
+
+    constructor(public sources: InputSource[]) {}
+
+    // Call once per displayed frame, before any ticks are stepped
+    poll() {
+        this.previous = this.frame;
+        const frame = emptyFrame();
+        for (const source of this.sources) source.read(frame);
+        this.frame = frame;
+        return frame;
+    }
+
+    held(action: Action) {
+        return this.frame.held[action];
+    }
+
+    // True only on the poll where the action went down
+    pressed(action: Action) {
+        return this.frame.held[action] && !this.previous.held[action];
+    }
+
+    // `ship` is needed to turn a drag target into a push; without it dragging is ignored
+    snapshot(ship?: { x: number; w: number }): InputSnapshot {
+        const { held, target } = this.frame;
+        let move = this.frame.axis + (held.MoveRight ? 1 : 0) - (held.MoveLeft ? 1 : 0);
+        if (target !== null && ship) move += (target - (ship.x + ship.w / 2)) / DRAG_RANGE;
+        return { move: quantizeMove(move), fire: held.Fire, bomb: held.Bomb };
+    }
+}
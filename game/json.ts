@@ -0,0 +1,13 @@
+// --- Untrusted JSON ---
+// Anything read back from storage or from a file the player picked is untrusted, so its parsers
+// take `unknown` and narrow it field by field with these.
+
+export type JsonObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Anything that is not an object reads as an empty one, so every field falls back to its default
+export const asObject = (value: unknown): JsonObject => (isObject(value) ? value : {});
+
+export const isOneOf = <T>(value: unknown, options: readonly T[]): value is T => options.includes(value as T);
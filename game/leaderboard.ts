@@ -0,0 +1,95 @@
+import { isObject, isOneOf } from './json';
+import { dailySeed } from './rng';
+import { GameSimulation, cloneUpgrades } from './simulation';
+import { StorageBackend } from './storage';
+import { DIFFICULTY_PRESET_IDS } from './difficulty';
+import { DifficultyPreset, GameMode, Upgrades } from './types';
+
+// --- Local Leaderboard ---
+// Finished runs signed with the player's initials. Far more runs are kept than are shown so the
+// weekly and daily views still have entries after the all-time table fills up.
+
+export const LEADERBOARD_KEY = 'galaxy-defender-leaderboard';
+export const LEADERBOARD_VERSION = 1;
+export const LEADERBOARD_SIZE = 10;
+const MAX_STORED_PER_MODE = 200;
+
+export type LeaderboardFilter = 'ALL' | 'WEEK' | 'DAILY';
+
+export interface LeaderboardEntry {
+    initials: string;
+    mode: GameMode;
+    seed: number;
+    score: number;
+    difficulty: DifficultyPreset;
+    wavesCleared: number;
+    accuracy: number;
+    // Seconds of play
+    duration: number;
+    upgrades: Upgrades;
+    // ISO timestamp of when the run ended
+    date: string;
+}
+
+export const cleanInitials = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+
+export const entryFromRun = (sim: GameSimulation, initials: string, date = new Date()): LeaderboardEntry => ({
+    initials: cleanInitials(initials) || '???',
+    mode: sim.run.mode,
+    seed: sim.run.seed,
+    score: sim.score,
+    difficulty: sim.run.difficulty.preset,
+    wavesCleared: sim.wave - 1,
+    accuracy: sim.accuracy,
+    duration: Math.round(sim.elapsed),
+    upgrades: cloneUpgrades(sim.upgrades),
+    date: date.toISOString(),
+});
+
+const isEntry = (e: unknown): e is LeaderboardEntry =>
+    isObject(e) && typeof e.initials === 'string' && isOneOf(e.mode, ['ENDLESS', 'DAILY', 'COOP', 'CAMPAIGN']) &&
+    ['seed', 'score', 'wavesCleared', 'accuracy', 'duration'].every(k => typeof e[k] === 'number') &&
+    isObject(e.upgrades) && typeof e.date === 'string' && !Number.isNaN(Date.parse(e.date));
+
+// Unreadable boards start over empty; individual bad rows are dropped
+export const loadLeaderboard = (storage: StorageBackend): LeaderboardEntry[] => {
+    try {
+        const data: unknown = JSON.parse(storage.read(LEADERBOARD_KEY) ?? 'null');
+        if (!isObject(data) || data.version !== LEADERBOARD_VERSION || !Array.isArray(data.entries)) return [];
+        const entries: unknown[] = data.entries;
+        // Entries from before difficulty presets were all played on the standard rules
+        return entries.filter(isEntry).map(e => (DIFFICULTY_PRESET_IDS.includes(e.difficulty) ? e : { ...e, difficulty: 'NORMAL' }));
+    } catch {
+        return [];
+    }
+};
+
+export const saveLeaderboard = (storage: StorageBackend, entries: LeaderboardEntry[]) => {
+    storage.write(LEADERBOARD_KEY, JSON.stringify({ version: LEADERBOARD_VERSION, entries }));
+};
+
+const byScore = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.date.localeCompare(b.date);
+
+export const addEntry = (entries: LeaderboardEntry[], entry: LeaderboardEntry) => {
+    const same = [...entries.filter(e => e.mode === entry.mode), entry].sort(byScore).slice(0, MAX_STORED_PER_MODE);
+    return [...entries.filter(e => e.mode !== entry.mode), ...same];
+};
+
+// Weeks start on Monday, in UTC like the daily challenge
+export const weekStart = (now = new Date()) => {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    return start;
+};
+
+export const topEntries = (entries: LeaderboardEntry[], mode: GameMode, filter: LeaderboardFilter, now = new Date()) => {
+    const since = weekStart(now).getTime();
+    const seed = dailySeed(now);
+    return entries
+        .filter(e => e.mode === mode)
+        .filter(e => filter === 'ALL'
+            || (filter === 'WEEK' && Date.parse(e.date) >= since)
+            || (filter === 'DAILY' && e.seed === seed))
+        .sort(byScore)
+        .slice(0, LEADERBOARD_SIZE);
+};
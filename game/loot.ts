@@ -0,0 +1,42 @@
+import { LootKind } from './entities';
+import { Upgrades } from './types';
+
+// --- Loot ---
+// Kills pay out in coins and crystals that burst from the wreck and fall down the screen; only
+// what a ship flies close enough to collect reaches the bank. Anything within a ship's
+// collection radius is drawn in, and TRACTOR BEAM widens that radius. At the end of a wave the
+// rest is either swept up automatically or, with auto-collect off, the wave waits until every
+// piece has been picked up or lost off the bottom.
+
+export const COIN_VALUE = 5;
+export const CRYSTAL_VALUE = 25;
+// Chance of a bonus crystal on top of any kill's payout
+export const CRYSTAL_CHANCE = 0.04;
+
+// Pieces one regular kill scatters at most; bigger payouts make bigger coins instead
+export const ENEMY_PIECES = 6;
+export const BOSS_PIECES = 16;
+
+export const BASE_COLLECT_RADIUS = 48;
+// Extra radius per TRACTOR BEAM level
+export const TRACTOR_RADIUS = 32;
+// Loot inside the radius flies to the ship at this speed
+export const PULL_SPEED = 720;
+
+export const collectRadius = (upgrades: Upgrades) => BASE_COLLECT_RADIUS + (upgrades.tech.TRACTOR ?? 0) * TRACTOR_RADIUS;
+
+// Splits a payout into pieces: crystals first, then the rest as coins, the odd change going on
+// the first coin
+export const splitLoot = (value: number, maxPieces: number): { kind: LootKind; value: number }[] => {
+    const pieces: { kind: LootKind; value: number }[] = [];
+    let left = Math.round(value);
+    while (left >= CRYSTAL_VALUE && pieces.length < maxPieces - 1) {
+        pieces.push({ kind: 'CRYSTAL', value: CRYSTAL_VALUE });
+        left -= CRYSTAL_VALUE;
+    }
+    if (left <= 0) return pieces;
+    const coins = Math.max(1, Math.min(maxPieces - pieces.length, Math.floor(left / COIN_VALUE)));
+    const each = Math.floor(left / coins);
+    for (let i = 0; i < coins; i++) pieces.push({ kind: 'COIN', value: each + (i === 0 ? left - each * coins : 0) });
+    return pieces;
+};
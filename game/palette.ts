@@ -0,0 +1,94 @@
+import type { LootKind } from './entities';
+import { HazardType, PowerUpType } from './types';
+
+// --- Palettes ---
+// Every colour that carries gameplay meaning comes from the active palette. The neon default
+// leans on red versus magenta, which two of the alternatives avoid; bullets and power-ups are
+// also told apart by shape, so no palette has to carry the whole load.
+
+export type PaletteId = 'NEON' | 'RED_GREEN' | 'BLUE_YELLOW';
+
+export interface Palette {
+    id: PaletteId;
+    label: string;
+    // Ship outline and shot colour per player, player one first
+    players: string[];
+    // Player shots while rapid fire is running
+    rapidBolt: string;
+    enemyBullet: string;
+    // Beams, charge telegraphs and exposed weak points
+    danger: string;
+    // Boss hulls and other hostile accents
+    accent: string;
+    good: string;
+    warning: string;
+    powerups: Record<PowerUpType, string>;
+    loot: Record<LootKind, string>;
+    hazards: Record<HazardType, string>;
+    // Enemy outline for an archetype's hue
+    enemy: (hue: number) => string;
+}
+
+// Sorts hues into a few bands of safe colours: [upper hue bound, colour] pairs in order
+const hueBands = (bands: [number, string][]) => (hue: number) => (bands.find(([max]) => hue < max) ?? bands[0])[1];
+
+export const PALETTES: Record<PaletteId, Palette> = {
+    NEON: {
+        id: 'NEON',
+        label: 'NEON',
+        players: ['#00f2ff', '#a0ff3c'],
+        rapidBolt: '#ff00ea',
+        enemyBullet: '#ff0044',
+        danger: '#ff0044',
+        accent: '#ff00ea',
+        good: '#00ffaa',
+        warning: '#ffea00',
+        powerups: {
+            RAPID_FIRE: '#ff00ea', SHIELD: '#ffea00', TRIPLE_SHOT: '#00f2ff', HEAL: '#00ff00',
+            MAGNET: '#ff8800', TIME_SLOW: '#8a7dff', DRONE: '#ffffff', BOMB_CHARGE: '#ff8800', SCORE_DOUBLER: '#00ffaa',
+        },
+        loot: { COIN: '#ffd000', CRYSTAL: '#00f2ff' },
+        hazards: { ASTEROID: '#a8a8a8', LASER_GATE: '#ff0044', GRAVITY_WELL: '#b000ff', EMP_STORM: '#3c8cff' },
+        enemy: hue => `hsl(${hue}, 100%, 50%)`,
+    },
+    // Deuteranopia and protanopia: blues against oranges, nothing that hinges on red or green
+    RED_GREEN: {
+        id: 'RED_GREEN',
+        label: 'RED-GREEN SAFE',
+        players: ['#56b4e9', '#f0e442'],
+        rapidBolt: '#ffffff',
+        enemyBullet: '#ff9500',
+        danger: '#ff9500',
+        accent: '#cc79a7',
+        good: '#56b4e9',
+        warning: '#f0e442',
+        powerups: {
+            RAPID_FIRE: '#ffffff', SHIELD: '#f0e442', TRIPLE_SHOT: '#56b4e9', HEAL: '#cc79a7',
+            MAGNET: '#e69f00', TIME_SLOW: '#cc79a7', DRONE: '#ffffff', BOMB_CHARGE: '#e69f00', SCORE_DOUBLER: '#f0e442',
+        },
+        loot: { COIN: '#f0e442', CRYSTAL: '#56b4e9' },
+        hazards: { ASTEROID: '#bbbbbb', LASER_GATE: '#ff9500', GRAVITY_WELL: '#cc79a7', EMP_STORM: '#0072b2' },
+        enemy: hueBands([[75, '#e69f00'], [195, '#56b4e9'], [285, '#cc79a7'], [360, '#e69f00']]),
+    },
+    // Tritanopia: reds against cyans, nothing that hinges on blue or yellow
+    BLUE_YELLOW: {
+        id: 'BLUE_YELLOW',
+        label: 'BLUE-YELLOW SAFE',
+        players: ['#3df2ff', '#ffffff'],
+        rapidBolt: '#ff8fb1',
+        enemyBullet: '#ff2a2a',
+        danger: '#ff2a2a',
+        accent: '#ff8fb1',
+        good: '#3df2ff',
+        warning: '#ffffff',
+        powerups: {
+            RAPID_FIRE: '#ff8fb1', SHIELD: '#ffffff', TRIPLE_SHOT: '#3df2ff', HEAL: '#ff2a2a',
+            MAGNET: '#ff8fb1', TIME_SLOW: '#3df2ff', DRONE: '#ffffff', BOMB_CHARGE: '#ff2a2a', SCORE_DOUBLER: '#3df2ff',
+        },
+        loot: { COIN: '#ffffff', CRYSTAL: '#3df2ff' },
+        hazards: { ASTEROID: '#bbbbbb', LASER_GATE: '#ff2a2a', GRAVITY_WELL: '#ff8fb1', EMP_STORM: '#9fe8ff' },
+        enemy: hueBands([[30, '#ff2a2a'], [150, '#ff8fb1'], [260, '#3df2ff'], [330, '#ffffff'], [360, '#ff2a2a']]),
+    },
+};
+
+export const getPalette = (id: PaletteId) => PALETTES[id] ?? PALETTES.NEON;
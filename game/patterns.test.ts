@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BulletSpec, Pattern, PatternRunner, Vec, accelerating, aimed, burst, curved, emitBetween, every, fan, once, registerPattern, ring, spiral, straight,
+} from './patterns';
+
+const ORIGIN: Vec = { x: 0, y: 0 };
+const BELOW: Vec = { x: 0, y: 100 };
+
+// Velocities rounded off, so angles worked out by hand compare cleanly; `+ 0` turns -0 into 0
+const velocities = (specs: BulletSpec[]) => specs.map(s => [s.vx, s.vy].map(v => Math.round(v * 1000) / 1000 + 0));
+
+const volley = (pattern: Pattern, at = 0, target = BELOW) => emitBetween(pattern, at, at + 0.001, ORIGIN, target);
+
+const D = Math.round(Math.SQRT1_2 * 100 * 1000) / 1000;
+
+describe('volleys', () => {
+    it('aimed shoots straight at the target', () => {
+        expect(velocities(volley(once(aimed(100)), 0, { x: 30, y: 40 }))).toEqual([[60, 80]]);
+    });
+
+    it('fan spreads evenly across the arc around the target', () => {
+        expect(velocities(volley(once(fan(3, Math.PI / 2, 100))))).toEqual([[D, D], [0, 100], [-D, D]]);
+    });
+
+    it('fan of one shoots at the target', () => {
+        expect(velocities(volley(once(fan(1, 1, 100))))).toEqual([[0, 100]]);
+    });
+
+    it('ring covers the full circle and offsets every other volley by half a step', () => {
+        const specs = emitBetween(every(1, ring(4, 100)), 0, 2, ORIGIN, BELOW);
+        expect(velocities(specs.slice(0, 4))).toEqual([[100, 0], [0, 100], [-100, 0], [0, -100]]);
+        expect(velocities(specs.slice(4))).toEqual([[D, D], [-D, D], [-D, -D], [D, -D]]);
+    });
+
+    it('spiral turns with time and adds its drift to every arm', () => {
+        const pattern = every(1, spiral(100, Math.PI / 2, 20, 2));
+        expect(velocities(volley(pattern, 0))).toEqual([[100, 20], [-100, 20]]);
+        expect(velocities(volley(pattern, 1))).toEqual([[0, 120], [0, -80]]);
+    });
+
+    it('every spec starts at the origin', () => {
+        const origin = { x: 12, y: 34 };
+        for (const s of emitBetween(once(ring(6, 100)), 0, 1, origin, BELOW)) expect([s.x, s.y]).toEqual([12, 34]);
+    });
+});
+
+describe('modifiers', () => {
+    it('curved adds a wobble and leaves the velocity alone', () => {
+        const [s] = volley(once(curved(straight(0, 200), 30, 2)));
+        expect(velocities([s])).toEqual([[200, 0]]);
+        expect(s.motion).toEqual({ curve: { amplitude: 30, frequency: 2 } });
+    });
+
+    it('accelerating launches at its start speed along the same heading', () => {
+        const [s] = volley(once(accelerating(aimed(300), 50, 0.5, 400, 600)), 0, { x: 30, y: 40 });
+        expect(velocities([s])).toEqual([[30, 40]]);
+        expect(s.motion).toEqual({ delay: 0.5, accel: 400, maxSpeed: 600 });
+    });
+
+    it('modifiers stack without losing each other', () => {
+        const [s] = volley(once(curved(accelerating(straight(Math.PI / 2, 300), 100, 1, 200, 400), 10, 3)));
+        expect(velocities([s])).toEqual([[0, 100]]);
+        expect(s.motion).toEqual({ delay: 1, accel: 200, maxSpeed: 400, curve: { amplitude: 10, frequency: 3 } });
+    });
+});
+
+describe('emitBetween', () => {
+    it('includes the start of the window and leaves out the end', () => {
+        const pattern = every(1, straight(0, 100));
+        expect(emitBetween(pattern, 0, 1, ORIGIN, BELOW)).toHaveLength(1);
+        expect(emitBetween(pattern, 0, 3, ORIGIN, BELOW)).toHaveLength(3);
+        expect(emitBetween(pattern, 0.5, 1.5, ORIGIN, BELOW)).toHaveLength(1);
+    });
+
+    it('plays a one-off pattern only once', () => {
+        expect(emitBetween(burst(straight(0, 100), 3, 0.2), 0, 10, ORIGIN, BELOW)).toHaveLength(3);
+    });
+});
+
+describe('PatternRunner', () => {
+    const DT = 1 / 60;
+
+    it('holds the first volley for its delay', () => {
+        const runner = new PatternRunner(once(aimed(100)), 0.5);
+        let fired = 0;
+        let firstAt = -1;
+        for (let i = 0; i < 60; i++) {
+            const specs = runner.update(DT, ORIGIN, BELOW);
+            if (specs.length && firstAt < 0) firstAt = i;
+            fired += specs.length;
+        }
+        expect(fired).toBe(1);
+        expect(firstAt).toBe(30);
+    });
+
+    it('repeats every period and is never done', () => {
+        const runner = new PatternRunner(every(1, aimed(100)));
+        let fired = 0;
+        for (let i = 0; i < 170; i++) fired += runner.update(DT, ORIGIN, BELOW).length;
+        expect(fired).toBe(3);
+        expect(runner.done).toBe(false);
+    });
+
+    it('is done once a one-off pattern has played every step', () => {
+        const runner = new PatternRunner(burst(aimed(100), 2, 0.5));
+        expect(runner.done).toBe(false);
+        runner.update(0.25, ORIGIN, BELOW);
+        expect(runner.done).toBe(false);
+        runner.update(0.5, ORIGIN, BELOW);
+        expect(runner.done).toBe(true);
+        expect(runner.update(1, ORIGIN, BELOW)).toEqual([]);
+    });
+
+    it('aims at wherever the target is on the tick it fires', () => {
+        const runner = new PatternRunner(every(1, aimed(100)));
+        expect(velocities(runner.update(DT, ORIGIN, { x: 100, y: 0 }))).toEqual([[100, 0]]);
+    });
+
+    it('starts registered patterns by name', () => {
+        registerPattern('test-ring', every(1, ring(8, 100)));
+        const runner = new PatternRunner('test-ring');
+        expect(runner.name).toBe('test-ring');
+        expect(runner.update(DT, ORIGIN, BELOW)).toHaveLength(8);
+        expect(() => new PatternRunner('no-such-pattern')).toThrow('Unknown bullet pattern "no-such-pattern"');
+    });
+});
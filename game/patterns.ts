@@ -0,0 +1,179 @@
+// --- Bullet Patterns ---
+// A volley turns an origin and a target into a list of bullet specs; a pattern schedules volleys
+// over time and may repeat. Both are plain data and pure functions, so a pattern can be checked
+// on its own by looking at the specs it emits, without a simulation around it.
+
+export interface Vec { x: number; y: number; }
+
+export interface BeamSpec {
+    width: number;
+    // Seconds of harmless warning line before the beam goes live
+    telegraph: number;
+    duration: number;
+}
+
+// Extra steering applied by the projectile on top of its straight-line velocity
+export interface BulletMotion {
+    // Sideways wobble across the direction of travel
+    curve?: { amplitude: number; frequency: number };
+    // Seconds at launch speed before accelerating along the heading up to maxSpeed
+    delay?: number;
+    accel?: number;
+    maxSpeed?: number;
+}
+
+export interface BulletSpec {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    motion?: BulletMotion;
+    // Turns the shot into a vertical beam dropped from (x, y) instead of a bullet
+    beam?: BeamSpec;
+}
+
+export interface VolleyArgs {
+    origin: Vec;
+    target: Vec;
+    // Seconds since the runner started, for patterns that rotate over time
+    time: number;
+    // How many times the pattern has looped so far
+    volley: number;
+}
+
+export type Volley = (args: VolleyArgs) => BulletSpec[];
+
+export interface Pattern {
+    steps: { at: number; volley: Volley }[];
+    // Seconds before the pattern starts over; 0 plays it once
+    period: number;
+}
+
+// --- Volleys ---
+
+const shot = (o: Vec, angle: number, speed: number): BulletSpec =>
+    ({ x: o.x, y: o.y, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed });
+
+const angleTo = (o: Vec, t: Vec) => Math.atan2(t.y - o.y, t.x - o.x);
+
+// Fixed direction in radians, 0 pointing right and PI / 2 straight down
+export const straight = (angle: number, speed: number): Volley => ({ origin }) => [shot(origin, angle, speed)];
+
+export const aimed = (speed: number): Volley => ({ origin, target }) => [shot(origin, angleTo(origin, target), speed)];
+
+// `count` bullets fanned over `arc` radians around the direction of the target
+export const fan = (count: number, arc: number, speed: number): Volley => ({ origin, target }) => {
+    const base = angleTo(origin, target);
+    return Array.from({ length: count }, (_, i) =>
+        shot(origin, base - arc / 2 + (count > 1 ? (arc * i) / (count - 1) : arc / 2), speed));
+};
+
+// Evenly spaced full circle; every other volley is offset by half a step
+export const ring = (count: number, speed: number): Volley => ({ origin, volley }) => {
+    const offset = (volley % 2) * (Math.PI / count);
+    return Array.from({ length: count }, (_, i) => shot(origin, offset + (Math.PI * 2 * i) / count, speed));
+};
+
+// `arms` bullets rotating `spin` radians per second, with an extra downward drift
+export const spiral = (speed: number, spin: number, drift = 0, arms = 1): Volley => ({ origin, time }) =>
+    Array.from({ length: arms }, (_, i) => {
+        const s = shot(origin, time * spin + (Math.PI * 2 * i) / arms, speed);
+        return { ...s, vy: s.vy + drift };
+    });
+
+// Vertical beam under the target
+export const beam = (spec: BeamSpec): Volley => ({ origin, target }) =>
+    [{ x: target.x, y: origin.y, vx: 0, vy: 0, beam: spec }];
+
+// --- Modifiers ---
+
+export const curved = (volley: Volley, amplitude: number, frequency: number): Volley => args =>
+    volley(args).map(s => ({ ...s, motion: { ...s.motion, curve: { amplitude, frequency } } }));
+
+// Launches at `startSpeed`, hangs for `delay` seconds, then speeds up along the same heading
+export const accelerating = (volley: Volley, startSpeed: number, delay: number, accel: number, maxSpeed: number): Volley => args =>
+    volley(args).map(s => {
+        const speed = Math.sqrt(s.vx * s.vx + s.vy * s.vy) || 1;
+        const k = startSpeed / speed;
+        return { ...s, vx: s.vx * k, vy: s.vy * k, motion: { ...s.motion, delay, accel, maxSpeed } };
+    });
+
+// --- Sequencing ---
+
+export const every = (period: number, volley: Volley): Pattern => ({ steps: [{ at: 0, volley }], period });
+
+export const once = (volley: Volley): Pattern => every(0, volley);
+
+// `rounds` volleys `gap` seconds apart, starting over after `period`
+export const burst = (volley: Volley, rounds: number, gap: number, period = 0): Pattern => ({
+    steps: Array.from({ length: rounds }, (_, i) => ({ at: i * gap, volley })),
+    period,
+});
+
+// Explicitly timed steps, e.g. sequence(3, [0, ring(12, 200)], [1.5, fan(5, 0.8, 300)])
+export const sequence = (period: number, ...steps: [number, Volley][]): Pattern => ({
+    steps: steps.map(([at, volley]) => ({ at, volley })),
+    period,
+});
+
+// Plays several patterns over each other on the longest period
+export const combine = (...patterns: Pattern[]): Pattern => ({
+    steps: patterns.flatMap(p => p.steps).sort((a, b) => a.at - b.at),
+    period: Math.max(...patterns.map(p => p.period)),
+});
+
+// Every spec the pattern emits in the window [from, to) seconds after it starts
+export const emitBetween = (pattern: Pattern, from: number, to: number, origin: Vec, target: Vec): BulletSpec[] => {
+    const out: BulletSpec[] = [];
+    const { steps, period } = pattern;
+    const lastCycle = period > 0 ? Math.floor(to / period) : 0;
+    for (let cycle = period > 0 ? Math.max(0, Math.floor(from / period)) : 0; cycle <= lastCycle; cycle++) {
+        for (const step of steps) {
+            const at = cycle * period + step.at;
+            if (at >= from && at < to) out.push(...step.volley({ origin, target, time: at, volley: cycle }));
+        }
+    }
+    return out;
+};
+
+// --- Registry ---
+
+export const PATTERNS: Record<string, Pattern> = {};
+
+export const registerPattern = (name: string, pattern: Pattern) => {
+    PATTERNS[name] = pattern;
+    return pattern;
+};
+
+export const getPattern = (name: string) => {
+    const pattern = PATTERNS[name];
+    if (!pattern) throw new Error(`Unknown bullet pattern "${name}"`);
+    return pattern;
+};
+
+// Plays a pattern against a moving origin and target, one step length at a time
+export class PatternRunner {
+    readonly pattern: Pattern;
+    // Registered name of the pattern, when it was started by name
+    readonly name: string | null;
+    time: number;
+
+    // `delay` seconds pass before the first volley
+    constructor(pattern: Pattern | string, delay = 0) {
+        this.pattern = typeof pattern === 'string' ? getPattern(pattern) : pattern;
+        this.name = typeof pattern === 'string' ? pattern : null;
+        this.time = -delay;
+    }
+
+    get done() {
+        const { steps, period } = this.pattern;
+        return period <= 0 && steps.every(s => s.at < this.time);
+    }
+
+    update(dt: number, origin: Vec, target: Vec) {
+        const from = this.time;
+        this.time += dt;
+        if (this.time <= 0) return [];
+        return emitBetween(this.pattern, Math.max(0, from), this.time, origin, target);
+    }
+}
@@ -0,0 +1,47 @@
+// --- Object Pools ---
+// Bullets, particles and ships come and go by the hundred every second. Dead instances are
+// parked here and handed out again instead of being left to the garbage collector, which
+// kept stalling frames on slower machines during boss fights.
+
+export class Pool<T> {
+    private free: T[] = [];
+    // Instances ever constructed; stays flat once the pool has warmed up
+    created = 0;
+    // Turning this off makes every acquire construct, for comparison in the benchmark
+    enabled = true;
+
+    constructor(private create: () => T) {}
+
+    get available() {
+        return this.free.length;
+    }
+
+    // The caller resets the instance; whatever it held last time is still there
+    acquire(): T {
+        const item = this.enabled ? this.free.pop() : undefined;
+        if (item !== undefined) return item;
+        this.created++;
+        return this.create();
+    }
+
+    release(item: T) {
+        if (this.enabled) this.free.push(item);
+    }
+
+    releaseAll(items: T[]) {
+        for (const item of items) this.release(item);
+        items.length = 0;
+    }
+}
+
+// Drops every item matching `isDead` from `list` in one pass, keeping the order of the rest.
+// Replaces per-item splice(), which shifts the whole tail each time.
+export const sweep = <T>(list: T[], isDead: (item: T) => boolean, pool?: Pool<T>) => {
+    let kept = 0;
+    for (let i = 0; i < list.length; i++) {
+        const item = list[i];
+        if (isDead(item)) pool?.release(item);
+        else list[kept++] = item;
+    }
+    list.length = kept;
+};
@@ -0,0 +1,184 @@
+import { ActiveEffect, Player } from './entities';
+import { Rng } from './rng';
+import { ConsumableId, PowerUpType, Upgrades } from './types';
+
+// --- Power-ups ---
+// Each power-up is one definition: what happens on pickup, what it does every tick while it
+// runs and what happens when it runs out. Instant ones have no duration and only act on pickup.
+// Timed ones live on the ship that collected them, in `player.effects`, and their stacking rule
+// says what a second pickup does while the first is still running.
+
+export type Stacking =
+    // Back to the full duration
+    | 'REFRESH'
+    // The duration is added on top, up to `limit` seconds
+    | 'EXTEND'
+    // One more copy, up to `limit`, and back to the full duration
+    | 'STACK';
+
+export interface PowerUpContext {
+    dt: number;
+    upgrades: Upgrades;
+    heal: (player: Player, amount: number) => void;
+    // One more of a supply, up to what the shop would sell
+    supply: (id: ConsumableId) => void;
+    // Draws loose pick-ups within `radius` of the ship towards it
+    attract: (player: Player, radius: number, speed: number) => void;
+    // A bolt fired straight up from (x, y), credited to the ship
+    shoot: (player: Player, x: number, y: number) => void;
+    spark: (x: number, y: number, color: string) => void;
+}
+
+export interface PowerUpDef {
+    id: PowerUpType;
+    name: string;
+    // Glyph on the HUD timer
+    short: string;
+    description: string;
+    // Seconds before OVERCLOCK; 0 for instant power-ups
+    duration: number;
+    // Timed power-ups only; REFRESH when left out
+    stacking?: Stacking;
+    // Most seconds for EXTEND, most copies for STACK
+    limit?: number;
+    onPickup?: (player: Player, ctx: PowerUpContext) => void;
+    onTick?: (player: Player, effect: ActiveEffect, ctx: PowerUpContext) => void;
+    onExpire?: (player: Player, effect: ActiveEffect, ctx: PowerUpContext) => void;
+}
+
+// Every OVERCLOCK level adds this many seconds to timed power-ups
+export const OVERCLOCK_SECONDS = 2;
+
+// Enemies and their fire move at this fraction of their speed while TIME_SLOW runs
+export const TIME_SLOW_SCALE = 0.5;
+
+const MAGNET_RADIUS = 260;
+const MAGNET_SPEED = 540;
+
+// Drones fly either side of the ship and fire on their own
+const DRONE_INTERVAL = 0.3;
+export const DRONE_OFFSET = 34;
+export const MAX_DRONES = 2;
+
+// Same as the most of any supply the shop sells for a run
+export const MAX_SUPPLIES = 3;
+
+export const POWERUPS: Record<PowerUpType, PowerUpDef> = {
+    RAPID_FIRE: {
+        id: 'RAPID_FIRE', name: 'RAPID FIRE', short: 'R',
+        description: 'Fires three times as fast and charges twice as quickly.',
+        duration: 10, stacking: 'REFRESH',
+    },
+    SHIELD: {
+        id: 'SHIELD', name: 'SHIELD', short: 'S',
+        description: 'Soaks the next hit.',
+        duration: 10, stacking: 'REFRESH',
+    },
+    TRIPLE_SHOT: {
+        id: 'TRIPLE_SHOT', name: 'TRIPLE SHOT', short: 'T',
+        description: 'Every weapon fires wider volleys.',
+        duration: 10, stacking: 'REFRESH',
+    },
+    HEAL: {
+        id: 'HEAL', name: 'REPAIR', short: '+',
+        description: 'Restores 30 hull.',
+        duration: 0,
+        onPickup: (player, ctx) => ctx.heal(player, 30),
+    },
+    MAGNET: {
+        id: 'MAGNET', name: 'MAGNET', short: 'M',
+        description: 'Pulls nearby pick-ups in.',
+        duration: 12, stacking: 'EXTEND', limit: 30,
+        onTick: (player, _, ctx) => ctx.attract(player, MAGNET_RADIUS, MAGNET_SPEED),
+    },
+    TIME_SLOW: {
+        id: 'TIME_SLOW', name: 'TIME SLOW', short: 'Z',
+        description: 'Enemies and their fire move at half speed.',
+        duration: 6, stacking: 'EXTEND', limit: 12,
+    },
+    DRONE: {
+        id: 'DRONE', name: 'DRONE', short: 'D',
+        description: `A wingman that fires alongside you; up to ${MAX_DRONES} at once.`,
+        duration: 15, stacking: 'STACK', limit: MAX_DRONES,
+        onTick: (player, effect, ctx) => {
+            effect.timer -= ctx.dt;
+            if (effect.timer > 0) return;
+            effect.timer += DRONE_INTERVAL;
+            dronePositions(player, effect.stacks).forEach(p => ctx.shoot(player, p.x, p.y));
+        },
+        // The wingmen break away in a shower of sparks
+        onExpire: (player, effect, ctx) => {
+            for (const p of dronePositions(player, effect.stacks)) {
+                for (let k = 0; k < 6; k++) ctx.spark(p.x, p.y, '#ffffff');
+            }
+        },
+    },
+    BOMB_CHARGE: {
+        id: 'BOMB_CHARGE', name: 'BOMB CHARGE', short: 'B',
+        description: 'One more smart bomb.',
+        duration: 0,
+        onPickup: (_, ctx) => ctx.supply('SMART_BOMB'),
+    },
+    SCORE_DOUBLER: {
+        id: 'SCORE_DOUBLER', name: 'SCORE x2', short: '2',
+        description: 'Kills and grazes score double.',
+        duration: 10, stacking: 'EXTEND', limit: 20,
+    },
+};
+
+export const POWERUP_TYPES = Object.keys(POWERUPS) as PowerUpType[];
+
+// Whether the effect is running and doing its job; an EMP storm's jamming holds them all
+export const hasEffect = (player: Player, type: PowerUpType) => player.jammed <= 0 && (player.effects[type]?.time ?? 0) > 0;
+
+// Seconds a timed power-up lasts for this loadout
+export const effectDuration = (def: PowerUpDef, upgrades: Upgrades) =>
+    def.duration + (upgrades.tech.OVERCLOCK ?? 0) * OVERCLOCK_SECONDS;
+
+// Starts or stacks a timed power-up; the result is the running effect
+export const applyEffect = (player: Player, def: PowerUpDef, upgrades: Upgrades): ActiveEffect => {
+    const full = effectDuration(def, upgrades);
+    const effect = player.effects[def.id];
+    if (!effect) return (player.effects[def.id] = { time: full, duration: full, stacks: 1, timer: 0 });
+    if (def.stacking === 'EXTEND') {
+        effect.time = Math.min(def.limit ?? full, effect.time + full);
+    } else {
+        if (def.stacking === 'STACK') effect.stacks = Math.min(def.limit ?? 1, effect.stacks + 1);
+        effect.time = Math.max(effect.time, full);
+    }
+    // The HUD timer is measured against the longest the effect has had left
+    effect.duration = Math.max(effect.time, full);
+    return effect;
+};
+
+// Drone centres for a ship at `ship`, one either side, left first
+export const dronePositions = (ship: Pick<Player, 'x' | 'y' | 'w' | 'h'>, count: number) =>
+    [-1, 1].slice(0, count).map(side => ({
+        x: ship.x + ship.w / 2 + side * DRONE_OFFSET,
+        y: ship.y + ship.h * 0.6,
+    }));
+
+// --- Drops ---
+
+// What a destroyed ship may leave behind: the chance of a drop, then relative weights
+export interface DropTable {
+    chance: number;
+    weights: Partial<Record<PowerUpType, number>>;
+}
+
+export const DEFAULT_DROPS: DropTable = {
+    chance: 0.18,
+    weights: { RAPID_FIRE: 6, SHIELD: 6, TRIPLE_SHOT: 6, HEAL: 6, MAGNET: 2, TIME_SLOW: 1, DRONE: 1, BOMB_CHARGE: 1, SCORE_DOUBLER: 1 },
+};
+
+// Always one roll for the chance, and a second only when something drops
+export const rollDrop = (table: DropTable, rng: Rng): PowerUpType | null => {
+    if (rng.next() >= table.chance) return null;
+    const entries = POWERUP_TYPES.map(type => ({ type, w: table.weights[type] ?? 0 })).filter(e => e.w > 0);
+    let roll = rng.next() * entries.reduce((sum, e) => sum + e.w, 0);
+    for (const e of entries) {
+        roll -= e.w;
+        if (roll < 0) return e.type;
+    }
+    return entries[0]?.type ?? null;
+};
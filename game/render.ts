@@ -0,0 +1,616 @@
+import { Boss, Enemy, Hazard, Laser, Loot, LootKind, Particle, Player, Popup, PopupKind, PowerUp, Projectile } from './entities';
+import { Palette } from './palette';
+import { dronePositions, hasEffect } from './powerups';
+import { GameSimulation, REVIVE_TIME, Star } from './simulation';
+import { GATE_GAP } from './hazards';
+import { PowerUpType } from './types';
+import { MAX_CHARGE } from './weapons';
+import { WebGLBackend } from './webgl';
+
+// --- Renderer ---
+// A frame is drawn layer by layer, back to front, with one draw function per kind of entity.
+// Anything whose look does not change from frame to frame (ships, shots, pick-ups, sparks) is
+// drawn once into a cached sprite, glow included, and stamped from then on; only the few
+// things that change shape as they animate, like charge rings, are drawn as vectors each frame.
+// Backends only know how to put sprites, rectangles and vectors on screen: Canvas2D works
+// everywhere, batched WebGL2 where the browser offers it.
+
+export type RendererId = 'CANVAS' | 'WEBGL';
+
+export const RENDERERS: { id: RendererId; label: string }[] = [
+    { id: 'CANVAS', label: 'CANVAS 2D' },
+    { id: 'WEBGL', label: 'WEBGL2' },
+];
+
+export type RenderLayer = 'BACKGROUND' | 'ENTITIES' | 'BULLETS' | 'FX' | 'OVERLAY';
+
+export const RENDER_LAYERS: RenderLayer[] = ['BACKGROUND', 'ENTITIES', 'BULLETS', 'FX', 'OVERLAY'];
+
+// Where the playfield lands on a canvas: scaled to fit, centred, letterboxed on the long side
+export interface View { scale: number; x: number; y: number; }
+
+export const fitView = (width: number, height: number, fieldWidth: number, fieldHeight: number): View => {
+    const scale = Math.min(width / fieldWidth, height / fieldHeight);
+    return { scale, x: (width - fieldWidth * scale) / 2, y: (height - fieldHeight * scale) / 2 };
+};
+
+export interface Bounds { x: number; y: number; w: number; h: number; }
+
+// A pre-drawn image of an entity whose own box is w x h, with `pad` of room all round for the glow
+export interface Sprite {
+    image: HTMLCanvasElement;
+    w: number;
+    h: number;
+    pad: number;
+}
+
+// Draws with the 2D canvas API in playfield units
+export type VectorDraw = (g: CanvasRenderingContext2D) => void;
+
+export interface RenderBackend {
+    readonly id: RendererId;
+    readonly canvas: HTMLCanvasElement;
+    // Clears the canvas to `clear` and maps playfield units onto it: device pixel = unit * scale + (x, y)
+    begin(clear: string, scale: number, x: number, y: number): void;
+    // Draws the sprite's box at x, y, scaled about its centre
+    sprite(sprite: Sprite, x: number, y: number, alpha: number, scale: number): void;
+    rect(x: number, y: number, w: number, h: number, color: string, alpha: number): void;
+    // Nothing drawn outside `bounds` is guaranteed to show
+    vector(bounds: Bounds, draw: VectorDraw): void;
+    // Finishes everything queued so far; called at the end of every layer
+    flush(): void;
+    // The sprite cache was emptied, so anything built from its images can go
+    release(): void;
+}
+
+// --- Sprite cache ---
+
+// Blur radius of the neon glow in playfield units; the padding leaves room for it to fade out
+const GLOW = 5;
+const MAX_SPRITES = 512;
+
+export class SpriteCache {
+    // Device pixels per playfield unit the cached images were drawn at
+    private resolution = 1;
+    private sprites = new Map<string, Sprite>();
+    private scratch = document.createElement('canvas');
+
+    constructor(private onClear: () => void) {}
+
+    // Sprites are redrawn rather than stretched when the canvas changes size
+    setResolution(resolution: number) {
+        if (Math.abs(resolution - this.resolution) < 0.01) return;
+        this.resolution = resolution;
+        this.clear();
+    }
+
+    get(key: string) {
+        return this.sprites.get(key);
+    }
+
+    // `margin` is how far the look may stray outside its box, before the glow
+    add(key: string, w: number, h: number, draw: VectorDraw, glow = true, margin = 8): Sprite {
+        if (this.sprites.size >= MAX_SPRITES) this.clear();
+        const { resolution: r, scratch } = this;
+        const pad = margin + (glow ? GLOW * 2 : 0);
+        const image = document.createElement('canvas');
+        image.width = scratch.width = Math.ceil((w + pad * 2) * r);
+        image.height = scratch.height = Math.ceil((h + pad * 2) * r);
+        const g = image.getContext('2d')!;
+        if (glow) {
+            // The look is drawn once, then laid over a blurred copy of itself, so every line
+            // glows in its own colour
+            const s = scratch.getContext('2d')!;
+            s.setTransform(r, 0, 0, r, pad * r, pad * r);
+            draw(s);
+            g.filter = `blur(${GLOW * r}px)`;
+            g.drawImage(scratch, 0, 0);
+            g.filter = 'none';
+            g.drawImage(scratch, 0, 0);
+        } else {
+            g.setTransform(r, 0, 0, r, pad * r, pad * r);
+            draw(g);
+        }
+        const sprite = { image, w, h, pad };
+        this.sprites.set(key, sprite);
+        return sprite;
+    }
+
+    private clear() {
+        this.sprites.clear();
+        this.onClear();
+    }
+}
+
+// --- Entity looks ---
+// Each draws one entity with its box at the origin; they run once per sprite, not per frame
+
+const SHIELD_RADIUS = 45;
+
+// The outline overhangs the hitbox a little at the back corners, whatever the hull's size
+const shipLook = (color: string, w: number, h: number): VectorDraw => g => {
+    g.strokeStyle = color;
+    g.lineWidth = 4;
+    g.beginPath();
+    g.moveTo(w / 2, 0);
+    g.lineTo(-w / 8, h * 1.125);
+    g.lineTo(w * 1.125, h * 1.125);
+    g.closePath();
+    g.stroke();
+};
+
+const shieldLook = (color: string): VectorDraw => g => {
+    g.strokeStyle = color;
+    g.lineWidth = 4;
+    g.setLineDash([10, 5]);
+    g.beginPath(); g.arc(SHIELD_RADIUS, SHIELD_RADIUS, SHIELD_RADIUS, 0, Math.PI * 2); g.stroke();
+};
+
+// Each power-up has its own silhouette as well as its own colour
+const OPEN_POWERUPS: PowerUpType[] = ['TRIPLE_SHOT', 'MAGNET', 'SCORE_DOUBLER'];
+
+const powerUpLook = (type: PowerUpType, color: string, r: number): VectorDraw => g => {
+    g.strokeStyle = color;
+    g.fillStyle = color;
+    g.lineWidth = 3;
+    g.beginPath();
+    if (type === 'RAPID_FIRE') {
+        g.moveTo(r, 0); g.lineTo(r * 2, r * 1.8); g.lineTo(0, r * 1.8); g.closePath();
+    } else if (type === 'SHIELD') {
+        g.arc(r, r, r, 0, Math.PI * 2);
+    } else if (type === 'TRIPLE_SHOT') {
+        for (const dx of [-r * 0.7, 0, r * 0.7]) { g.moveTo(r + dx, 0); g.lineTo(r + dx, r * 2); }
+    } else if (type === 'MAGNET') {
+        g.moveTo(r * 0.2, 0); g.lineTo(r * 0.2, r); g.arc(r, r, r * 0.8, Math.PI, 0, true); g.lineTo(r * 1.8, 0);
+    } else if (type === 'TIME_SLOW') {
+        g.moveTo(0, 0); g.lineTo(r * 2, 0); g.lineTo(0, r * 2); g.lineTo(r * 2, r * 2); g.closePath();
+    } else if (type === 'DRONE') {
+        g.moveTo(r, 0); g.lineTo(r * 2, r); g.lineTo(r, r * 2); g.lineTo(0, r); g.closePath();
+    } else if (type === 'BOMB_CHARGE') {
+        g.arc(r, r * 1.2, r * 0.8, 0, Math.PI * 2);
+        g.moveTo(r, r * 0.4); g.lineTo(r * 1.5, 0);
+    } else if (type === 'SCORE_DOUBLER') {
+        for (const y of [r * 0.8, r * 1.8]) { g.moveTo(0, y); g.lineTo(r, y - r * 0.8); g.lineTo(r * 2, y); }
+    } else {
+        g.rect(r * 0.7, 0, r * 0.6, r * 2);
+        g.rect(0, r * 0.7, r * 2, r * 0.6);
+    }
+    g.stroke();
+    g.globalAlpha = 0.25;
+    if (!OPEN_POWERUPS.includes(type)) g.fill();
+};
+
+// Coins are round, crystals are diamonds
+const lootLook = (kind: LootKind, color: string, size: number): VectorDraw => g => {
+    const r = size / 2;
+    g.fillStyle = color;
+    g.strokeStyle = color;
+    g.lineWidth = 2;
+    g.beginPath();
+    if (kind === 'COIN') g.arc(r, r, r, 0, Math.PI * 2);
+    else { g.moveTo(r, 0); g.lineTo(size, r); g.lineTo(r, size); g.lineTo(0, r); g.closePath(); }
+    g.stroke();
+    g.globalAlpha = 0.5;
+    g.fill();
+};
+
+// Every rock of a size has the same lumps
+const ROCK = [1, 0.8, 0.95, 0.72, 1, 0.86, 0.7, 0.92, 0.84];
+
+const asteroidLook = (color: string, d: number): VectorDraw => g => {
+    const r = d / 2;
+    g.strokeStyle = color;
+    g.fillStyle = color;
+    g.lineWidth = 3;
+    g.beginPath();
+    ROCK.forEach((k, i) => {
+        const a = (i / ROCK.length) * Math.PI * 2;
+        g.lineTo(r + Math.cos(a) * r * k, r + Math.sin(a) * r * k);
+    });
+    g.closePath();
+    g.stroke();
+    g.globalAlpha = 0.15;
+    g.fill();
+};
+
+// The core, inside faint rings that mark how far its pull reaches; the box is the reach
+const wellLook = (color: string, core: number, reach: number): VectorDraw => g => {
+    g.strokeStyle = color;
+    g.fillStyle = '#000000';
+    g.lineWidth = 2;
+    for (const k of [1, 0.66, 0.33]) {
+        g.globalAlpha = 0.45 - k * 0.3;
+        g.beginPath(); g.arc(reach, reach, reach * k, 0, Math.PI * 2); g.stroke();
+    }
+    g.globalAlpha = 1;
+    g.lineWidth = 4;
+    g.beginPath(); g.arc(reach, reach, core, 0, Math.PI * 2); g.fill(); g.stroke();
+};
+
+// A dashed cloud with a few jagged discharges across it
+const stormLook = (color: string, d: number): VectorDraw => g => {
+    const r = d / 2;
+    g.strokeStyle = color;
+    g.fillStyle = color;
+    g.lineWidth = 3;
+    g.setLineDash([14, 10]);
+    g.beginPath(); g.arc(r, r, r, 0, Math.PI * 2); g.stroke();
+    g.setLineDash([]);
+    for (const [x, y] of [[0.3, 0.25], [0.6, 0.45], [0.35, 0.65]]) {
+        g.beginPath();
+        g.moveTo(d * x, d * y);
+        g.lineTo(d * (x + 0.08), d * (y + 0.08));
+        g.lineTo(d * (x + 0.02), d * (y + 0.1));
+        g.lineTo(d * (x + 0.12), d * (y + 0.2));
+        g.stroke();
+    }
+    g.globalAlpha = 0.12;
+    g.beginPath(); g.arc(r, r, r, 0, Math.PI * 2); g.fill();
+};
+
+// A wingman is a small copy of the ship it flies with
+const DRONE_SIZE = 14;
+
+const boltLook = (color: string, w: number, h: number): VectorDraw => g => {
+    g.fillStyle = color;
+    g.fillRect(0, 0, w, h);
+};
+
+// Enemy fire is round with a white core, so it never reads as one of the player's bars
+const pelletLook = (color: string, w: number, h: number): VectorDraw => g => {
+    g.fillStyle = color;
+    g.beginPath(); g.arc(w / 2, h / 2, w / 2 + 1, 0, Math.PI * 2); g.fill();
+    g.fillStyle = '#ffffff';
+    g.fillRect(w / 2 - 1, h / 2 - 1, 2, 2);
+};
+
+const sparkLook = (color: string): VectorDraw => g => {
+    g.fillStyle = color;
+    g.beginPath(); g.arc(2.5, 2.5, 2.5, 0, Math.PI * 2); g.fill();
+};
+
+// Score popups are one sprite per distinct text, which stays a short list: rewards times
+// multipliers
+const POPUP_FONT = 16;
+const POPUP_CHAR = 10;
+
+const popupLook = (text: string, color: string): VectorDraw => g => {
+    g.fillStyle = color;
+    g.font = `bold ${POPUP_FONT}px monospace`;
+    g.textAlign = 'center';
+    g.textBaseline = 'middle';
+    g.fillText(text, (text.length * POPUP_CHAR) / 2, POPUP_FONT / 2);
+};
+
+// --- Entity draws ---
+
+interface Frame {
+    sim: GameSimulation;
+    backend: RenderBackend;
+    sprites: SpriteCache;
+    palette: Palette;
+    reducedMotion: boolean;
+    // Position between the last two ticks
+    lerp: (prev: number, cur: number) => number;
+}
+
+const drawStar = (f: Frame, s: Star) => f.backend.rect(s.x, f.lerp(s.py, s.y), s.s, s.s, '#ffffff', (s.l + 1) / 4);
+
+const drawPowerUp = (f: Frame, p: PowerUp) => {
+    const color = f.palette.powerups[p.type];
+    const key = `powerup:${p.type}:${color}:${p.w}`;
+    const sprite = f.sprites.get(key) ?? f.sprites.add(key, p.w, p.h, powerUpLook(p.type, color, p.w / 2));
+    f.backend.sprite(sprite, p.x, f.lerp(p.py, p.y), 1, f.reducedMotion ? 1 : 1 + Math.sin(p.pulse) * 0.2);
+};
+
+const drawLoot = (f: Frame, l: Loot) => {
+    const color = f.palette.loot[l.kind];
+    const key = `loot:${l.kind}:${color}:${l.w}`;
+    const sprite = f.sprites.get(key) ?? f.sprites.add(key, l.w, l.h, lootLook(l.kind, color, l.w));
+    f.backend.sprite(sprite, f.lerp(l.px, l.x), f.lerp(l.py, l.y), 1, 1);
+};
+
+const drawHazard = (f: Frame, h: Hazard) => {
+    const { backend, sprites, reducedMotion } = f;
+    const color = f.palette.hazards[h.type];
+    const x = f.lerp(h.px, h.x), y = f.lerp(h.py, h.y);
+    if (h.type === 'LASER_GATE') return drawGate(f, h, color, y);
+    if (h.type === 'GRAVITY_WELL') {
+        const reach = h.def.pull!.radius;
+        const key = `hazard:${h.type}:${color}:${h.w}:${reach}`;
+        const sprite = sprites.get(key) ?? sprites.add(key, reach * 2, reach * 2, wellLook(color, h.w / 2, reach), false);
+        // Fades in while it forms
+        backend.sprite(sprite, x + h.w / 2 - reach, y + h.h / 2 - reach, Math.min(1, h.t / h.def.telegraph), 1);
+        return;
+    }
+    const key = `hazard:${h.type}:${color}:${h.w}`;
+    const look = h.type === 'ASTEROID' ? asteroidLook(color, h.w) : stormLook(color, h.w);
+    const sprite = sprites.get(key) ?? sprites.add(key, h.w, h.h, look);
+    // Storms crackle unless motion is reduced
+    const alpha = h.type === 'EMP_STORM' && !reducedMotion ? 0.6 + Math.abs(Math.sin(h.t * 7)) * 0.4 : 1;
+    backend.sprite(sprite, x, y, alpha, 1);
+};
+
+// While the warning shows, a dashed line marks where the beam will be and leaves the gap open
+const drawGate = (f: Frame, h: Hazard, color: string, y: number) => {
+    const { backend } = f;
+    const right = h.gap + GATE_GAP;
+    if (h.armed) {
+        for (const [x, w] of [[h.x, h.gap], [right, h.x + h.w - right]]) {
+            backend.rect(x, y, w, h.h, color, 0.35);
+            backend.rect(x, y + h.h / 2 - 2, w, 4, '#ffffff', 1);
+        }
+        return;
+    }
+    const cy = y + h.h / 2;
+    backend.vector({ x: h.x, y: cy - 2, w: h.w, h: 4 }, g => {
+        g.strokeStyle = color;
+        g.globalAlpha = f.reducedMotion || (h.t * (6 + h.t * 12)) % 1 < 0.5 ? 1 : 0.3;
+        g.lineWidth = 2;
+        g.setLineDash([12, 8]);
+        g.beginPath();
+        g.moveTo(h.x, cy); g.lineTo(h.gap, cy);
+        g.moveTo(right, cy); g.lineTo(h.x + h.w, cy);
+        g.stroke();
+    });
+};
+
+// Enemy looks are cached per archetype, size and generation, which is all render() may depend on
+const drawEnemy = (f: Frame, e: Enemy) => {
+    const key = `enemy:${e.type}:${e.generation}:${e.w}x${e.h}:${f.palette.enemy(e.hue)}`;
+    const sprite = f.sprites.get(key) ?? f.sprites.add(key, e.w, e.h, g => e.archetype.render(g, e, 0, 0, f.palette), true, 16);
+    f.backend.sprite(sprite, f.lerp(e.px, e.x), f.lerp(e.py, e.y), 1, 1);
+};
+
+// Bosses are cached per phase, and the side pods of some hang well outside their box
+const drawBoss = (f: Frame, boss: Boss) => {
+    const key = `boss:${boss.def.id}:${boss.state}:${f.palette.id}`;
+    const sprite = f.sprites.get(key) ?? f.sprites.add(key, boss.width, boss.height, g => boss.def.render(g, boss, 0, 0, f.palette), true, 24);
+    f.backend.sprite(sprite, f.lerp(boss.px, boss.x), f.lerp(boss.py, boss.y), 1, 1);
+};
+
+const drawPlayer = (f: Frame, player: Player) => {
+    const { sprites, palette, reducedMotion } = f;
+    // Blinks six times a second while invulnerable, or just fades with reduced motion
+    if (!reducedMotion && (player.invul * 6) % 1 >= 0.5) return;
+    // Downed ships stay dim while they wait for a revive
+    const alpha = reducedMotion && player.invul > 0 ? 0.5 : player.downed ? 0.3 : 1;
+    const x = f.lerp(player.px, player.x), y = f.lerp(player.py, player.y);
+    const color = palette.players[player.index];
+    const { w, h } = player;
+    const key = `ship:${color}:${w}x${h}`;
+    const ship = sprites.get(key) ?? sprites.add(key, w, h * 1.125, shipLook(color, w, h), true, 12);
+    f.backend.sprite(ship, x, y, alpha, 1);
+    const drones = player.effects.DRONE?.stacks ?? 0;
+    if (drones > 0) {
+        const key = `ship:${color}:${DRONE_SIZE}x${DRONE_SIZE}`;
+        const drone = sprites.get(key) ?? sprites.add(key, DRONE_SIZE, DRONE_SIZE * 1.125, shipLook(color, DRONE_SIZE, DRONE_SIZE), true, 12);
+        // Jammed wingmen hang back dimmed
+        const droneAlpha = player.jammed > 0 ? alpha * 0.4 : alpha;
+        for (const p of dronePositions({ x, y, w, h }, drones)) f.backend.sprite(drone, p.x - DRONE_SIZE / 2, p.y - DRONE_SIZE / 2, droneAlpha, 1);
+    }
+    if (hasEffect(player, 'SHIELD')) {
+        const shieldColor = palette.powerups.SHIELD;
+        const size = SHIELD_RADIUS * 2;
+        const shield = sprites.get(`shield:${shieldColor}`) ?? sprites.add(`shield:${shieldColor}`, size, size, shieldLook(shieldColor));
+        f.backend.sprite(shield, x + w / 2 - SHIELD_RADIUS, y + h * 0.7 - SHIELD_RADIUS, alpha, 1);
+    }
+};
+
+// A ring filling up while the partner revives a downed ship, and the charge shot building up
+const drawPlayerOverlay = (f: Frame, player: Player) => {
+    const x = f.lerp(player.px, player.x), y = f.lerp(player.py, player.y);
+    const ring = (cx: number, cy: number, r: number): Bounds => ({ x: cx - r - 4, y: cy - r - 4, w: r * 2 + 8, h: r * 2 + 8 });
+    if (player.downed && player.revive > 0) {
+        const cx = x + player.w / 2, cy = y + player.h * 0.7;
+        f.backend.vector(ring(cx, cy, 40), g => {
+            g.strokeStyle = f.palette.players[player.index];
+            g.lineWidth = 3;
+            g.beginPath();
+            g.arc(cx, cy, 40, -Math.PI / 2, -Math.PI / 2 + (player.revive / REVIVE_TIME) * Math.PI * 2);
+            g.stroke();
+        });
+    }
+    if (player.charge > 0) {
+        const r = 4 + (player.charge / MAX_CHARGE) * 14;
+        f.backend.vector(ring(x + player.w / 2, y - 6, r), g => {
+            g.strokeStyle = '#ffffff';
+            g.lineWidth = 2;
+            g.beginPath(); g.arc(x + player.w / 2, y - 6, r, 0, Math.PI * 2); g.stroke();
+        });
+    }
+};
+
+const drawBolt = (f: Frame, b: Projectile) => {
+    const { palette } = f;
+    const color = b.color ?? (hasEffect(f.sim.players[b.owner], 'RAPID_FIRE') ? palette.rapidBolt : palette.players[b.owner]);
+    const key = `bolt:${color}:${b.w}x${b.h}`;
+    const sprite = f.sprites.get(key) ?? f.sprites.add(key, b.w, b.h, boltLook(color, b.w, b.h));
+    f.backend.sprite(sprite, f.lerp(b.px, b.x), f.lerp(b.py, b.y), 1, 1);
+};
+
+const drawPellet = (f: Frame, b: Projectile) => {
+    const color = f.palette.enemyBullet;
+    const key = `pellet:${color}:${b.w}x${b.h}`;
+    const sprite = f.sprites.get(key) ?? f.sprites.add(key, b.w, b.h, pelletLook(color, b.w, b.h));
+    f.backend.sprite(sprite, f.lerp(b.px, b.x), f.lerp(b.py, b.y), 1, 1);
+};
+
+const drawLaser = (f: Frame, l: Laser) => {
+    const { backend, palette, sim } = f;
+    const length = sim.height - l.y;
+    if (l.active) {
+        backend.rect(l.x, l.y, l.w, length, palette.danger, 0.35);
+        backend.rect(l.x + l.w / 2 - 3, l.y, 6, length, '#ffffff', 1);
+        return;
+    }
+    // Telegraph line flickers faster as the beam is about to fire; held steady with reduced motion
+    const cx = l.x + l.w / 2;
+    backend.vector({ x: cx - 2, y: l.y, w: 4, h: length }, g => {
+        g.strokeStyle = palette.danger;
+        g.globalAlpha = f.reducedMotion || (l.t * (6 + l.t * 12)) % 1 < 0.5 ? 1 : 0.3;
+        g.lineWidth = 2;
+        g.setLineDash([12, 8]);
+        g.beginPath(); g.moveTo(cx, l.y); g.lineTo(cx, sim.height); g.stroke();
+    });
+};
+
+const drawSpark = (f: Frame, p: Particle) => {
+    const key = `spark:${p.color}`;
+    const sprite = f.sprites.get(key) ?? f.sprites.add(key, 5, 5, sparkLook(p.color), false, 1);
+    f.backend.sprite(sprite, f.lerp(p.px, p.x) - 2.5, f.lerp(p.py, p.y) - 2.5, Math.max(0, p.life), 1);
+};
+
+const popupColor = (palette: Palette, kind: PopupKind) => kind === 'KILL' ? '#ffffff' : kind === 'GRAZE' ? palette.warning : palette.good;
+
+const drawPopup = (f: Frame, p: Popup) => {
+    const color = popupColor(f.palette, p.kind);
+    const key = `popup:${p.text}:${color}`;
+    const w = p.text.length * POPUP_CHAR;
+    const sprite = f.sprites.get(key) ?? f.sprites.add(key, w, POPUP_FONT, popupLook(p.text, color), p.kind !== 'GRAZE');
+    f.backend.sprite(sprite, f.lerp(p.px, p.x) - w / 2, f.lerp(p.py, p.y) - POPUP_FONT / 2, Math.min(1, p.life), 1);
+};
+
+const PLAYFIELD = '#050505';
+
+const LAYER_DRAWS: Record<RenderLayer, (f: Frame) => void> = {
+    BACKGROUND: f => {
+        f.backend.rect(0, 0, f.sim.width, f.sim.height, PLAYFIELD, 1);
+        f.sim.stars.forEach(s => drawStar(f, s));
+    },
+    ENTITIES: f => {
+        const { hazards, powerups, loot, enemies, boss, players } = f.sim;
+        hazards.forEach(h => drawHazard(f, h));
+        powerups.forEach(p => drawPowerUp(f, p));
+        loot.forEach(l => drawLoot(f, l));
+        enemies.forEach(e => drawEnemy(f, e));
+        if (boss) drawBoss(f, boss);
+        players.forEach(p => drawPlayer(f, p));
+    },
+    BULLETS: f => {
+        f.sim.bullets.forEach(b => drawBolt(f, b));
+        f.sim.enemyBullets.forEach(b => drawPellet(f, b));
+    },
+    FX: f => {
+        f.sim.lasers.forEach(l => drawLaser(f, l));
+        f.sim.particles.forEach(p => drawSpark(f, p));
+    },
+    OVERLAY: f => {
+        f.sim.players.forEach(p => drawPlayerOverlay(f, p));
+        f.sim.popups.forEach(p => drawPopup(f, p));
+    },
+};
+
+// --- Game renderer ---
+
+// The playfield is a shade lighter than the letterbox bars around it
+const LETTERBOX = '#000000';
+
+export interface RenderOptions {
+    palette: Palette;
+    reducedMotion: boolean;
+}
+
+export class GameRenderer {
+    readonly backend: RenderBackend;
+    private sprites: SpriteCache;
+    // Canvas size in CSS pixels, and device pixels per CSS pixel
+    private width = 0;
+    private height = 0;
+    private dpr = 1;
+
+    constructor(backend: RenderBackend) {
+        this.backend = backend;
+        this.sprites = new SpriteCache(() => backend.release());
+    }
+
+    get id() { return this.backend.id; }
+
+    // The backing store is sized in device pixels, so lines stay sharp on HiDPI screens
+    resize(width: number, height: number, dpr: number) {
+        const { canvas } = this.backend;
+        this.width = width;
+        this.height = height;
+        this.dpr = dpr;
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+        canvas.style.width = `${width}px`;
+        canvas.style.height = `${height}px`;
+    }
+
+    // alpha is how far real time has moved past the last simulated tick, in ticks
+    render(sim: GameSimulation, alpha: number, options: RenderOptions) {
+        const { backend, sprites, dpr } = this;
+        const view = fitView(this.width, this.height, sim.width, sim.height);
+        const scale = view.scale * dpr;
+        let x = view.x * dpr, y = view.y * dpr;
+        if (sim.shake > 0.1 && !options.reducedMotion) {
+            x += (Math.random() - 0.5) * sim.shake * scale;
+            y += (Math.random() - 0.5) * sim.shake * scale;
+        }
+        sprites.setResolution(scale);
+        backend.begin(LETTERBOX, scale, x, y);
+        const frame: Frame = {
+            sim, backend, sprites, ...options,
+            lerp: (prev, cur) => prev + (cur - prev) * alpha,
+        };
+        for (const layer of RENDER_LAYERS) {
+            LAYER_DRAWS[layer](frame);
+            backend.flush();
+        }
+    }
+}
+
+// --- Canvas2D backend ---
+
+export class CanvasBackend implements RenderBackend {
+    readonly id = 'CANVAS';
+    readonly canvas: HTMLCanvasElement;
+    private g: CanvasRenderingContext2D;
+
+    constructor(canvas: HTMLCanvasElement, g: CanvasRenderingContext2D) {
+        this.canvas = canvas;
+        this.g = g;
+    }
+
+    begin(clear: string, scale: number, x: number, y: number) {
+        const { g, canvas } = this;
+        g.setTransform(1, 0, 0, 1, 0, 0);
+        g.globalAlpha = 1;
+        g.fillStyle = clear;
+        g.fillRect(0, 0, canvas.width, canvas.height);
+        g.setTransform(scale, 0, 0, scale, x, y);
+    }
+
+    sprite(sprite: Sprite, x: number, y: number, alpha: number, scale: number) {
+        const w = (sprite.w + sprite.pad * 2) * scale, h = (sprite.h + sprite.pad * 2) * scale;
+        this.g.globalAlpha = alpha;
+        this.g.drawImage(sprite.image, x + (sprite.w - w) / 2, y + (sprite.h - h) / 2, w, h);
+    }
+
+    rect(x: number, y: number, w: number, h: number, color: string, alpha: number) {
+        this.g.globalAlpha = alpha;
+        this.g.fillStyle = color;
+        this.g.fillRect(x, y, w, h);
+    }
+
+    vector(_: Bounds, draw: VectorDraw) {
+        this.g.save();
+        this.g.globalAlpha = 1;
+        draw(this.g);
+        this.g.restore();
+    }
+
+    flush() {
+        this.g.globalAlpha = 1;
+    }
+
+    release() {}
+}
+
+// WebGL2 is only a preference: without it, or on a canvas that already has a 2D context,
+// the Canvas2D backend takes over
+export const createRenderer = (canvas: HTMLCanvasElement, preferred: RendererId) => {
+    const gl = preferred === 'WEBGL' ? canvas.getContext('webgl2', { alpha: false, premultipliedAlpha: true }) : null;
+    return new GameRenderer(gl ? new WebGLBackend(canvas, gl) : new CanvasBackend(canvas, canvas.getContext('2d')!));
+};
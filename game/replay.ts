@@ -0,0 +1,247 @@
+import { isDifficulty } from './difficulty';
+import { InputManager, MOVE_STEPS, SyntheticInput, quantizeMove } from './input';
+import { isObject, isOneOf } from './json';
+import { GameSimulation, SIMULATION_VERSION, cloneUpgrades, playerCount } from './simulation';
+import { SHIP_IDS } from './ships';
+import { parseStages } from './stages';
+import { Consumables, GameMode, InputSnapshot, RunConfig, Upgrades } from './types';
+
+// --- Replays ---
+// The simulation is deterministic given its seed, starting upgrades and per-tick input, so a
+// replay stores only those plus the few out-of-band calls the UI makes between ticks.
+
+export const REPLAY_FORMAT = 'galaxy-defender-replay';
+export const REPLAY_VERSION = 7;
+
+export type ReplayEvent =
+    | { tick: number; kind: 'spend'; amount: number }
+    | { tick: number; kind: 'nextWave'; upgrades: Upgrades; consumables: Consumables };
+
+export interface ReplayFile {
+    format: typeof REPLAY_FORMAT;
+    version: number;
+    // Rules revision the run was recorded under; replays only play back on the same rules
+    simVersion: number;
+    run: RunConfig;
+    upgrades: Upgrades;
+    ticks: number;
+    // Run-length encoded input masks per ship, player one first; see toMask and encodeInputs
+    inputs: string[];
+    events: ReplayEvent[];
+    // First tick of every wave, used for scrubbing
+    waves: { wave: number; tick: number }[];
+    result: { score: number; wave: number; accuracy: number };
+    recordedAt: string;
+}
+
+// Bit 0 is fire, bit 1 bomb; the bits above hold the movement step, offset to be non-negative
+const toMask = (input: InputSnapshot) =>
+    (input.fire ? 1 : 0) | (input.bomb ? 2 : 0) | ((quantizeMove(input.move) * MOVE_STEPS + MOVE_STEPS) << 2);
+
+const fromMask = (mask: number): InputSnapshot => ({
+    move: ((mask >> 2) - MOVE_STEPS) / MOVE_STEPS,
+    fire: (mask & 1) !== 0,
+    bomb: (mask & 2) !== 0,
+});
+
+// "mask*count" runs separated by commas, e.g. "32*120,33*36,1*8"
+export const encodeInputs = (masks: number[]) => {
+    const runs: string[] = [];
+    for (let i = 0; i < masks.length;) {
+        let j = i;
+        while (j < masks.length && masks[j] === masks[i]) j++;
+        runs.push(`${masks[i]}*${j - i}`);
+        i = j;
+    }
+    return runs.join(',');
+};
+
+export const decodeInputs = (encoded: string): InputSnapshot[] => {
+    const inputs: InputSnapshot[] = [];
+    if (!encoded) return inputs;
+    for (const run of encoded.split(',')) {
+        const [mask, count] = run.split('*').map(Number);
+        if (!Number.isInteger(mask) || mask < 0 || mask >> 2 > MOVE_STEPS * 2 || !Number.isInteger(count) || count < 1) {
+            throw new Error(`Replay input data is corrupt near "${run}"`);
+        }
+        const input = fromMask(mask);
+        for (let k = 0; k < count; k++) inputs.push(input);
+    }
+    return inputs;
+};
+
+const isUpgrades = (u: unknown): u is Upgrades =>
+    isObject(u) && ['damage', 'fireRate', 'speed', 'maxHealth'].every(k => typeof u[k] === 'number') &&
+    Array.isArray(u.weapons) && typeof u.weapon === 'string' && isObject(u.tech) &&
+    (u.granted === undefined || Array.isArray(u.granted));
+
+const isStrings = (list: unknown): list is string[] => Array.isArray(list) && list.every(s => typeof s === 'string');
+
+export const parseReplay = (text: string): ReplayFile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Replay file is not valid JSON');
+    }
+    if (!isObject(data) || data.format !== REPLAY_FORMAT) throw new Error('File is not a Galaxy Defender replay');
+    if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${data.version} (expected ${REPLAY_VERSION})`);
+    if (data.simVersion !== SIMULATION_VERSION) throw new Error('Replay was recorded on a different version of the game rules');
+    const { run } = data;
+    if (!isObject(run) || typeof run.seed !== 'number' || typeof run.mode !== 'string') throw new Error('Replay is missing its run seed');
+    if (run.mode === 'DAILY' && typeof run.day !== 'string') throw new Error('Replay is missing the date of its daily challenge');
+    if (!isDifficulty(run.difficulty)) throw new Error('Replay is missing its difficulty settings');
+    // Campaign replays carry their own stages, so they play back even if the campaign changes
+    if (run.mode === 'CAMPAIGN') run.stages = parseStages(run.stages, 'Replay');
+    if (run.startAt !== undefined && !(typeof run.startAt === 'number' && run.startAt >= 0)) throw new Error('Replay has an invalid start time');
+    if (run.ship !== undefined && !isOneOf(run.ship, SHIP_IDS)) throw new Error(`Replay was flown in an unknown ship "${run.ship}"`);
+    if (run.autoCollect !== undefined && typeof run.autoCollect !== 'boolean') throw new Error('Replay has an invalid auto-collect setting');
+    if (!isUpgrades(data.upgrades)) throw new Error('Replay is missing its starting upgrades');
+    const { inputs, ticks } = data;
+    if (!isStrings(inputs) || !Array.isArray(data.events) || !Array.isArray(data.waves)) throw new Error('Replay is missing its input log');
+    if (inputs.length !== playerCount(run.mode as GameMode)) throw new Error('Replay has an input log for the wrong number of ships');
+    if (inputs.some(s => decodeInputs(s).length !== ticks)) throw new Error('Replay input log does not match its tick count');
+    // Every field the player reads has been checked above
+    return data as unknown as ReplayFile;
+};
+
+export class ReplayRecorder {
+    private run: RunConfig | null = null;
+    private upgrades: Upgrades | null = null;
+    private masks: number[][] = [];
+    private events: ReplayEvent[] = [];
+    private waves: { wave: number; tick: number }[] = [];
+    private unsubscribe: (() => void)[];
+
+    constructor(private sim: GameSimulation) {
+        this.unsubscribe = [
+            sim.on('runStart', e => {
+                this.run = { ...e.run };
+                this.upgrades = cloneUpgrades(e.upgrades);
+                this.masks = [];
+                this.events = [];
+                this.waves = [{ wave: 1, tick: 0 }];
+            }),
+            sim.on('tick', e => {
+                if (this.run) e.inputs.forEach((input, i) => { (this.masks[i] ??= [])[e.tick] = toMask(input); });
+            }),
+            sim.on('spend', e => this.push({ tick: sim.tick, kind: 'spend', amount: e.amount })),
+            sim.on('waveStart', e => {
+                this.push({ tick: sim.tick, kind: 'nextWave', upgrades: cloneUpgrades(e.upgrades), consumables: { ...e.consumables } });
+                if (this.run) this.waves.push({ wave: e.wave, tick: sim.tick });
+            }),
+        ];
+    }
+
+    private push(event: ReplayEvent) {
+        if (this.run) this.events.push(event);
+    }
+
+    // Carries on recording a run restored from a snapshot, from the replay saved along with it
+    resume(file: ReplayFile) {
+        this.run = { ...file.run };
+        this.upgrades = cloneUpgrades(file.upgrades);
+        this.masks = file.inputs.map(encoded => decodeInputs(encoded).map(toMask));
+        this.events = [...file.events];
+        this.waves = [...file.waves];
+    }
+
+    toFile(): ReplayFile | null {
+        if (!this.run || !this.upgrades) return null;
+        const { sim } = this;
+        return {
+            format: REPLAY_FORMAT,
+            version: REPLAY_VERSION,
+            simVersion: SIMULATION_VERSION,
+            run: this.run,
+            upgrades: this.upgrades,
+            ticks: sim.tick,
+            inputs: this.masks.map(encodeInputs),
+            events: this.events,
+            waves: this.waves,
+            result: { score: sim.score, wave: sim.wave, accuracy: sim.accuracy },
+            recordedAt: new Date().toISOString(),
+        };
+    }
+
+    detach() {
+        this.unsubscribe.forEach(off => off());
+    }
+}
+
+export const REPLAY_SPEEDS = [1, 2, 4] as const;
+
+export class ReplayPlayer {
+    readonly file: ReplayFile;
+    paused = false;
+    speed: number = 1;
+    // True while fast-forwarding for a seek, so listeners can skip sounds
+    seeking = false;
+    private inputs: InputSnapshot[][];
+    private eventIndex = 0;
+    // Recorded frames go back through the action layer, exactly like live input; one script per ship
+    private scripts: SyntheticInput[];
+    private managers: InputManager[];
+
+    constructor(private sim: GameSimulation, file: ReplayFile) {
+        this.file = file;
+        this.inputs = file.inputs.map(decodeInputs);
+        this.scripts = this.inputs.map(() => new SyntheticInput());
+        this.managers = this.scripts.map(script => new InputManager([script]));
+        this.restart();
+    }
+
+    get tick() {
+        return this.sim.tick;
+    }
+
+    get finished() {
+        return this.sim.tick >= this.file.ticks || this.sim.status === 'GAMEOVER';
+    }
+
+    restart() {
+        const { sim, file } = this;
+        sim.reset(cloneUpgrades(file.upgrades), { ...file.run });
+        this.eventIndex = 0;
+    }
+
+    private applyEvents() {
+        const { sim, file } = this;
+        while (this.eventIndex < file.events.length && file.events[this.eventIndex].tick <= sim.tick) {
+            const event = file.events[this.eventIndex++];
+            if (event.kind === 'spend') sim.spendCoins(event.amount);
+            else sim.nextWave(cloneUpgrades(event.upgrades), { ...event.consumables });
+        }
+    }
+
+    // Advances one simulation tick; false once the recording has run out
+    private advance() {
+        this.applyEvents();
+        if (this.finished || this.sim.status !== 'PLAYING') return false;
+        const { tick } = this.sim;
+        this.scripts.forEach((script, i) => script.play([this.inputs[i][tick]]));
+        this.sim.step(...this.managers.map(m => { m.poll(); return m.snapshot(); }));
+        return true;
+    }
+
+    // Called once per fixed tick of real time; speed multiplies how many recorded ticks that covers
+    update() {
+        if (this.paused) return;
+        for (let i = 0; i < this.speed; i++) {
+            if (!this.advance()) break;
+        }
+    }
+
+    seekTick(tick: number) {
+        this.seeking = true;
+        if (tick < this.sim.tick) this.restart();
+        while (this.sim.tick < tick && this.advance());
+        this.applyEvents();
+        this.seeking = false;
+    }
+
+    seekWave(wave: number) {
+        const mark = this.file.waves.find(w => w.wave === wave);
+        if (mark) this.seekTick(mark.tick);
+    }
+}
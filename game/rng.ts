@@ -0,0 +1,60 @@
+import { RandomSource } from './types';
+
+// --- Seeded RNG ---
+// mulberry32: the whole generator state is a single 32-bit integer, which keeps runs
+// reproducible from a seed and cheap to snapshot.
+
+export class Rng {
+    readonly seed: number;
+    state: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    next: RandomSource = () => {
+        let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    range(min: number, max: number) {
+        return min + this.next() * (max - min);
+    }
+
+    int(maxExclusive: number) {
+        return Math.floor(this.next() * maxExclusive);
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[this.int(items.length)];
+    }
+}
+
+// FNV-1a, used to turn free-form text and dates into seeds
+export const hashString = (text: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// UTC so every timezone shares the same challenge on the same calendar day
+export const dailyKey = (date = new Date()) => date.toISOString().slice(0, 10);
+export const dailySeed = (date = new Date()) => hashString(`daily-${dailyKey(date)}`);
+
+export const formatSeed = (seed: number) => (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+
+// Accepts a hex seed as shown on the GAMEOVER screen, or any other text as a seed phrase
+export const parseSeed = (text: string): number | null => {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    if (/^[0-9a-f]{1,8}$/i.test(trimmed)) return parseInt(trimmed, 16) >>> 0;
+    return hashString(trimmed.toUpperCase());
+};
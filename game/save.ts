@@ -0,0 +1,262 @@
+import { ACHIEVEMENTS, AchievementState, emptyAchievements } from './achievements';
+import { DIFFICULTY_MAX, DIFFICULTY_MIN, DIFFICULTY_PRESETS, DIFFICULTY_PRESET_IDS } from './difficulty';
+import { ACTIONS, Bindings, DEFAULT_BINDINGS, DEFAULT_DEADZONE, TouchMode, cloneBindings } from './input';
+import { JsonObject, asObject, isObject, isOneOf } from './json';
+import { DEFAULT_UPGRADES, GameSimulation, cloneUpgrades } from './simulation';
+import { StorageBackend } from './storage';
+import { PALETTES, PaletteId } from './palette';
+import { RENDERERS, RendererId } from './render';
+import { SHIPS, shipUnlocked } from './ships';
+import { Difficulty, GameMode, ShipId, Upgrades, WeaponId } from './types';
+import { WEAPONS } from './weapons';
+
+// --- Save Profile ---
+// Everything that outlives a run lives in one versioned JSON document. Older documents are
+// stepped forward through MIGRATIONS one version at a time; anything unreadable, from a newer
+// build or with a gap in the migration chain is replaced by a fresh profile instead of throwing.
+
+export const SAVE_KEY = 'galaxy-defender-save';
+export const SAVE_VERSION = 8;
+
+// The first release only ever read a bare number from here
+const LEGACY_HIGH_SCORE_KEY = 'neonHigh';
+
+export interface LifetimeStats {
+    runs: number;
+    kills: number;
+    shotsFired: number;
+    shotsHit: number;
+    bossesDefeated: number;
+    coinsEarned: number;
+}
+
+export interface Settings {
+    // 0..1, applied to every sound
+    volume: number;
+    // 0..1 on top of `volume`, for effects and the soundtrack
+    sfxVolume: number;
+    musicVolume: number;
+    muted: boolean;
+    bindings: Bindings;
+    touchMode: TouchMode;
+    // Left stick travel ignored around the centre, 0..0.9
+    deadzone: number;
+    // No screen shake, flicker or pulsing
+    reducedMotion: boolean;
+    palette: PaletteId;
+    // Size of menus and the HUD, UI_SCALE_MIN..UI_SCALE_MAX
+    uiScale: number;
+    // Preferred drawing backend; WebGL2 falls back to Canvas2D where it is missing
+    renderer: RendererId;
+    // Rules for new endless and co-op runs; daily challenges always play NORMAL
+    difficulty: Difficulty;
+    // Loot left on screen is banked when a wave is cleared, rather than waited for; always on in daily challenges
+    autoCollect: boolean;
+}
+
+export const UI_SCALE_MIN = 0.75;
+export const UI_SCALE_MAX = 1.5;
+
+export interface SaveProfile {
+    version: number;
+    bestScores: Record<GameMode, number>;
+    // Upgrades carried between endless, co-op and campaign runs; daily challenges always start from stock
+    upgrades: Upgrades;
+    stats: LifetimeStats;
+    settings: Settings;
+    achievements: AchievementState;
+    // Ship picked on the START screen; always one that is unlocked
+    ship: ShipId;
+}
+
+export const defaultProfile = (): SaveProfile => ({
+    version: SAVE_VERSION,
+    bestScores: { ENDLESS: 0, DAILY: 0, COOP: 0, CAMPAIGN: 0 },
+    upgrades: cloneUpgrades(DEFAULT_UPGRADES),
+    stats: { runs: 0, kills: 0, shotsFired: 0, shotsHit: 0, bossesDefeated: 0, coinsEarned: 0 },
+    settings: {
+        volume: 1, sfxVolume: 1, musicVolume: 0.5, muted: false,
+        bindings: cloneBindings(DEFAULT_BINDINGS), touchMode: 'DPAD', deadzone: DEFAULT_DEADZONE,
+        reducedMotion: false, palette: 'NEON', uiScale: 1, renderer: 'CANVAS', difficulty: DIFFICULTY_PRESETS.NORMAL,
+        autoCollect: true,
+    },
+    achievements: emptyAchievements(),
+    ship: 'DEFENDER',
+});
+
+// Each entry turns a document of version `n` into one of version `n + 1`
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {
+    0: data => ({ version: 1, bestScores: { ENDLESS: Number(data.highScore) || 0 } }),
+    // Weapons and the tech tree arrived; everyone starts with just the blaster
+    1: data => ({ ...data, version: 2, upgrades: { ...asObject(data.upgrades), weapons: ['BLASTER'], weapon: 'BLASTER', tech: {} } }),
+    // Controls became rebindable; everyone keeps the layout they had
+    2: data => ({
+        ...data,
+        version: 3,
+        settings: { ...asObject(data.settings), bindings: DEFAULT_BINDINGS, touchMode: 'DPAD', deadzone: DEFAULT_DEADZONE },
+    }),
+    // The mixer split effects from the new soundtrack; effects stay as loud as they were
+    3: data => ({ ...data, version: 4, settings: { ...asObject(data.settings), sfxVolume: 1, musicVolume: 0.5 } }),
+    // Accessibility options arrived, all starting from the look and rules everyone had
+    4: data => ({
+        ...data,
+        version: 5,
+        settings: { ...asObject(data.settings), reducedMotion: false, palette: 'NEON', uiScale: 1, difficulty: DIFFICULTY_PRESETS.NORMAL },
+    }),
+    // The renderer became switchable; everyone stays on the canvas they had
+    5: data => ({ ...data, version: 6, settings: { ...asObject(data.settings), renderer: 'CANVAS' } }),
+    // Achievements and ship variants arrived; everyone starts with none and the DEFENDER
+    6: data => ({ ...data, version: 7, achievements: emptyAchievements(), ship: 'DEFENDER' }),
+    // Coins became pickups; leftovers are swept up at wave end, as good as the instant payouts before
+    7: data => ({ ...data, version: 8, settings: { ...asObject(data.settings), autoCollect: true } }),
+};
+
+const num = (value: unknown, fallback: number, min = 0, max = Infinity) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const numbers = <T extends object>(value: unknown, defaults: T, min = 0): T => {
+    const data = asObject(value);
+    const out = { ...defaults };
+    for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+        out[key] = num(data[key], defaults[key] as number, min) as T[keyof T & string];
+    }
+    return out;
+};
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const isWeapon = (id: unknown): id is WeaponId => typeof id === 'string' && id in WEAPONS;
+
+const sanitizeUpgrades = (value: unknown, defaults: Upgrades): Upgrades => {
+    const data = asObject(value);
+    const { damage, fireRate, speed, maxHealth } = defaults;
+    const weapons = asList(data.weapons).filter(isWeapon);
+    if (!weapons.includes('BLASTER')) weapons.unshift('BLASTER');
+    const tech: Record<string, number> = {};
+    for (const [id, level] of Object.entries(asObject(data.tech))) tech[id] = num(level, 0);
+    return {
+        ...numbers(data, { damage, fireRate, speed, maxHealth }, 1),
+        weapons,
+        weapon: isOneOf(data.weapon, weapons) ? data.weapon : 'BLASTER',
+        granted: asList(data.granted).filter(isWeapon).filter(id => weapons.includes(id)),
+        tech,
+    };
+};
+
+// Malformed codes and buttons are dropped; only an action missing altogether gets its defaults
+const sanitizeBindings = (value: unknown): Bindings => {
+    const data = asObject(value);
+    const bindings = cloneBindings(DEFAULT_BINDINGS);
+    for (const { id } of ACTIONS) {
+        const keys = asObject(data.keyboard)[id];
+        const buttons = asObject(data.gamepad)[id];
+        if (Array.isArray(keys)) bindings.keyboard[id] = keys.filter((k: unknown) => typeof k === 'string');
+        if (Array.isArray(buttons)) bindings.gamepad[id] = buttons.filter((b: unknown) => typeof b === 'number' && Number.isInteger(b) && b >= 0);
+    }
+    return bindings;
+};
+
+// Presets always carry their own multipliers; only CUSTOM keeps what was stored
+const sanitizeDifficulty = (value: unknown): Difficulty => {
+    const data = asObject(value);
+    const preset = isOneOf(data.preset, DIFFICULTY_PRESET_IDS) ? data.preset : 'NORMAL';
+    if (preset !== 'CUSTOM') return DIFFICULTY_PRESETS[preset];
+    const { scaling, damage, spawnRate } = DIFFICULTY_PRESETS.NORMAL;
+    return {
+        preset,
+        scaling: num(data.scaling, scaling, DIFFICULTY_MIN, DIFFICULTY_MAX),
+        damage: num(data.damage, damage, DIFFICULTY_MIN, DIFFICULTY_MAX),
+        spawnRate: num(data.spawnRate, spawnRate, DIFFICULTY_MIN, DIFFICULTY_MAX),
+    };
+};
+
+// Unknown achievements are dropped and progress is capped at each goal
+const sanitizeAchievements = (value: unknown): AchievementState => {
+    const data = asObject(value);
+    const state = emptyAchievements();
+    for (const a of ACHIEVEMENTS) {
+        const progress = num(asObject(data.progress)[a.id], 0, 0, a.goal);
+        if (progress > 0) state.progress[a.id] = progress;
+        if (asList(data.unlocked).includes(a.id)) state.unlocked.push(a.id);
+    }
+    return state;
+};
+
+// Fills gaps and drops bad values field by field, so one broken entry does not cost the rest
+const sanitize = (data: JsonObject): SaveProfile => {
+    const defaults = defaultProfile();
+    const achievements = sanitizeAchievements(data.achievements);
+    const ship = SHIPS[data.ship as ShipId];
+    const settings = asObject(data.settings);
+    return {
+        version: SAVE_VERSION,
+        bestScores: numbers(data.bestScores, defaults.bestScores),
+        upgrades: sanitizeUpgrades(data.upgrades, defaults.upgrades),
+        stats: numbers(data.stats, defaults.stats),
+        settings: {
+            volume: num(settings.volume, defaults.settings.volume, 0, 1),
+            sfxVolume: num(settings.sfxVolume, defaults.settings.sfxVolume, 0, 1),
+            musicVolume: num(settings.musicVolume, defaults.settings.musicVolume, 0, 1),
+            muted: typeof settings.muted === 'boolean' ? settings.muted : defaults.settings.muted,
+            bindings: sanitizeBindings(settings.bindings),
+            touchMode: settings.touchMode === 'DRAG' ? 'DRAG' : 'DPAD',
+            deadzone: num(settings.deadzone, defaults.settings.deadzone, 0, 0.9),
+            reducedMotion: settings.reducedMotion === true,
+            palette: isOneOf(settings.palette, Object.keys(PALETTES) as PaletteId[]) ? settings.palette : 'NEON',
+            uiScale: num(settings.uiScale, defaults.settings.uiScale, UI_SCALE_MIN, UI_SCALE_MAX),
+            renderer: isOneOf(settings.renderer, RENDERERS.map(r => r.id)) ? settings.renderer : 'CANVAS',
+            difficulty: sanitizeDifficulty(settings.difficulty),
+            autoCollect: settings.autoCollect !== false,
+        },
+        achievements,
+        ship: ship && shipUnlocked(ship, achievements.unlocked) ? ship.id : 'DEFENDER',
+    };
+};
+
+export const migrateProfile = (data: unknown): SaveProfile | null => {
+    if (!isObject(data) || typeof data.version !== 'number' || !Number.isInteger(data.version)) return null;
+    if (data.version > SAVE_VERSION || data.version < 0) return null;
+    let doc = data;
+    // Every step hands back the next version, so counting along is the same as reading it back
+    for (let version = data.version; version < SAVE_VERSION; version++) {
+        const step = MIGRATIONS[version];
+        if (!step) return null;
+        doc = step(doc);
+    }
+    return sanitize(doc);
+};
+
+export const loadProfile = (storage: StorageBackend): SaveProfile => {
+    const raw = storage.read(SAVE_KEY);
+    if (raw === null) {
+        const legacy = storage.read(LEGACY_HIGH_SCORE_KEY);
+        return legacy === null ? defaultProfile() : migrateProfile({ version: 0, highScore: Number(legacy) }) ?? defaultProfile();
+    }
+    try {
+        return migrateProfile(JSON.parse(raw)) ?? defaultProfile();
+    } catch {
+        return defaultProfile();
+    }
+};
+
+export const saveProfile = (storage: StorageBackend, profile: SaveProfile) => {
+    storage.write(SAVE_KEY, JSON.stringify(profile));
+};
+
+// Folds a finished run into the profile
+export const recordRun = (profile: SaveProfile, sim: GameSimulation): SaveProfile => {
+    const { stats, bestScores } = profile;
+    const mode = sim.run.mode;
+    return {
+        ...profile,
+        bestScores: { ...bestScores, [mode]: Math.max(bestScores[mode], sim.score) },
+        stats: {
+            runs: stats.runs + 1,
+            kills: stats.kills + sim.kills,
+            shotsFired: stats.shotsFired + sim.shotsFired,
+            shotsHit: stats.shotsHit + sim.shotsHit,
+            bossesDefeated: stats.bossesDefeated + sim.bossesDefeated,
+            coinsEarned: stats.coinsEarned + sim.coinsEarned,
+        },
+    };
+};
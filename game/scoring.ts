@@ -0,0 +1,93 @@
+// --- Scoring ---
+// Kills build a chain shared by the whole team. Every kill refills the chain timer, and every
+// CHAIN_STEP kills in a row add one to the multiplier on kill and graze points. The timer drains
+// between kills; the chain is lost when it runs dry or when any ship takes hull damage. Grazing
+// enemy fire, clearing a wave untouched and shooting accurately all pay on top.
+
+// Seconds a chain survives without a kill
+export const COMBO_WINDOW = 2.5;
+export const CHAIN_STEP = 5;
+export const MAX_MULTIPLIER = 8;
+
+// Enemy fire that passes within this distance of a ship's centre without hitting it is a graze
+export const GRAZE_RADIUS = 42;
+export const GRAZE_SCORE = 10;
+
+export class Combo {
+    // Kills in the current chain
+    chain = 0;
+    // Seconds left before the chain is lost
+    timer = 0;
+    // Longest chain of the run
+    best = 0;
+
+    get multiplier() {
+        return Math.min(MAX_MULTIPLIER, 1 + Math.floor(this.chain / CHAIN_STEP));
+    }
+
+    // How much of the chain timer is left, 0..1
+    get fraction() {
+        return this.timer / COMBO_WINDOW;
+    }
+
+    kill() {
+        this.chain++;
+        this.timer = COMBO_WINDOW;
+        this.best = Math.max(this.best, this.chain);
+    }
+
+    // True when the chain ran out during this step
+    update(dt: number) {
+        if (this.timer <= 0) return false;
+        this.timer -= dt;
+        return this.timer <= 0 && this.break();
+    }
+
+    // True if there was a chain to lose
+    break() {
+        const had = this.chain > 0;
+        this.chain = 0;
+        this.timer = 0;
+        return had;
+    }
+}
+
+// --- Wave bonuses ---
+
+export type WaveBonusId = 'NO_DAMAGE' | 'ACCURACY';
+
+export interface WaveBonus {
+    id: WaveBonusId;
+    label: string;
+    points: number;
+}
+
+// What a wave is judged on, counted from the moment it starts
+export interface WaveTally {
+    // Any ship lost hull; hits soaked by a shield do not count
+    damaged: boolean;
+    shotsFired: number;
+    shotsHit: number;
+    // Power-ups collected by any ship
+    pickups: number;
+}
+
+export const emptyTally = (): WaveTally => ({ damaged: false, shotsFired: 0, shotsHit: 0, pickups: 0 });
+
+// Both bonuses grow with the wave number, so late waves stay worth playing cleanly
+const NO_DAMAGE_BONUS = 500;
+const ACCURACY_BONUS = 1000;
+// A wave where barely anything was fired says nothing about aim
+const MIN_SHOTS = 20;
+
+export const waveBonuses = (wave: number, tally: WaveTally): WaveBonus[] => {
+    const bonuses: WaveBonus[] = [];
+    if (!tally.damaged) bonuses.push({ id: 'NO_DAMAGE', label: 'NO DAMAGE', points: NO_DAMAGE_BONUS * wave });
+    if (tally.shotsFired >= MIN_SHOTS) {
+        const accuracy = Math.min(1, tally.shotsHit / tally.shotsFired);
+        // Squared, so the last few points of accuracy are worth the most
+        const points = Math.round(accuracy * accuracy * ACCURACY_BONUS * wave);
+        if (points > 0) bonuses.push({ id: 'ACCURACY', label: `ACCURACY ${Math.round(accuracy * 100)}%`, points });
+    }
+    return bonuses;
+};
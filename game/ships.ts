@@ -0,0 +1,74 @@
+import type { AchievementId } from './achievements';
+import { ShipId, Upgrades, WeaponId } from './types';
+
+// --- Ships ---
+// Every pilot starts in the DEFENDER. The other hulls are earned through achievements and trade
+// a bigger or smaller hitbox against thrust, and bring a weapon of their own: unlocking a ship
+// adds its weapon to the arsenal, and runs flown in it start with that weapon fitted. The ship is
+// part of the run config, so replays and co-op runs fly the same hull for everyone.
+
+export interface ShipVariant {
+    id: ShipId;
+    name: string;
+    description: string;
+    // Hitbox; the outline is drawn to fit
+    w: number;
+    h: number;
+    // Multiplier on thrust from the speed upgrade
+    speed: number;
+    // Fitted at the start of every run; without one the ship keeps whatever was fitted last
+    weapon?: WeaponId;
+    // Achievement that unlocks the ship; none means it is always available
+    unlock?: AchievementId;
+}
+
+export const SHIPS: Record<ShipId, ShipVariant> = {
+    DEFENDER: {
+        id: 'DEFENDER',
+        name: 'DEFENDER',
+        description: 'The standard hull. Balanced in every way.',
+        w: 40, h: 40, speed: 1,
+    },
+    INTERCEPTOR: {
+        id: 'INTERCEPTOR',
+        name: 'INTERCEPTOR',
+        description: 'A small, quick hull that threads gaps other ships cannot.',
+        w: 30, h: 32, speed: 1.25, weapon: 'LASER',
+        unlock: 'SHARPSHOOTER',
+    },
+    HUNTER: {
+        id: 'HUNTER',
+        name: 'HUNTER',
+        description: 'Slightly faster, and its missiles find their own way.',
+        w: 40, h: 40, speed: 1.1, weapon: 'HOMING',
+        unlock: 'DIVER_HUNTER',
+    },
+    BULWARK: {
+        id: 'BULWARK',
+        name: 'BULWARK',
+        description: 'A slow, broad hull carrying a spread cannon.',
+        w: 50, h: 48, speed: 0.8, weapon: 'SPREAD',
+        unlock: 'UNTOUCHABLE',
+    },
+};
+
+export const SHIP_IDS = Object.keys(SHIPS) as ShipId[];
+
+export const getShip = (id: ShipId | undefined) => SHIPS[id ?? 'DEFENDER'] ?? SHIPS.DEFENDER;
+
+export const shipUnlocked = (ship: ShipVariant, unlocked: AchievementId[]) => !ship.unlock || unlocked.includes(ship.unlock);
+
+export const shipUnlockedBy = (achievement: AchievementId) => SHIP_IDS.map(id => SHIPS[id]).find(s => s.unlock === achievement);
+
+// Adds the ship's weapon to the arsenal, as unlocking the ship does; one already bought stays bought
+export const grantShipWeapon = (upgrades: Upgrades, ship: ShipVariant): Upgrades =>
+    !ship.weapon || upgrades.weapons.includes(ship.weapon) ? upgrades : {
+        ...upgrades,
+        weapons: [...upgrades.weapons, ship.weapon],
+        granted: [...(upgrades.granted ?? []), ship.weapon],
+    };
+
+// Upgrades a run in this ship starts with, its own weapon fitted. Unlocking the ship granted that
+// weapon and granted weapons are never refunded, so it is always in the arsenal
+export const shipLoadout = (upgrades: Upgrades, ship: ShipVariant): Upgrades =>
+    ship.weapon && upgrades.weapons.includes(ship.weapon) ? { ...upgrades, weapon: ship.weapon } : upgrades;
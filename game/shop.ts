@@ -0,0 +1,212 @@
+import { Projectile } from './entities';
+import { TRACTOR_RADIUS, collectRadius } from './loot';
+import { DEFAULT_UPGRADES, cloneUpgrades } from './simulation';
+import { ConsumableId, Consumables, Upgrades, WeaponId } from './types';
+import { MAX_CHARGE, WEAPONS, getWeapon } from './weapons';
+
+// --- Shop Catalog ---
+// Every purchase is a node with levels. Stats, weapons and tech are permanent and can be
+// refunded; supplies are carried through the current run and spent in combat. Nodes only look
+// at and return plain data, so the UI and the rules share one definition of what costs what.
+
+export type ShopCategory = 'STAT' | 'WEAPON' | 'TECH' | 'SUPPLY';
+
+export interface ShopState {
+    upgrades: Upgrades;
+    consumables: Consumables;
+}
+
+export interface Requirement { id: string; level: number; }
+
+export interface ShopNode {
+    id: string;
+    name: string;
+    category: ShopCategory;
+    description: string;
+    maxLevel: number;
+    requires: Requirement[];
+    level: (s: ShopState) => number;
+    // Price of the next level, given the level owned now
+    cost: (level: number) => number;
+    // One level up; the caller has already paid
+    buy: (s: ShopState) => ShopState;
+    // One level down, for refunds; permanent nodes only
+    sell?: (s: ShopState) => ShopState;
+    // Levels owned without being paid for, which can never be refunded
+    free?: (s: ShopState) => number;
+}
+
+export const EMPTY_CONSUMABLES: Consumables = { SMART_BOMB: 0, SHIELD_CHARGE: 0, REPAIR_KIT: 0 };
+
+const withUpgrades = (s: ShopState, patch: Partial<Upgrades>): ShopState =>
+    ({ ...s, upgrades: { ...cloneUpgrades(s.upgrades), ...patch } });
+
+type StatKey = 'damage' | 'fireRate' | 'speed' | 'maxHealth';
+
+// Core stats keep the original prices: 50 coins per level, hull in 20 point steps
+const stat = (id: StatKey, name: string, description: string, step: number, base: number): ShopNode => ({
+    id, name, description,
+    category: 'STAT',
+    maxLevel: 20,
+    requires: [],
+    level: s => (s.upgrades[id] - base) / step + 1,
+    cost: level => (id === 'maxHealth' ? level + 4 : level) * 50,
+    buy: s => withUpgrades(s, { [id]: s.upgrades[id] + step }),
+    sell: s => withUpgrades(s, { [id]: s.upgrades[id] - step }),
+});
+
+const weapon = (id: WeaponId, price: number, requires: Requirement[]): ShopNode => ({
+    id,
+    name: WEAPONS[id].name,
+    description: WEAPONS[id].description,
+    category: 'WEAPON',
+    maxLevel: 1,
+    requires,
+    level: s => (s.upgrades.weapons.includes(id) ? 1 : 0),
+    cost: () => price,
+    buy: s => withUpgrades(s, { weapons: [...s.upgrades.weapons, id], weapon: id }),
+    sell: s => withUpgrades(s, {
+        weapons: s.upgrades.weapons.filter(w => w !== id),
+        weapon: s.upgrades.weapon === id ? 'BLASTER' : s.upgrades.weapon,
+    }),
+    // A ship's weapon skips the shop and its requirements, see grantShipWeapon
+    free: s => (s.upgrades.granted?.includes(id) ? 1 : 0),
+});
+
+// Tech prices double with every level
+const tech = (id: string, name: string, description: string, maxLevel: number, price: number, requires: Requirement[]): ShopNode => ({
+    id, name, description, maxLevel, requires,
+    category: 'TECH',
+    level: s => s.upgrades.tech[id] ?? 0,
+    cost: level => price * 2 ** level,
+    buy: s => withUpgrades(s, { tech: { ...s.upgrades.tech, [id]: (s.upgrades.tech[id] ?? 0) + 1 } }),
+    sell: s => withUpgrades(s, { tech: { ...s.upgrades.tech, [id]: (s.upgrades.tech[id] ?? 0) - 1 } }),
+});
+
+const supply = (id: ConsumableId, name: string, description: string, price: number): ShopNode => ({
+    id, name, description,
+    category: 'SUPPLY',
+    maxLevel: 3,
+    requires: [],
+    level: s => s.consumables[id],
+    cost: () => price,
+    buy: s => ({ ...s, consumables: { ...s.consumables, [id]: s.consumables[id] + 1 } }),
+});
+
+export const SHOP_NODES: ShopNode[] = [
+    stat('damage', 'WEAPON DAMAGE', 'Damage of every shot.', 1, 1),
+    stat('fireRate', 'FIRE RATE', 'Shorter cooldown between shots.', 1, 1),
+    stat('speed', 'THRUSTER SPEED', 'Faster lateral acceleration.', 1, 1),
+    stat('maxHealth', 'MAX HULL', 'More hull points, restored every wave.', 20, 100),
+    weapon('SPREAD', 300, [{ id: 'fireRate', level: 2 }]),
+    weapon('LASER', 450, [{ id: 'damage', level: 3 }]),
+    weapon('HOMING', 500, [{ id: 'SPREAD', level: 1 }, { id: 'speed', level: 2 }]),
+    weapon('CHARGE', 600, [{ id: 'LASER', level: 1 }]),
+    tech('OVERCLOCK', 'OVERCLOCK', 'Power-ups last 2s longer per level.', 3, 150, [{ id: 'fireRate', level: 2 }]),
+    tech('PLATING', 'REACTIVE PLATING', 'Take 10% less damage per level.', 3, 200, [{ id: 'maxHealth', level: 3 }]),
+    tech('SALVAGE', 'SALVAGE DRONES', 'Kills pay 15% more coins per level.', 3, 180, [{ id: 'damage', level: 2 }]),
+    tech('TWIN_MISSILES', 'TWIN MISSILES', 'Homing missiles launch in pairs.', 1, 400, [{ id: 'HOMING', level: 1 }]),
+    tech('TRACTOR', 'TRACTOR BEAM', `Coins and crystals are drawn in from ${TRACTOR_RADIUS} further away per level.`, 3, 120, [{ id: 'speed', level: 2 }]),
+    supply('SMART_BOMB', 'SMART BOMB', 'Press [B] to wipe the screen and hurt the boss.', 120),
+    supply('SHIELD_CHARGE', 'SHIELD CHARGE', 'Soaks the next hit taken without a shield.', 80),
+    supply('REPAIR_KIT', 'REPAIR KIT', 'Restores 50 hull when it drops below 30%.', 100),
+];
+
+export const getNode = (id: string) => {
+    const node = SHOP_NODES.find(n => n.id === id);
+    if (!node) throw new Error(`Unknown shop item "${id}"`);
+    return node;
+};
+
+// --- Rules ---
+
+export const unmetRequirements = (node: ShopNode, s: ShopState) =>
+    node.requires.filter(r => getNode(r.id).level(s) < r.level);
+
+export const describeRequirement = (r: Requirement) => {
+    const node = getNode(r.id);
+    return node.maxLevel === 1 ? node.name : `${node.name} ${r.level}`;
+};
+
+// `reason` says why a purchase is blocked, in a form short enough for a button
+export interface PurchaseCheck { ok: boolean; cost: number; reason: string; }
+
+export const checkPurchase = (node: ShopNode, s: ShopState, coins: number): PurchaseCheck => {
+    const level = node.level(s);
+    const cost = level < node.maxLevel ? node.cost(level) : 0;
+    if (level >= node.maxLevel) return { ok: false, cost, reason: node.category === 'SUPPLY' ? 'FULL' : 'MAXED' };
+    const missing = unmetRequirements(node, s);
+    if (missing.length) return { ok: false, cost, reason: `NEEDS ${missing.map(describeRequirement).join(', ')}` };
+    if (coins < cost) return { ok: false, cost, reason: `${cost}C` };
+    return { ok: true, cost, reason: '' };
+};
+
+// Stats and tech never go below where a new pilot starts, nor anything below what came free
+const baseLevel = (node: ShopNode, s: ShopState) => (node.category === 'STAT' ? 1 : 0) + (node.free?.(s) ?? 0);
+
+export interface RefundCheck { ok: boolean; refund: number; reason: string; }
+
+// Selling a level is blocked while another owned node still depends on it
+export const checkRefund = (node: ShopNode, s: ShopState): RefundCheck => {
+    const level = node.level(s);
+    if (!node.sell || level <= baseLevel(node, s)) return { ok: false, refund: 0, reason: 'NOTHING TO REFUND' };
+    const after = node.sell(s);
+    const broken = SHOP_NODES.find(n => n.level(after) > baseLevel(n, after) && unmetRequirements(n, after).length > 0);
+    if (broken) return { ok: false, refund: 0, reason: `${broken.name} DEPENDS ON IT` };
+    return { ok: true, refund: node.cost(level - 1), reason: '' };
+};
+
+// Total coins sunk into permanent nodes; a respec hands all of it back
+export const investedIn = (upgrades: Upgrades) => {
+    const s: ShopState = { upgrades, consumables: EMPTY_CONSUMABLES };
+    let total = 0;
+    for (const node of SHOP_NODES) {
+        if (!node.sell) continue;
+        for (let l = baseLevel(node, s); l < node.level(s); l++) total += node.cost(l);
+    }
+    return total;
+};
+
+// Granted weapons stay in the arsenal, since none of the refund went into them
+export const respec = (upgrades: Upgrades) => {
+    const granted = upgrades.granted ?? [];
+    const reset = cloneUpgrades(DEFAULT_UPGRADES);
+    return {
+        upgrades: { ...reset, weapons: [...reset.weapons, ...granted], granted: [...granted] },
+        refund: investedIn(upgrades),
+    };
+};
+
+// --- Stat preview ---
+
+export interface StatLine { label: string; value: string; }
+
+export const statSheet = ({ upgrades, consumables }: ShopState): StatLine[] => {
+    const w = getWeapon(upgrades.weapon);
+    const cooldown = (250 / (1 + upgrades.fireRate * 0.2)) * w.cooldown;
+    const plating = upgrades.tech.PLATING ?? 0;
+    // A dry fire at full charge tells how many projectiles one trigger pull makes
+    const volley = w.fire({ x: 0, y: 0, tripleShot: false, charge: MAX_CHARGE, tech: upgrades.tech, projectile: () => new Projectile() });
+    return [
+        { label: 'WEAPON', value: w.name },
+        { label: 'DAMAGE / SHOT', value: (upgrades.damage * w.power).toFixed(1) },
+        { label: 'DAMAGE / VOLLEY', value: volley.reduce((sum, p) => sum + upgrades.damage * p.power, 0).toFixed(1) },
+        { label: w.charged ? 'RECHARGE' : 'SHOTS / SEC', value: w.charged ? `${(cooldown / 1000).toFixed(2)}s` : (1000 / cooldown).toFixed(1) },
+        { label: 'THRUST', value: `${Math.round((1.8 + upgrades.speed * 0.3) * 100)}%` },
+        { label: 'HULL', value: String(upgrades.maxHealth) },
+        { label: 'DAMAGE TAKEN', value: `${100 - plating * 10}%` },
+        { label: 'POWER-UP TIME', value: `${10 + (upgrades.tech.OVERCLOCK ?? 0) * 2}s` },
+        { label: 'COIN BONUS', value: `+${(upgrades.tech.SALVAGE ?? 0) * 15}%` },
+        { label: 'PICKUP RANGE', value: String(collectRadius(upgrades)) },
+        { label: 'SUPPLIES', value: `${consumables.SMART_BOMB}B ${consumables.SHIELD_CHARGE}S ${consumables.REPAIR_KIT}R` },
+    ];
+};
+
+// Only the lines a purchase would change, as before/after pairs
+export const previewPurchase = (node: ShopNode, s: ShopState) => {
+    const before = statSheet(s);
+    const after = statSheet(node.buy(s));
+    return after
+        .map((line, i) => ({ label: line.label, from: before[i].value, to: line.value }))
+        .filter(line => line.from !== line.to);
+};
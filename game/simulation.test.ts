@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { DEFAULT_UPGRADES, GameSimulation, SimEvents, cloneUpgrades } from './simulation';
+
+const SEED = 1234;
+
+const newSim = () => {
+    const sim = new GameSimulation({ upgrades: cloneUpgrades(DEFAULT_UPGRADES) });
+    sim.reset(cloneUpgrades(DEFAULT_UPGRADES), { mode: 'ENDLESS', seed: SEED, difficulty: DIFFICULTY_PRESETS.NORMAL });
+    return sim;
+};
+
+// Puts an enemy shot right on top of the player, to land on the next tick
+const shootPlayer = (sim: GameSimulation) => {
+    const p = sim.player;
+    const b = sim.pools.projectiles.acquire();
+    b.reset(p.x + p.w / 2, p.y + p.h / 2, 0, 0, true);
+    sim.enemyBullets.push(b);
+};
+
+describe('boss spawn', () => {
+    it('waits for wave * 15 kills', () => {
+        const sim = newSim();
+        const spawned: SimEvents['bossSpawn'][] = [];
+        sim.on('bossSpawn', e => spawned.push(e));
+        sim.enemiesDefeated = 14;
+        sim.step();
+        expect(sim.boss).toBeNull();
+        sim.enemiesDefeated = 15;
+        sim.step();
+        expect(sim.boss).not.toBeNull();
+        expect(spawned).toHaveLength(1);
+        expect(spawned[0].hp).toBe(sim.boss!.maxHp);
+    });
+
+    it('scales the kill count with the wave', () => {
+        const sim = newSim();
+        sim.wave = 3;
+        sim.enemiesDefeated = 44;
+        sim.step();
+        expect(sim.boss).toBeNull();
+        sim.enemiesDefeated = 45;
+        sim.step();
+        expect(sim.boss).not.toBeNull();
+    });
+
+    it('only ever spawns one', () => {
+        const sim = newSim();
+        let spawned = 0;
+        sim.on('bossSpawn', () => spawned++);
+        sim.enemiesDefeated = 20;
+        for (let i = 0; i < 10; i++) sim.step();
+        expect(spawned).toBe(1);
+    });
+});
+
+describe('takeDamage', () => {
+    it('takes hull without a shield', () => {
+        const sim = newSim();
+        const hits: SimEvents['damage'][] = [];
+        sim.on('damage', e => hits.push(e));
+        shootPlayer(sim);
+        sim.step();
+        expect(hits).toEqual([{ amount: 15, absorbed: false }]);
+        expect(sim.player.health).toBe(85);
+        expect(sim.player.invul).toBeGreaterThan(0);
+    });
+
+    it('lets a SHIELD soak the hit and then drops it', () => {
+        const sim = newSim();
+        const hits: SimEvents['damage'][] = [];
+        sim.on('damage', e => hits.push(e));
+        sim.player.effects.SHIELD = { time: 5, duration: 10, stacks: 1, timer: 0 };
+        shootPlayer(sim);
+        sim.step();
+        expect(hits).toEqual([{ amount: 15, absorbed: true }]);
+        expect(sim.player.health).toBe(100);
+        expect(sim.player.effects.SHIELD).toBeUndefined();
+    });
+
+    it('spends a SHIELD CHARGE when there is no shield', () => {
+        const sim = newSim();
+        sim.consumables.SHIELD_CHARGE = 1;
+        shootPlayer(sim);
+        sim.step();
+        expect(sim.player.health).toBe(100);
+        expect(sim.consumables.SHIELD_CHARGE).toBe(0);
+    });
+
+    it('lets the hit through a jammed SHIELD', () => {
+        const sim = newSim();
+        sim.player.effects.SHIELD = { time: 5, duration: 10, stacks: 1, timer: 0 };
+        sim.player.jammed = 3;
+        shootPlayer(sim);
+        sim.step();
+        expect(sim.player.health).toBe(85);
+    });
+});
+
+describe('waveClear', () => {
+    it('fires once the boss wreck has burnt out', () => {
+        const sim = newSim();
+        const cleared: SimEvents['waveClear'][] = [];
+        sim.on('waveClear', e => cleared.push(e));
+        sim.enemiesDefeated = 15;
+        sim.step();
+        sim.boss!.startDying();
+        for (let i = 0; i < 60 * 5 && sim.status === 'PLAYING'; i++) sim.step();
+        expect(cleared).toEqual([{ wave: 1 }]);
+        expect(sim.status).toBe('WAVE_CLEAR');
+        expect(sim.wave).toBe(2);
+        expect(sim.enemiesDefeated).toBe(0);
+        expect(sim.boss).toBeNull();
+    });
+});
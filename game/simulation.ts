@@ -0,0 +1,1400 @@
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { EnemyContext, getArchetype, pickArchetype } from './enemies';
+import { quantizeMove } from './input';
+import { BOSS_ROSTER, BossContext, BossDefinition, bossForWave } from './bosses';
+import { Bounds, Broadphase, Shape, SpatialGrid, boundsOverlap, overlaps } from './collision';
+import { Boss, Enemy, Hazard, Laser, Loot, Particle, Player, Popup, PopupKind, PowerUp, Projectile, createPlayer, playerShape } from './entities';
+import { HazardContext, getHazard, hazardChance, pickHazard } from './hazards';
+import { BOSS_PIECES, CRYSTAL_CHANCE, CRYSTAL_VALUE, ENEMY_PIECES, PULL_SPEED, collectRadius, splitLoot } from './loot';
+import { BulletSpec, PatternRunner, Vec } from './patterns';
+import { Pool, sweep } from './pool';
+import { DEFAULT_DROPS, MAX_SUPPLIES, POWERUPS, POWERUP_TYPES, PowerUpContext, TIME_SLOW_SCALE, applyEffect, hasEffect, rollDrop } from './powerups';
+import { Rng, randomSeed } from './rng';
+import { ShipVariant, getShip } from './ships';
+import {
+    SimSnapshot, decodeBoss, decodeEnemy, decodeHazard, decodeLaser, decodeLoot, decodePlayer, decodePowerUp, decodeProjectile, encodeBoss, encodeEnemy, encodeHazard, encodePlayer, encodeProjectile,
+} from './snapshot';
+import { Combo, GRAZE_RADIUS, GRAZE_SCORE, WaveBonus, WaveTally, emptyTally, waveBonuses } from './scoring';
+import { ENTRY_PATHS, SpawnGroup, StageEvent, StageFile, formationOffsets } from './stages';
+import { Consumables, EnemyType, GameMode, HazardType, InputSnapshot, MusicIntensity, PowerUpType, RunConfig, SoundCue, Upgrades } from './types';
+import { MAX_CHARGE, MIN_CHARGE, WeaponDef, getWeapon } from './weapons';
+
+// --- Simulation Core ---
+// Owns every game rule and entity. Knows nothing about React, the DOM or wall-clock time:
+// it advances exactly one fixed tick per step() and reports what happened through events.
+
+// Fixed simulation step. All rates below are per second and scaled by DT, so the game plays
+// the same regardless of how often the display refreshes.
+export const DT = 1 / 60;
+export const TICK_MS = DT * 1000;
+
+// Bump whenever a rule change would make an old replay play out differently
+export const SIMULATION_VERSION = 13;
+
+// Every run is played on the same logical playfield whatever the screen, so runs and
+// leaderboards compare across devices; the renderer scales and letterboxes it to fit
+export const PLAYFIELD_WIDTH = 720;
+export const PLAYFIELD_HEIGHT = 1280;
+
+// Frame-rate independent version of `value *= factor` applied once per 60 Hz frame
+const decay = (factorPer60Hz: number) => Math.pow(factorPer60Hz, DT * 60);
+
+// Enemies are numbered from 1; piercing shots remember the boss under this id
+const BOSS_ID = 0;
+
+// Co-op puts a second ship on the field; every other mode flies solo
+export const playerCount = (mode: GameMode) => (mode === 'COOP' ? 2 : 1);
+
+// A downed ship comes back once its partner has hovered within REVIVE_RANGE of it for
+// REVIVE_TIME seconds, with a share of its hull and a moment of invulnerability
+export const REVIVE_TIME = 2.5;
+export const REVIVE_RANGE = 90;
+const REVIVE_HEALTH = 0.4;
+
+// Drone bolts hit for this share of a regular shot
+const DRONE_POWER = 0.5;
+
+// Oldest score popups give way once this many are on screen
+const MAX_POPUPS = 48;
+
+const IDLE: InputSnapshot = { move: 0, fire: false, bomb: false };
+
+export const DEFAULT_UPGRADES: Upgrades = {
+    damage: 1, fireRate: 1, speed: 1, maxHealth: 100,
+    weapons: ['BLASTER'], weapon: 'BLASTER', tech: {},
+};
+
+export const cloneUpgrades = (u: Upgrades): Upgrades =>
+    ({ ...u, weapons: [...u.weapons], ...(u.granted && { granted: [...u.granted] }), tech: { ...u.tech } });
+
+export interface Star { x: number; y: number; px: number; py: number; s: number; sp: number; l: number; }
+
+export type SimStatus = 'PLAYING' | 'WAVE_CLEAR' | 'GAMEOVER';
+
+export interface SimEvents {
+    runStart: { run: RunConfig; upgrades: Upgrades };
+    waveStart: { wave: number; upgrades: Upgrades; consumables: Consumables };
+    // One snapshot per ship, player one first
+    tick: { tick: number; inputs: InputSnapshot[] };
+    spend: { amount: number };
+    score: { score: number; delta: number };
+    // The kill chain grew, or was lost
+    combo: { chain: number; multiplier: number };
+    waveBonus: { wave: number; tally: WaveTally; bonuses: WaveBonus[] };
+    coins: { coins: number; delta: number };
+    health: { player: number; health: number; max: number };
+    damage: { amount: number; absorbed: boolean };
+    kill: { type: EnemyType; player?: number };
+    pickup: { type: PowerUpType; player: number };
+    // A timed power-up started, stacked or ran out on a ship, or an EMP storm jammed or released
+    // it; `active` is what it has running now, all of it on hold while `jammed`
+    effects: { player: number; active: PowerUpType[]; jammed: boolean };
+    graze: { player: number };
+    consumables: Consumables;
+    wave: { wave: number };
+    bossSpawn: { hp: number; name: string };
+    bossHp: { current: number; max: number; name: string } | null;
+    bossDeath: { wave: number };
+    waveClear: { wave: number };
+    // Campaign only: a stage begins, a stage script shows a message or changes the music
+    stageStart: { stage: number; total: number; name: string };
+    message: { text: string };
+    music: { music: MusicIntensity };
+    downed: { player: number };
+    revived: { player: number; by: number };
+    gameOver: { score: number; wave: number };
+    // `x` is where on the playfield the sound came from, when it came from somewhere
+    sound: { cue: SoundCue; x?: number };
+}
+
+export interface SimulationOptions {
+    upgrades: Upgrades;
+    run?: RunConfig;
+}
+
+type Listeners = { [K in keyof SimEvents]?: ((payload: SimEvents[K]) => void)[] };
+
+export class GameSimulation {
+    readonly width = PLAYFIELD_WIDTH;
+    readonly height = PLAYFIELD_HEIGHT;
+    upgrades: Upgrades;
+    run: RunConfig;
+    // Hull every ship of the run flies, from the run config
+    ship: ShipVariant;
+    // Every gameplay roll goes through this one generator so a seed reproduces the run
+    rng: Rng;
+
+    status: SimStatus = 'PLAYING';
+    tick = 0;
+    time = 0;
+    score = 0;
+    coins = 0;
+    wave = 1;
+
+    // Each ship has its own hull, power-ups and tally; coins, supplies and upgrades are shared
+    players: Player[];
+    // Supplies bought in the shop for this run
+    consumables: Consumables = { SMART_BOMB: 0, SHIELD_CHARGE: 0, REPAIR_KIT: 0 };
+    bullets: Projectile[] = [];
+    enemyBullets: Projectile[] = [];
+    enemies: Enemy[] = [];
+    powerups: PowerUp[] = [];
+    // Coins and crystals waiting to be collected
+    loot: Loot[] = [];
+    particles: Particle[] = [];
+    popups: Popup[] = [];
+    stars: Star[] = [];
+    boss: Boss | null = null;
+    lasers: Laser[] = [];
+    hazards: Hazard[] = [];
+    // Enemy bursts still in progress, each firing from where it started
+    salvos: { runner: PatternRunner; origin: Vec }[] = [];
+    shake = 0;
+    combo = new Combo();
+    grazes = 0;
+    // How the current wave is going, for the bonuses paid when it is cleared
+    private tally: WaveTally = emptyTally();
+
+    pools = {
+        projectiles: new Pool(() => new Projectile()),
+        particles: new Pool(() => new Particle()),
+        enemies: new Pool(() => new Enemy()),
+        loot: new Pool(() => new Loot()),
+    };
+    // Live enemies, rebuilt every tick for the player's shots to query
+    broadphase: Broadphase<Enemy> = new SpatialGrid<Enemy>(64);
+    private candidates: Enemy[] = [];
+    private nextEnemyId = 1;
+    private nextHazardId = 1;
+
+    // Base descent speed for newly spawned enemies, recomputed from difficulty every tick
+    enemySpeed = 144;
+    lastEnemySpawn = 0;
+    startTime = 0;
+    enemiesDefeated = 0;
+    shotsFired = 0;
+    shotsHit = 0;
+    // Whole-run totals for the lifetime stats; enemiesDefeated above restarts every wave
+    kills = 0;
+    bossesDefeated = 0;
+    coinsEarned = 0;
+    // Set when the last stage of a campaign falls; the run then ends as a win
+    victory = false;
+    // Seconds into the current stage, and the next group and event of its script still to come
+    stageClock = 0;
+    private nextGroup = 0;
+    private nextEvent = 0;
+
+    private listeners: Listeners = {};
+
+    constructor(options: SimulationOptions) {
+        this.upgrades = options.upgrades;
+        this.run = options.run ?? { mode: 'ENDLESS', seed: randomSeed(), difficulty: DIFFICULTY_PRESETS.NORMAL };
+        this.rng = new Rng(this.run.seed);
+        this.ship = getShip(this.run.ship);
+        this.players = this.createPlayers(options.upgrades.maxHealth);
+        this.initStars();
+        this.placePlayers();
+    }
+
+    on<K extends keyof SimEvents>(type: K, handler: (payload: SimEvents[K]) => void) {
+        const list = (this.listeners[type] ??= []) as ((payload: SimEvents[K]) => void)[];
+        list.push(handler);
+        return () => {
+            const i = list.indexOf(handler);
+            if (i >= 0) list.splice(i, 1);
+        };
+    }
+
+    private emit<K extends keyof SimEvents>(type: K, payload: SimEvents[K]) {
+        const list = this.listeners[type] as ((payload: SimEvents[K]) => void)[] | undefined;
+        list?.forEach(handler => handler(payload));
+    }
+
+    get accuracy() {
+        return this.shotsFired > 0 ? Math.round((this.shotsHit / this.shotsFired) * 100) : 0;
+    }
+
+    // Player one; the only ship outside co-op
+    get player() {
+        return this.players[0];
+    }
+
+    private createPlayers(health: number) {
+        const { w, h } = this.ship;
+        return Array.from({ length: playerCount(this.run.mode) }, (_, i) => ({ ...createPlayer(i, health), w, h }));
+    }
+
+    // Ships line up evenly along the bottom of the screen
+    private placePlayers() {
+        const { players, width, height } = this;
+        players.forEach((p, i) => {
+            p.x = p.px = (width * (i + 1)) / (players.length + 1) - p.w / 2;
+            p.y = p.py = height - 120;
+        });
+    }
+
+    private emitHealth(p: Player) {
+        this.emit('health', { player: p.index, health: p.health, max: this.upgrades.maxHealth });
+    }
+
+    private initStars() {
+        this.stars = Array.from({ length: 200 }, () => {
+            const layer = this.rng.int(3);
+            const x = this.rng.next() * this.width;
+            const y = this.rng.next() * this.height;
+            return {
+                x, y, px: x, py: y,
+                s: layer + 1,
+                sp: (layer + 1) * 42,
+                l: layer
+            };
+        });
+    }
+
+    reset(upgrades: Upgrades, run: RunConfig = { ...this.run, seed: randomSeed() }) {
+        if (run.mode === 'CAMPAIGN' && !run.stages?.length) throw new Error('A campaign run needs at least one stage');
+        this.run = run;
+        this.rng = new Rng(run.seed);
+        this.ship = getShip(run.ship);
+        this.initStars();
+        this.upgrades = upgrades;
+        this.status = 'PLAYING';
+        this.score = 0;
+        this.coins = 0;
+        this.players = this.createPlayers(upgrades.maxHealth);
+        this.placePlayers();
+        this.wave = 1;
+        this.boss = null;
+        this.lasers = [];
+        this.hazards = [];
+        this.salvos = [];
+        const { pools } = this;
+        pools.enemies.releaseAll(this.enemies);
+        pools.projectiles.releaseAll(this.bullets);
+        pools.projectiles.releaseAll(this.enemyBullets);
+        pools.particles.releaseAll(this.particles);
+        pools.loot.releaseAll(this.loot);
+        this.powerups = [];
+        this.popups = [];
+        this.nextEnemyId = 1;
+        this.nextHazardId = 1;
+        this.shake = 0;
+        this.combo = new Combo();
+        this.grazes = 0;
+        this.tally = emptyTally();
+        this.consumables = { SMART_BOMB: 0, SHIELD_CHARGE: 0, REPAIR_KIT: 0 };
+        // The clock restarts with every run so replayed timing matches bit for bit
+        this.tick = 0;
+        this.time = 0;
+        this.startTime = 0;
+        this.lastEnemySpawn = 0;
+        this.enemiesDefeated = 0;
+        this.kills = 0;
+        this.bossesDefeated = 0;
+        this.coinsEarned = 0;
+        this.shotsFired = 0;
+        this.shotsHit = 0;
+        this.victory = false;
+
+        this.emit('runStart', { run, upgrades });
+        this.emit('score', { score: 0, delta: 0 });
+        this.emitCombo();
+        this.emit('coins', { coins: 0, delta: 0 });
+        this.players.forEach(p => { this.emitHealth(p); this.emitEffects(p); });
+        this.emit('wave', { wave: 1 });
+        this.emit('bossHp', null);
+        this.emit('consumables', this.consumables);
+        this.startStage();
+    }
+
+    // Leaves the between-wave shop with fully repaired hulls and whatever was bought there.
+    // A ship that went down during the wave is back in the fight.
+    nextWave(upgrades: Upgrades = this.upgrades, consumables: Consumables = this.consumables) {
+        this.upgrades = upgrades;
+        this.consumables = { ...consumables };
+        this.status = 'PLAYING';
+        this.tally = emptyTally();
+        for (const p of this.players) {
+            p.health = upgrades.maxHealth;
+            p.downed = false;
+            p.revive = 0;
+            p.charge = 0;
+            p.jammed = 0;
+        }
+        this.emit('waveStart', { wave: this.wave, upgrades, consumables: this.consumables });
+        this.players.forEach(p => this.emitHealth(p));
+        this.emit('consumables', this.consumables);
+        this.startStage();
+    }
+
+    // The stage being flown in campaign mode, one per wave; null in the procedural modes
+    get stage(): StageFile | null {
+        return this.run.stages?.[this.wave - 1] ?? null;
+    }
+
+    private startStage() {
+        const { stage } = this;
+        this.stageClock = 0;
+        this.nextGroup = 0;
+        this.nextEvent = 0;
+        if (!stage) return;
+        this.emit('stageStart', { stage: this.wave, total: this.run.stages!.length, name: stage.name });
+        // A play-test may open partway in: everything scheduled earlier is skipped, except that
+        // the music picks up wherever the script had taken it
+        const start = this.wave === 1 ? this.run.startAt ?? 0 : 0;
+        let music = stage.music;
+        this.stageClock = start;
+        while (this.nextGroup < stage.groups.length && stage.groups[this.nextGroup].at < start) this.nextGroup++;
+        for (; this.nextEvent < stage.events.length && stage.events[this.nextEvent].at < start; this.nextEvent++) {
+            const event = stage.events[this.nextEvent];
+            if (event.type === 'MUSIC') music = event.music;
+        }
+        this.emit('music', { music });
+    }
+
+    // --- Snapshots ---
+    // See snapshot.ts. Only runs in progress can be captured; a finished run has nothing left.
+
+    snapshot(): SimSnapshot {
+        if (this.status === 'GAMEOVER') throw new Error('A finished run cannot be snapshotted');
+        const { combo } = this;
+        return {
+            run: this.run,
+            upgrades: cloneUpgrades(this.upgrades),
+            consumables: { ...this.consumables },
+            status: this.status,
+            rng: this.rng.state,
+            tick: this.tick,
+            time: this.time,
+            startTime: this.startTime,
+            lastEnemySpawn: this.lastEnemySpawn,
+            score: this.score,
+            coins: this.coins,
+            wave: this.wave,
+            shake: this.shake,
+            grazes: this.grazes,
+            combo: { chain: combo.chain, timer: combo.timer, best: combo.best },
+            tally: { ...this.tally },
+            counters: {
+                enemiesDefeated: this.enemiesDefeated, kills: this.kills, bossesDefeated: this.bossesDefeated,
+                coinsEarned: this.coinsEarned, shotsFired: this.shotsFired, shotsHit: this.shotsHit,
+                nextEnemyId: this.nextEnemyId, nextHazardId: this.nextHazardId,
+            },
+            stage: { clock: this.stageClock, nextGroup: this.nextGroup, nextEvent: this.nextEvent },
+            players: this.players.map(encodePlayer),
+            enemies: this.enemies.filter(e => !e.dead).map(encodeEnemy),
+            boss: this.boss && encodeBoss(this.boss),
+            bullets: this.bullets.filter(b => !b.dead).map(encodeProjectile),
+            enemyBullets: this.enemyBullets.filter(b => !b.dead).map(encodeProjectile),
+            powerups: this.powerups.filter(p => !p.dead).map(p => ({ ...p })),
+            loot: this.loot.filter(l => !l.dead).map(l => ({ ...l })),
+            lasers: this.lasers.map(l => ({ ...l })),
+            hazards: this.hazards.filter(h => !h.dead).map(encodeHazard),
+            salvos: this.salvos.map(({ runner, origin }) => ({ pattern: runner.name!, time: runner.time, origin: { ...origin } })),
+        };
+    }
+
+    // Picks a snapshotted run up where it left off. Nothing is replayed: the UI hears the current
+    // totals, but no runStart, so a recorder carries on with the replay it was given.
+    restore(s: SimSnapshot) {
+        this.run = s.run;
+        this.rng = new Rng(s.run.seed);
+        this.ship = getShip(s.run.ship);
+        this.initStars();
+        this.rng.state = s.rng;
+        this.upgrades = cloneUpgrades(s.upgrades);
+        this.consumables = { ...s.consumables };
+        this.status = s.status;
+        this.tick = s.tick;
+        this.time = s.time;
+        this.startTime = s.startTime;
+        this.lastEnemySpawn = s.lastEnemySpawn;
+        this.score = s.score;
+        this.coins = s.coins;
+        this.wave = s.wave;
+        this.shake = s.shake;
+        this.grazes = s.grazes;
+        this.combo = Object.assign(new Combo(), s.combo);
+        this.tally = { ...s.tally };
+        ({
+            enemiesDefeated: this.enemiesDefeated, kills: this.kills, bossesDefeated: this.bossesDefeated,
+            coinsEarned: this.coinsEarned, shotsFired: this.shotsFired, shotsHit: this.shotsHit,
+            nextEnemyId: this.nextEnemyId, nextHazardId: this.nextHazardId,
+        } = s.counters);
+        this.stageClock = s.stage.clock;
+        this.nextGroup = s.stage.nextGroup;
+        this.nextEvent = s.stage.nextEvent;
+        this.victory = false;
+
+        const { pools } = this;
+        pools.enemies.releaseAll(this.enemies);
+        pools.projectiles.releaseAll(this.bullets);
+        pools.projectiles.releaseAll(this.enemyBullets);
+        pools.particles.releaseAll(this.particles);
+        pools.loot.releaseAll(this.loot);
+        this.players = s.players.map(decodePlayer);
+        this.enemies = s.enemies.map(e => decodeEnemy(e, pools.enemies.acquire()));
+        this.boss = s.boss && decodeBoss(s.boss, this.width);
+        this.bullets = s.bullets.map(b => decodeProjectile(b, this.newProjectile()));
+        this.enemyBullets = s.enemyBullets.map(b => decodeProjectile(b, this.newProjectile()));
+        this.powerups = s.powerups.map(decodePowerUp);
+        this.loot = s.loot.map(l => decodeLoot(l, pools.loot.acquire()));
+        this.lasers = s.lasers.map(decodeLaser);
+        this.hazards = s.hazards.map(decodeHazard);
+        this.salvos = s.salvos.map(({ pattern, time, origin }) => {
+            const runner = new PatternRunner(pattern);
+            runner.time = time;
+            return { runner, origin };
+        });
+        this.popups = [];
+
+        this.emit('score', { score: this.score, delta: 0 });
+        this.emitCombo();
+        this.emit('coins', { coins: this.coins, delta: 0 });
+        this.players.forEach(p => { this.emitHealth(p); this.emitEffects(p); });
+        this.emit('wave', { wave: this.wave });
+        const { boss, stage } = this;
+        this.emit('bossHp', boss && !boss.dying ? { current: boss.hp, max: boss.maxHp, name: boss.def.name } : null);
+        this.emit('consumables', this.consumables);
+        if (stage && this.status === 'PLAYING') {
+            this.emit('stageStart', { stage: this.wave, total: this.run.stages!.length, name: stage.name });
+            // The music the script had switched to by now
+            const music = stage.events.slice(0, this.nextEvent).reduce((m, e) => e.type === 'MUSIC' ? e.music : m, stage.music);
+            this.emit('music', { music });
+        }
+    }
+
+    // Negative amounts are refunds; neither counts towards coins earned
+    spendCoins(amount: number) {
+        if (amount > 0 && this.coins < amount) return false;
+        this.emit('spend', { amount });
+        this.coins -= amount;
+        this.emit('coins', { coins: this.coins, delta: -amount });
+        return true;
+    }
+
+    refundCoins(amount: number) {
+        this.spendCoins(-amount);
+    }
+
+    // Points always go to the team; `by` also credits the ship that earned them
+    private addScore(delta: number, by?: Player) {
+        this.score += delta;
+        if (by) by.stats.score += delta;
+        this.emit('score', { score: this.score, delta });
+    }
+
+    private emitCombo() {
+        this.emit('combo', { chain: this.combo.chain, multiplier: this.combo.multiplier });
+    }
+
+    private popup(x: number, y: number, text: string, kind: PopupKind) {
+        if (this.popups.length >= MAX_POPUPS) this.popups.shift();
+        this.popups.push(new Popup(x, y, text, kind));
+    }
+
+    private addCoins(delta: number) {
+        this.coins += delta;
+        if (delta > 0) this.coinsEarned += delta;
+        this.emit('coins', { coins: this.coins, delta });
+    }
+
+    private sound(cue: SoundCue, x?: number) {
+        this.emit('sound', { cue, x });
+    }
+
+    private fire(player: Player, weapon: WeaponDef) {
+        const { upgrades } = this;
+        const cooldown = ((hasEffect(player, 'RAPID_FIRE') ? 80 : 250) / (1 + (upgrades.fireRate * 0.2))) * weapon.cooldown;
+        if (this.time - player.lastFire > cooldown) {
+            this.launch(player, weapon.fire({
+                x: player.x + 18, y: player.y, tripleShot: hasEffect(player, 'TRIPLE_SHOT'), charge: player.charge, tech: upgrades.tech,
+                projectile: this.newProjectile,
+            }));
+            player.lastFire = this.time;
+            this.sound('shoot', player.x + player.w / 2);
+        }
+    }
+
+    // Puts a ship's shots on the field and counts them towards its accuracy
+    private launch(player: Player, shots: Projectile[]) {
+        for (const s of shots) s.owner = player.index;
+        this.shotsFired += shots.length;
+        this.tally.shotsFired += shots.length;
+        player.stats.shotsFired += shots.length;
+        this.bullets.push(...shots);
+    }
+
+    // Charged weapons build up while the trigger is held and fire when it is let go
+    private updateCharge(player: Player, weapon: WeaponDef, held: boolean) {
+        if (held) {
+            player.charge = Math.min(MAX_CHARGE, player.charge + DT * (hasEffect(player, 'RAPID_FIRE') ? 2 : 1));
+            return;
+        }
+        if (player.charge >= MIN_CHARGE) this.fire(player, weapon);
+        player.charge = 0;
+    }
+
+    // Destroys every regular ship on screen, clears enemy fire, grinds rocks to dust and takes a
+    // bite out of the boss
+    private detonateBomb(player: Player, ctx: EnemyContext) {
+        if (!this.useConsumable('SMART_BOMB')) return;
+        // Shards spawned by the blasts are appended past `count` and survive
+        const { enemies } = this;
+        for (let i = 0, count = enemies.length; i < count; i++) {
+            const e = enemies[i];
+            if (!e.dead && e.y > -e.h) this.destroyEnemy(e, ctx, player);
+        }
+        this.pools.projectiles.releaseAll(this.enemyBullets);
+        this.lasers = [];
+        for (const h of this.hazards) if (h.def.breakable) h.dead = true;
+        const { boss } = this;
+        if (boss && !boss.dying) this.damageBoss(boss, boss.maxHp * 0.1, player);
+        this.shake = 30;
+        this.sound('explosion');
+    }
+
+    private useConsumable(id: keyof Consumables) {
+        if (this.consumables[id] <= 0) return false;
+        this.consumables = { ...this.consumables, [id]: this.consumables[id] - 1 };
+        this.emit('consumables', this.consumables);
+        return true;
+    }
+
+    // --- Power-ups ---
+    // See powerups.ts; the simulation only runs the hooks and keeps the books
+
+    // Whole-team effects: one ship with TIME_SLOW slows the enemy down for everyone
+    get timeScale() {
+        return this.players.some(p => !p.downed && hasEffect(p, 'TIME_SLOW')) ? TIME_SLOW_SCALE : 1;
+    }
+
+    // Points a ship earns are doubled while its SCORE_DOUBLER runs
+    private scoreFactor(player?: Player) {
+        return player && hasEffect(player, 'SCORE_DOUBLER') ? 2 : 1;
+    }
+
+    private collect(player: Player, type: PowerUpType) {
+        const def = POWERUPS[type];
+        this.sound('powerup', player.x + player.w / 2);
+        def.onPickup?.(player, this.powerUpContext());
+        if (def.duration > 0) {
+            applyEffect(player, def, this.upgrades);
+            this.emitEffects(player);
+        }
+        this.tally.pickups++;
+        this.emit('pickup', { type, player: player.index });
+    }
+
+    private updateEffects(player: Player, ctx: PowerUpContext) {
+        // Jammed power-ups neither act nor run down until the jamming wears off
+        if (player.jammed > 0) {
+            player.jammed = Math.max(0, player.jammed - DT);
+            if (player.jammed === 0) this.emitEffects(player);
+            return;
+        }
+        for (const type of POWERUP_TYPES) {
+            const effect = player.effects[type];
+            if (!effect) continue;
+            POWERUPS[type].onTick?.(player, effect, ctx);
+            effect.time -= DT;
+            if (effect.time <= 0) this.endEffect(player, type, ctx);
+        }
+    }
+
+    private endEffect(player: Player, type: PowerUpType, ctx = this.powerUpContext()) {
+        const effect = player.effects[type];
+        if (!effect) return;
+        delete player.effects[type];
+        POWERUPS[type].onExpire?.(player, effect, ctx);
+        this.emitEffects(player);
+    }
+
+    private emitEffects(player: Player) {
+        this.emit('effects', { player: player.index, active: POWERUP_TYPES.filter(t => player.effects[t]), jammed: player.jammed > 0 });
+    }
+
+    private powerUpContext(): PowerUpContext {
+        return {
+            dt: DT,
+            upgrades: this.upgrades,
+            heal: (player, amount) => {
+                player.health = Math.min(this.upgrades.maxHealth, player.health + amount);
+                this.emitHealth(player);
+            },
+            supply: id => {
+                if (this.consumables[id] >= MAX_SUPPLIES) return;
+                this.consumables = { ...this.consumables, [id]: this.consumables[id] + 1 };
+                this.emit('consumables', this.consumables);
+            },
+            attract: (player, radius, speed) => {
+                const cx = player.x + player.w / 2, cy = player.y + player.h / 2;
+                for (const list of [this.powerups, this.loot]) {
+                    for (const p of list) {
+                        const dx = cx - (p.x + p.w / 2), dy = cy - (p.y + p.h / 2);
+                        const dist = Math.sqrt(dx * dx + dy * dy);
+                        if (p.dead || dist > radius || dist < 1) continue;
+                        const step = Math.min(dist, speed * DT);
+                        p.x += (dx / dist) * step;
+                        p.y += (dy / dist) * step;
+                    }
+                }
+            },
+            shoot: (player, x, y) => {
+                const b = this.newProjectile().reset(x - 2, y, 0, -900);
+                b.power = DRONE_POWER;
+                this.launch(player, [b]);
+            },
+            spark: (x, y, color) => this.spark(x, y, color),
+        };
+    }
+
+    // --- Loot ---
+    // See loot.ts
+
+    // Runs from before loot pickups swept it all up at wave end, as does the daily challenge
+    get autoCollect() {
+        return this.run.autoCollect ?? true;
+    }
+
+    // Whether a cleared wave may end: at once with auto-collect, otherwise once nothing is left to chase
+    private get lootSettled() {
+        return this.autoCollect || this.loot.every(l => l.dead);
+    }
+
+    private dropLoot(x: number, y: number, value: number, maxPieces: number, spread: number) {
+        for (const piece of splitLoot(value, maxPieces)) {
+            const l = this.pools.loot.acquire().reset(x, y, piece.kind, piece.value, this.rng.range(-spread, spread), this.rng.range(-240, -90));
+            l.x -= l.w / 2;
+            l.y -= l.h / 2;
+            this.loot.push(l);
+        }
+    }
+
+    // Loot in a ship's collection radius heads for it; whoever touches a piece banks it for the team
+    private updateLoot() {
+        const { players, height, upgrades } = this;
+        const radius = collectRadius(upgrades);
+        for (const l of this.loot) {
+            if (l.dead) continue;
+            const x = l.x + l.w / 2, y = l.y + l.h / 2;
+            let target: Player | null = null;
+            let best = radius * radius;
+            for (const p of players) {
+                if (p.downed) continue;
+                const d = (p.x + p.w / 2 - x) ** 2 + (p.y + p.h / 2 - y) ** 2;
+                if (d <= best) { target = p; best = d; }
+            }
+            l.pulled = !!target;
+            if (target) {
+                const dx = target.x + target.w / 2 - x, dy = target.y + target.h / 2 - y;
+                const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+                l.vx = (dx / dist) * PULL_SPEED;
+                l.vy = (dy / dist) * PULL_SPEED;
+            }
+            l.update(DT);
+            if (target && boundsOverlap(l, target)) {
+                l.dead = true;
+                this.addCoins(l.value);
+                this.sound('coin', l.x);
+            } else if (l.y > height) {
+                l.dead = true;
+            }
+        }
+    }
+
+    private collectAll() {
+        const total = this.loot.reduce((sum, l) => sum + (l.dead ? 0 : l.value), 0);
+        this.pools.loot.releaseAll(this.loot);
+        if (total <= 0) return;
+        this.addCoins(total);
+        this.sound('coin');
+    }
+
+    // --- Hazards ---
+    // See hazards.ts. They run on the normal clock: TIME_SLOW holds back the enemy, not the scenery.
+
+    spawnHazard(type: HazardType, x: number) {
+        getHazard(type).arrive(x, this.hazardContext());
+    }
+
+    private hazardContext(): HazardContext {
+        return {
+            dt: DT,
+            width: this.width,
+            height: this.height,
+            rng: this.rng,
+            spawn: (type, x, y, w, h) => {
+                const hazard = new Hazard(-this.nextHazardId++, getHazard(type), x, y, w, h);
+                this.hazards.push(hazard);
+                return hazard;
+            },
+        };
+    }
+
+    // Enemy fire is bent on its own clock, `enemyDt`, which TIME_SLOW holds back
+    private updateHazards(enemyDt: number) {
+        const { hazards } = this;
+        const ctx = this.hazardContext();
+        // Fragments broken off during the loop start moving next tick
+        const count = hazards.length;
+        for (let i = 0; i < count; i++) {
+            const h = hazards[i];
+            if (h.dead) continue;
+            h.update(ctx);
+            if (h.dead || !h.armed) continue;
+            const { def } = h;
+            if (def.pull) {
+                this.bend(this.bullets, h, def.pull, DT);
+                this.bend(this.enemyBullets, h, def.pull, enemyDt);
+            }
+            if (def.jam) this.jam(h, def.jam);
+            const parts = h.parts;
+            if (!parts.length) continue;
+            this.blockShots(h, parts, ctx);
+            if (h.dead || def.damage <= 0) continue;
+            const player = parts.map(part => this.playerHit(part, h)).find(p => p);
+            if (!player) continue;
+            this.takeDamage(player, def.damage);
+            if (def.fragile) this.breakHazard(h, ctx);
+            if (this.status !== 'PLAYING') return;
+        }
+    }
+
+    // Shots that run into a part stop there; player shots wear down what can be broken
+    private blockShots(h: Hazard, parts: Shape[], ctx: HazardContext) {
+        for (const list of [this.bullets, this.enemyBullets]) {
+            for (const b of list) {
+                if (b.dead || !boundsOverlap(b, h)) continue;
+                const shape = b.shape;
+                if (!parts.some(part => overlaps(shape, part))) continue;
+                if (b.fromEnemy || !h.def.breakable) {
+                    b.dead = true;
+                    continue;
+                }
+                if (!this.strike(b, h.id)) continue;
+                h.hp -= this.upgrades.damage * b.power;
+                if (h.hp > 0) {
+                    this.sound('hit', h.x + h.w / 2);
+                    continue;
+                }
+                this.breakHazard(h, ctx, this.players[b.owner]);
+                return;
+            }
+        }
+    }
+
+    // Only a ship's shots earn the points; a rock broken by ramming it pays nothing
+    private breakHazard(h: Hazard, ctx: HazardContext, by?: Player) {
+        const x = h.x + h.w / 2, y = h.y + h.h / 2;
+        h.dead = true;
+        if (by && h.def.score) {
+            const points = h.def.score * this.scoreFactor(by);
+            this.addScore(points, by);
+            this.popup(x, y, `+${points}`, 'KILL');
+        }
+        for (let k = 0; k < 6; k++) this.spark(x, y, '#aaaaaa');
+        this.sound('explosion', x);
+        h.def.onBreak?.(h, ctx);
+    }
+
+    // Shots within reach curve towards the centre, the harder the closer they pass
+    private bend(shots: Projectile[], h: Hazard, pull: { radius: number; strength: number }, dt: number) {
+        const cx = h.x + h.w / 2, cy = h.y + h.h / 2;
+        for (const b of shots) {
+            if (b.dead) continue;
+            const dx = cx - (b.x + b.w / 2), dy = cy - (b.y + b.h / 2);
+            const d2 = dx * dx + dy * dy;
+            if (d2 > pull.radius * pull.radius || d2 < 1) continue;
+            const dist = Math.sqrt(d2);
+            const accel = (pull.strength * (1 - dist / pull.radius) * dt) / dist;
+            b.vx += dx * accel;
+            b.vy += dy * accel;
+        }
+    }
+
+    // Ships inside stay jammed for the full time after they fly clear
+    private jam(h: Hazard, jam: { radius: number; seconds: number }) {
+        const cx = h.x + h.w / 2, cy = h.y + h.h / 2;
+        for (const p of this.players) {
+            if (p.downed || (p.x + p.w / 2 - cx) ** 2 + (p.y + p.h / 2 - cy) ** 2 > jam.radius * jam.radius) continue;
+            const fresh = p.jammed <= 0;
+            p.jammed = Math.max(p.jammed, jam.seconds);
+            if (fresh) this.emitEffects(p);
+        }
+    }
+
+    private takeDamage(player: Player, amt: number) {
+        // A jammed SHIELD stays on hold and lets the hit through; a SHIELD CHARGE still works
+        const shielded = hasEffect(player, 'SHIELD');
+        if (shielded || this.useConsumable('SHIELD_CHARGE')) {
+            if (shielded) this.endEffect(player, 'SHIELD');
+            player.invul = 2 / 3;
+            this.emit('damage', { amount: amt, absorbed: true });
+            this.sound('hit', player.x + player.w / 2);
+            return;
+        }
+        amt *= this.run.difficulty.damage * (1 - (this.upgrades.tech.PLATING ?? 0) * 0.1);
+        player.health = Math.max(0, player.health - amt);
+        player.stats.damageTaken += amt;
+        this.tally.damaged = true;
+        if (this.combo.break()) this.emitCombo();
+        const max = this.upgrades.maxHealth;
+        if (player.health > 0 && player.health < max * 0.3 && this.useConsumable('REPAIR_KIT')) {
+            player.health = Math.min(max, player.health + 50);
+            this.sound('powerup', player.x + player.w / 2);
+        }
+        player.invul = 4 / 3;
+        this.shake = 25;
+        this.emit('damage', { amount: amt, absorbed: false });
+        this.emitHealth(player);
+        this.sound('hit', player.x + player.w / 2);
+        if (player.health <= 0) this.down(player);
+    }
+
+    // Grounds a ship with no hull left; the run ends once nobody is left flying
+    private down(player: Player) {
+        player.downed = true;
+        player.revive = 0;
+        player.vx = 0;
+        player.charge = 0;
+        player.effects = {};
+        player.jammed = 0;
+        this.emitEffects(player);
+        this.sound('explosion', player.x + player.w / 2);
+        this.emit('downed', { player: player.index });
+        if (this.players.some(p => !p.downed)) return;
+        this.status = 'GAMEOVER';
+        this.emit('gameOver', { score: this.score, wave: this.wave });
+    }
+
+    // Progress drains again while the partner is away
+    private updateRevives() {
+        const { players, upgrades } = this;
+        for (const p of players) {
+            if (!p.downed) continue;
+            const rescuer = players.find(o => !o.downed && Math.abs((o.x + o.w / 2) - (p.x + p.w / 2)) < REVIVE_RANGE);
+            p.revive = rescuer ? p.revive + DT : Math.max(0, p.revive - DT);
+            if (!rescuer || p.revive < REVIVE_TIME) continue;
+            p.downed = false;
+            p.revive = 0;
+            p.health = upgrades.maxHealth * REVIVE_HEALTH;
+            p.invul = 2;
+            rescuer.stats.revives++;
+            this.sound('powerup', p.x + p.w / 2);
+            this.emitHealth(p);
+            this.emit('revived', { player: p.index, by: rescuer.index });
+        }
+    }
+
+    // Seconds of play since the run started
+    get elapsed() {
+        return (this.time - this.startTime) / 1000;
+    }
+
+    // Dynamic Difficulty Scaling: Based on wave, time, and score
+    get difficulty() {
+        const { elapsed } = this;
+        const scoreFactor = this.score / 5000;
+        const timeFactor = elapsed / 180;
+        const waveFactor = (this.wave - 1) * 0.3;
+        return 1 + (waveFactor + timeFactor + scoreFactor) * this.run.difficulty.scaling;
+    }
+
+    // Takes one snapshot per ship; missing ones leave that ship idle
+    step(...inputs: InputSnapshot[]) {
+        if (this.status !== 'PLAYING') return;
+        inputs = this.players.map((_, i) => inputs[i] ?? IDLE);
+        this.emit('tick', { tick: this.tick, inputs });
+        this.tick++;
+        this.time += TICK_MS;
+        this.savePositions();
+        this.update(inputs);
+        // Runs even when the tick ended the game early, so no dead entity is ever drawn
+        this.sweep();
+    }
+
+    private update(inputs: InputSnapshot[]) {
+        const { players, enemies, bullets, particles, stars, enemyBullets, powerups, upgrades, width, height } = this;
+
+        const diffMult = this.difficulty;
+        this.enemySpeed = 144 * diffMult;
+        const ctx = this.enemyContext(diffMult);
+        const effects = this.powerUpContext();
+
+        // Handle Input
+        const accel = (1.8 + (upgrades.speed * 0.3)) * this.ship.speed * 3600 * DT;
+        const weapon = getWeapon(upgrades.weapon);
+        for (const player of players) {
+            const input = inputs[player.index];
+            if (player.downed) continue;
+            player.vx += accel * quantizeMove(input.move);
+            if (weapon.charged) this.updateCharge(player, weapon, input.fire);
+            else if (input.fire) this.fire(player, weapon);
+            if (input.bomb && !player.bombHeld) this.detonateBomb(player, ctx);
+            player.bombHeld = input.bomb;
+        }
+        const spawnRate = Math.max(200, 1800 / diffMult) / this.run.difficulty.spawnRate;
+        const { stage } = this;
+
+        if (!stage && this.enemiesDefeated >= this.wave * 15 && !this.boss) this.spawnBoss(bossForWave(this.wave));
+
+        for (const player of players) {
+            if (player.downed) continue;
+            player.vx *= decay(0.86);
+            player.x += player.vx * DT;
+            player.x = Math.max(0, Math.min(width - player.w, player.x));
+            player.invul = Math.max(0, player.invul - DT);
+            this.updateEffects(player, effects);
+        }
+        if (players.length > 1) this.updateRevives();
+
+        stars.forEach(s => { s.y += s.sp * DT; if (s.y > height) s.y = s.py = 0; });
+
+        for (const b of bullets) {
+            if (b.homing) this.steer(b);
+            b.update(DT);
+            if (b.y < -50 || b.x < -50 || b.x > width + 50) b.dead = true;
+        }
+
+        for (const b of enemyBullets) {
+            if (b.dead) continue;
+            b.update(ctx.dt);
+            if (b.y > height + 50 || b.y < -250 || b.x < -250 || b.x > width + 250) {
+                b.dead = true;
+                continue;
+            }
+            const player = this.playerHit(b.shape, b);
+            if (player) {
+                this.takeDamage(player, 15);
+                b.dead = true;
+                if (this.status !== 'PLAYING') return;
+            } else if (!b.grazed) {
+                this.graze(b);
+            }
+        }
+
+        for (const p of powerups) {
+            p.update(DT);
+            if (p.y > height) {
+                p.dead = true;
+                continue;
+            }
+            // Pickups ignore invulnerability; whoever touches one first gets it
+            const player = players.find(s => !s.downed && boundsOverlap(p, s) && overlaps(p.shape, playerShape(s)));
+            if (player) {
+                p.dead = true;
+                this.collect(player, p.type);
+            }
+        }
+
+        this.updateLoot();
+
+        if (stage) {
+            this.updateStage(stage, ctx);
+            if (this.status !== 'PLAYING') return;
+        } else if (!this.boss && this.time - this.lastEnemySpawn > spawnRate) {
+            // Now and then a hazard takes the slot, though never while one of its kind is still out
+            const chance = hazardChance(this.wave);
+            const hazard = chance > 0 && this.rng.next() < chance ? pickHazard(this.wave, this.rng) : null;
+            if (hazard && !this.hazards.some(h => h.type === hazard.id)) {
+                this.spawnHazard(hazard.id, this.rng.next());
+            } else {
+                const archetype = pickArchetype(this.wave, this.rng);
+                this.spawnEnemy(archetype.id, this.rng.next() * (width - archetype.stats.w), -50, ctx);
+            }
+            this.lastEnemySpawn = this.time;
+        }
+
+        if (this.boss) {
+            this.updateBoss(this.boss, diffMult);
+            if (this.status !== 'PLAYING') return;
+        }
+        if (this.lasers.length) {
+            this.updateLasers(ctx.dt);
+            if (this.status !== 'PLAYING') return;
+        }
+
+        this.updateSalvos(ctx.dt);
+
+        // Ships spawned during the loop (splitter shards) start moving next tick
+        const count = enemies.length;
+        for (let i = 0; i < count; i++) {
+            const e = enemies[i];
+            if (e.dead) continue;
+            e.update(ctx);
+            if (!e.entry) e.archetype.fire?.(e, ctx);
+            if (e.y > height + 60) e.dead = true;
+        }
+
+        if (this.hazards.length) {
+            this.updateHazards(ctx.dt);
+            if (this.status !== 'PLAYING') return;
+        }
+
+        this.collideShots(ctx, count);
+
+        for (let i = 0; i < count; i++) {
+            const e = enemies[i];
+            if (e.dead) continue;
+            const player = this.playerHit(e.shape, e);
+            if (player) {
+                e.dead = true;
+                this.takeDamage(player, e.archetype.stats.contactDamage);
+                if (this.status !== 'PLAYING') return;
+            }
+        }
+
+        for (const p of particles) p.update(DT);
+        for (const p of this.popups) p.update(DT);
+        if (this.combo.update(DT)) this.emitCombo();
+        if (this.shake > 0) this.shake *= decay(0.92);
+    }
+
+    // Boss HP scales with wave, time, and score
+    private spawnBoss(def: BossDefinition) {
+        const baseBossHP = 150 + (this.wave * 100);
+        const bossHP = Math.floor(baseBossHP * def.hpScale * (1 + (this.elapsed / 300) + (this.score / 10000)));
+        this.boss = new Boss(def, this.width, bossHP);
+        this.emit('bossSpawn', { hp: bossHP, name: def.name });
+        this.emit('bossHp', { current: bossHP, max: bossHP, name: def.name });
+    }
+
+    // Plays the stage script. Custom difficulty speeds the stage clock up or down, the same way
+    // it scales the procedural spawn rate.
+    private updateStage(stage: StageFile, ctx: EnemyContext) {
+        const { groups, events } = stage;
+        this.stageClock += DT * this.run.difficulty.spawnRate;
+        while (this.nextGroup < groups.length && groups[this.nextGroup].at <= this.stageClock) this.spawnGroup(groups[this.nextGroup++], ctx);
+        while (this.nextEvent < events.length && events[this.nextEvent].at <= this.stageClock) this.runEvent(events[this.nextEvent++]);
+        // Once the last group is in and the field is empty, out comes the boss or the stage ends
+        if (this.nextGroup < groups.length || this.boss || this.enemies.some(e => !e.dead)) return;
+        if (stage.boss) this.spawnBoss(BOSS_ROSTER.find(b => b.id === stage.boss)!);
+        else if (this.lootSettled) this.clearWave();
+    }
+
+    spawnGroup(group: SpawnGroup, ctx = this.enemyContext(this.difficulty)) {
+        const { width, height } = this;
+        const x = group.x * width;
+        const path = group.path ? ENTRY_PATHS[group.path] : null;
+        const offsets = formationOffsets(group.formation, group.count, group.spacing);
+        // Without a path the whole formation starts just above the screen
+        const top = -60 - Math.max(...offsets.map(o => o.y));
+        const { stats } = getArchetype(group.enemy);
+        for (const offset of offsets) {
+            this.spawnEnemy(group.enemy, x + offset.x - stats.w / 2, top + offset.y, ctx, e => {
+                if (path) e.enter(path, x, offset, width, height);
+            });
+        }
+    }
+
+    private runEvent(event: StageEvent) {
+        if (event.type === 'MESSAGE') this.emit('message', { text: event.text });
+        else if (event.type === 'MUSIC') this.emit('music', { music: event.music });
+        else if (event.type === 'HAZARD') this.spawnHazard(event.hazard, event.x);
+        else this.powerups.push(new PowerUp(event.x * (this.width - 30), -30, event.powerup));
+    }
+
+    // The first ship flying, and not invulnerable, that `shape` touches; `bounds` is its footprint
+    // when there is one for a quick rejection
+    private playerHit(shape: Shape, bounds?: Bounds) {
+        for (const p of this.players) {
+            if (p.downed || p.invul > 0 || (bounds && !boundsOverlap(bounds, p))) continue;
+            if (overlaps(shape, playerShape(p))) return p;
+        }
+        return null;
+    }
+
+    // Player shots against the first `count` enemies, through the broadphase
+    private collideShots(ctx: EnemyContext, count: number) {
+        const { enemies, bullets, broadphase, candidates, upgrades } = this;
+        broadphase.clear();
+        for (let i = 0; i < count; i++) {
+            if (!enemies[i].dead) broadphase.insert(enemies[i], enemies[i]);
+        }
+        for (const b of bullets) {
+            if (b.dead) continue;
+            for (const e of broadphase.query(b, candidates)) {
+                if (e.dead || !overlaps(b.shape, e.shape) || !this.strike(b, e.id)) continue;
+                e.hp -= upgrades.damage * b.power;
+                if (e.hp <= 0) this.destroyEnemy(e, ctx, this.players[b.owner]);
+                else this.sound('hit', e.x + e.w / 2);
+                if (b.dead) break;
+            }
+        }
+    }
+
+    private sweep() {
+        const { pools } = this;
+        sweep(this.bullets, b => b.dead, pools.projectiles);
+        sweep(this.enemyBullets, b => b.dead, pools.projectiles);
+        sweep(this.enemies, e => e.dead, pools.enemies);
+        sweep(this.particles, p => p.life <= 0, pools.particles);
+        sweep(this.powerups, p => p.dead);
+        sweep(this.hazards, h => h.dead);
+        sweep(this.loot, l => l.dead, pools.loot);
+        sweep(this.popups, p => p.life <= 0);
+    }
+
+    private savePositions() {
+        const { boss } = this;
+        for (const p of this.players) { p.px = p.x; p.py = p.y; }
+        for (const list of [this.bullets, this.enemyBullets, this.enemies, this.hazards, this.powerups, this.loot, this.particles, this.popups]) {
+            for (const e of list) { e.px = e.x; e.py = e.y; }
+        }
+        this.stars.forEach(s => { s.px = s.x; s.py = s.y; });
+        if (boss) { boss.px = boss.x; boss.py = boss.y; }
+    }
+
+    // Enemies, bosses and their fire all run on this clock, which TIME_SLOW holds back
+    private enemyContext(difficulty: number): EnemyContext {
+        const dt = DT * this.timeScale;
+        return {
+            dt,
+            width: this.width,
+            height: this.height,
+            difficulty,
+            wave: this.wave,
+            target: from => this.nearestPlayer(from),
+            rng: this.rng,
+            fire: (pattern, origin) => {
+                const runner = new PatternRunner(pattern);
+                this.emitShots(runner.update(dt, origin, this.aimPoint(origin)));
+                if (!runner.done) this.salvos.push({ runner, origin });
+            },
+            spawn: (type, x, y, init) => this.spawnEnemy(type, x, y, this.enemyContext(difficulty), init),
+        };
+    }
+
+    spawnEnemy(type: EnemyType, x: number, y: number, ctx = this.enemyContext(this.difficulty), init?: (e: Enemy) => void) {
+        const archetype = getArchetype(type);
+        const e = this.pools.enemies.acquire().reset(this.nextEnemyId++, archetype, x, y, this.enemySpeed);
+        archetype.init?.(e, ctx);
+        init?.(e);
+        this.enemies.push(e);
+        return e;
+    }
+
+    private destroyEnemy(e: Enemy, ctx: EnemyContext, killer?: Player) {
+        const { reward } = e.archetype;
+        e.dead = true;
+        this.enemiesDefeated++;
+        this.kills++;
+        if (killer) killer.stats.kills++;
+        this.emit('kill', { type: e.type, player: killer?.index });
+        // The kill counts towards the chain before its points are multiplied
+        this.combo.kill();
+        const points = reward.score * this.combo.multiplier * this.scoreFactor(killer);
+        this.addScore(points, killer);
+        this.emitCombo();
+        this.popup(e.x + e.w / 2, e.y + e.h / 2, `+${points}`, 'KILL');
+        const coins = Math.round(reward.coins * (1 + (this.upgrades.tech.SALVAGE ?? 0) * 0.15));
+        this.dropLoot(e.x + e.w / 2, e.y + e.h / 2, coins + (this.rng.next() < CRYSTAL_CHANCE ? CRYSTAL_VALUE : 0), ENEMY_PIECES, 120);
+        for (let k = 0; k < 10; k++) this.spark(e.x + e.w / 2, e.y + e.h / 2, `hsl(${e.hue}, 100%, 50%)`);
+        this.sound('explosion', e.x + e.w / 2);
+        e.archetype.onDeath?.(e, ctx);
+        const drop = rollDrop(e.archetype.drops ?? DEFAULT_DROPS, this.rng);
+        if (drop) this.powerups.push(new PowerUp(e.x, e.y, drop));
+    }
+
+    private bossContext(boss: Boss, difficulty: number): BossContext {
+        return {
+            dt: DT * this.timeScale,
+            width: this.width,
+            height: this.height,
+            difficulty,
+            player: this.nearestPlayer({ x: boss.x + boss.width / 2, y: boss.y + boss.height / 2 }),
+            rng: this.rng,
+            emit: shots => this.emitShots(shots),
+        };
+    }
+
+    private newProjectile = () => this.pools.projectiles.acquire();
+
+    private spark(x: number, y: number, color: string) {
+        this.particles.push(this.pools.particles.acquire().reset(x, y, color, this.rng.next));
+    }
+
+    // Enemies only go after ships still flying; ties go to player one
+    nearestPlayer(from: Vec) {
+        let best = this.players[0];
+        let bestDist = Infinity;
+        for (const p of this.players) {
+            if (p.downed) continue;
+            const d = (p.x + p.w / 2 - from.x) ** 2 + (p.y + p.h / 2 - from.y) ** 2;
+            if (d < bestDist) { best = p; bestDist = d; }
+        }
+        return best;
+    }
+
+    private aimPoint(from: Vec): Vec {
+        const player = this.nearestPlayer(from);
+        return { x: player.x + player.w / 2, y: player.y + player.h / 2 };
+    }
+
+    emitShots(shots: BulletSpec[]) {
+        for (const s of shots) {
+            if (s.beam) this.lasers.push(new Laser(s.x - s.beam.width / 2, s.y, s.beam.width, s.beam.telegraph, s.beam.duration));
+            else this.enemyBullets.push(this.newProjectile().reset(s.x, s.y, s.vx, s.vy, true, s.motion));
+        }
+    }
+
+    private updateSalvos(dt: number) {
+        const { salvos } = this;
+        for (let i = salvos.length - 1; i >= 0; i--) {
+            const { runner, origin } = salvos[i];
+            this.emitShots(runner.update(dt, origin, this.aimPoint(origin)));
+            if (runner.done) salvos.splice(i, 1);
+        }
+    }
+
+    // Enemy fire skimming past a ship that could have been hit by it
+    private graze(b: Projectile) {
+        const x = b.x + b.w / 2, y = b.y + b.h / 2;
+        for (const p of this.players) {
+            if (p.downed || p.invul > 0) continue;
+            if ((p.x + p.w / 2 - x) ** 2 + (p.y + p.h / 2 - y) ** 2 > GRAZE_RADIUS * GRAZE_RADIUS) continue;
+            b.grazed = true;
+            const points = GRAZE_SCORE * this.combo.multiplier * this.scoreFactor(p);
+            this.grazes++;
+            p.stats.grazes++;
+            this.emit('graze', { player: p.index });
+            this.addScore(points, p);
+            this.popup(x, y, `+${points}`, 'GRAZE');
+            return;
+        }
+    }
+
+    // Counts a hit of `b` on the target with this id, once per target; spent bullets die
+    private strike(b: Projectile, target: number) {
+        if (b.hits.includes(target)) return false;
+        if (b.hits.length === 0) {
+            this.shotsHit++;
+            this.tally.shotsHit++;
+            this.players[b.owner].stats.shotsHit++;
+        }
+        b.hits.push(target);
+        if (b.pierce-- <= 0) b.dead = true;
+        return true;
+    }
+
+    // Missiles turn towards the closest ship, or the boss's first exposed part
+    private steer(b: Projectile) {
+        const targets = this.enemies.filter(e => !e.dead).map(e => ({ x: e.x + e.w / 2, y: e.y + e.h / 2 }));
+        const { boss } = this;
+        if (boss && !boss.dying) {
+            const h = boss.phase.hitboxes[0] ?? { x: 0, y: 0, w: boss.width, h: boss.height };
+            targets.push({ x: boss.x + h.x + h.w / 2, y: boss.y + h.y + h.h / 2 });
+        }
+        let best: { x: number; y: number } | null = null;
+        let bestDist = Infinity;
+        for (const t of targets) {
+            const d = (t.x - b.x) ** 2 + (t.y - b.y) ** 2;
+            if (t.y < b.y && d < bestDist) { best = t; bestDist = d; }
+        }
+        if (!best) return;
+        const speed = Math.sqrt(b.vx * b.vx + b.vy * b.vy);
+        const heading = Math.atan2(b.vy, b.vx);
+        let turn = Math.atan2(best.y - b.y, best.x - b.x) - heading;
+        turn = Math.atan2(Math.sin(turn), Math.cos(turn));
+        const a = heading + Math.max(-5 * DT, Math.min(5 * DT, turn));
+        b.vx = Math.cos(a) * speed;
+        b.vy = Math.sin(a) * speed;
+    }
+
+    private damageBoss(boss: Boss, amount: number, by: Player) {
+        boss.hp -= amount;
+        boss.lastHitBy = by.index;
+        this.emit('bossHp', { current: Math.max(0, Math.ceil(boss.hp)), max: boss.maxHp, name: boss.def.name });
+        if (boss.hp > 0) return;
+        boss.hp = 0;
+        boss.startDying();
+        // The payout scatters while the wreck burns, so there is time to collect it
+        this.dropLoot(boss.x + boss.width / 2, boss.y + boss.height / 2, boss.def.reward.coins, BOSS_PIECES, 320);
+        this.bossesDefeated++;
+        this.lasers = [];
+        this.shake = 30;
+        this.sound('explosion', boss.x + boss.width / 2);
+        this.emit('bossDeath', { wave: this.wave });
+    }
+
+    private updateBoss(boss: Boss, difficulty: number) {
+        const { bullets, upgrades } = this;
+        boss.update(this.bossContext(boss, difficulty));
+        if (!boss.dying) {
+            for (const b of bullets) {
+                const x = b.x + b.w / 2;
+                if (b.dead || !boss.contains(x, b.y)) continue;
+                // Only the phase's exposed hitboxes take damage; the rest of the hull soaks the shot
+                if (!boss.isVulnerableAt(x, b.y)) {
+                    if (!boss.isArmouredAt(x, b.y)) continue;
+                    b.dead = true;
+                    this.spark(x, b.y, '#ffffff');
+                    continue;
+                }
+                if (!this.strike(b, BOSS_ID)) continue;
+                this.damageBoss(boss, upgrades.damage * b.power, this.players[b.owner]);
+                if (boss.dying) break;
+            }
+            const player = boss.dying ? null : this.playerHit(boss.shape);
+            if (player) this.takeDamage(player, boss.def.contactDamage);
+        } else {
+            boss.shotTimer -= DT;
+            if (boss.shotTimer <= 0) {
+                boss.shotTimer += 1 / 12;
+                const x = boss.x + this.rng.next() * boss.width;
+                this.spark(x, boss.y + this.rng.next() * boss.height, '#ff00ea');
+                if (Math.round(boss.deathTimer * 12) % 3 === 0) this.sound('explosion', x);
+            }
+            if (boss.deathTimer > 3 && this.lootSettled) {
+                const { reward } = boss.def;
+                this.addScore(reward.score, this.players[boss.lastHitBy]);
+                this.popup(boss.x + boss.width / 2, boss.y + boss.height / 2, `+${reward.score}`, 'BONUS');
+                this.clearWave();
+            }
+        }
+    }
+
+    // Off to the shop; clearing the last stage of a campaign wins the run instead
+    private clearWave() {
+        if (this.autoCollect) this.collectAll();
+        const cleared = this.wave;
+        const bonuses = waveBonuses(cleared, this.tally);
+        bonuses.forEach(b => this.addScore(b.points));
+        this.emit('waveBonus', { wave: cleared, tally: { ...this.tally }, bonuses });
+        if (this.combo.break()) this.emitCombo();
+        this.wave++;
+        this.enemiesDefeated = 0;
+        this.boss = null;
+        this.hazards = [];
+        this.emit('bossHp', null);
+        if (this.run.mode === 'CAMPAIGN' && !this.stage) {
+            this.victory = true;
+            this.status = 'GAMEOVER';
+            this.emit('gameOver', { score: this.score, wave: this.wave });
+            return;
+        }
+        this.status = 'WAVE_CLEAR';
+        this.emit('wave', { wave: this.wave });
+        this.emit('waveClear', { wave: cleared });
+    }
+
+    private updateLasers(dt: number) {
+        const { lasers, height } = this;
+        for (let i = lasers.length - 1; i >= 0; i--) {
+            const l = lasers[i];
+            l.update(dt);
+            if (l.done) {
+                lasers.splice(i, 1);
+                continue;
+            }
+            if (!l.active) continue;
+            const player = this.playerHit(l.shape(height));
+            if (player) {
+                this.takeDamage(player, 20);
+                if (this.status !== 'PLAYING') return;
+            }
+        }
+    }
+}
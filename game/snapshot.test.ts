@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { DEFAULT_UPGRADES, GameSimulation, SIMULATION_VERSION, cloneUpgrades } from './simulation';
+import { SAVED_RUN_KEY, SAVED_RUN_VERSION, SavedRun, loadRun, saveRun } from './snapshot';
+import { MemoryStorage } from './storage';
+import { InputSnapshot } from './types';
+
+// A hull nothing gets through and a gun that clears the screen, so the run lasts and drops loot
+const UPGRADES = { ...cloneUpgrades(DEFAULT_UPGRADES), damage: 8, maxHealth: 5000 };
+
+const newSim = () => new GameSimulation({ upgrades: cloneUpgrades(UPGRADES) });
+
+// Sweeps side to side with the trigger held, the same on every run
+const input = (tick: number): InputSnapshot => ({ move: Math.sin(tick / 40), fire: tick % 90 < 70, bomb: false });
+
+const play = (sim: GameSimulation, ticks: number) => {
+    for (let i = 0; i < ticks && sim.status !== 'GAMEOVER'; i++) {
+        if (sim.status === 'WAVE_CLEAR') sim.nextWave(cloneUpgrades(sim.upgrades), { ...sim.consumables });
+        sim.step(input(sim.tick));
+    }
+};
+
+// Mid-wave with a boss firing, hazards on the field and loot still to collect
+const busySim = () => {
+    const sim = newSim();
+    sim.reset(cloneUpgrades(UPGRADES), { mode: 'ENDLESS', seed: 99, difficulty: DIFFICULTY_PRESETS.NORMAL });
+    play(sim, 600);
+    sim.enemiesDefeated = sim.wave * 15;
+    sim.spawnHazard('ASTEROID', 0.3);
+    sim.spawnHazard('GRAVITY_WELL', 0.7);
+    // Turrets fire in bursts, which leaves salvos part way through; holding fire keeps them alive
+    sim.spawnEnemy('TURRET', 100, 0);
+    sim.spawnEnemy('TURRET', sim.width - 150, 0);
+    for (let i = 0; i < 600 && !(sim.boss && sim.salvos.length && sim.loot.length && sim.hazards.length); i++) sim.step();
+    return sim;
+};
+
+const summary = (sim: GameSimulation) => ({ score: sim.score, tick: sim.tick, wave: sim.wave, rng: sim.rng.state });
+
+const savedRun = (sim: GameSimulation): SavedRun => ({
+    version: SAVED_RUN_VERSION,
+    simVersion: SIMULATION_VERSION,
+    savedAt: new Date(0).toISOString(),
+    sim: sim.snapshot(),
+    shop: null,
+    replay: null,
+});
+
+describe('snapshot', () => {
+    it('restores a busy run that then plays on exactly like the original', () => {
+        const a = busySim();
+        expect(a.boss).not.toBeNull();
+        expect(a.salvos.length).toBeGreaterThan(0);
+        expect(a.hazards.length).toBeGreaterThan(0);
+        expect(a.loot.length).toBeGreaterThan(0);
+
+        const b = newSim();
+        b.restore(JSON.parse(JSON.stringify(a.snapshot())));
+        expect(summary(b)).toEqual(summary(a));
+
+        play(a, 1800);
+        play(b, 1800);
+        expect(summary(b)).toEqual(summary(a));
+        expect(JSON.stringify(b.snapshot())).toBe(JSON.stringify(a.snapshot()));
+    });
+});
+
+describe('loadRun', () => {
+    it('reads back a saved run', () => {
+        const storage = new MemoryStorage();
+        const run = savedRun(busySim());
+        saveRun(storage, run);
+        expect(loadRun(storage, SIMULATION_VERSION)).toEqual(JSON.parse(JSON.stringify(run)));
+    });
+
+    it('is empty when nothing was saved', () => {
+        expect(loadRun(new MemoryStorage(), SIMULATION_VERSION)).toBeNull();
+    });
+
+    it('rejects a run saved by another build', () => {
+        const storage = new MemoryStorage();
+        saveRun(storage, { ...savedRun(newSim()), version: SAVED_RUN_VERSION + 1 });
+        expect(loadRun(storage, SIMULATION_VERSION)).toBeNull();
+    });
+
+    it('rejects a run saved under other rules', () => {
+        const storage = new MemoryStorage();
+        saveRun(storage, savedRun(newSim()));
+        expect(loadRun(storage, SIMULATION_VERSION + 1)).toBeNull();
+    });
+
+    it('rejects a run missing what the menu shows or restore reads', () => {
+        const storage = new MemoryStorage();
+        const run = savedRun(newSim());
+        const broken = [
+            { ...run.sim, run: { ...run.sim.run, mode: 'ARCADE' } },
+            { ...run.sim, run: { ...run.sim.run, difficulty: null } },
+            { ...run.sim, run: { ...run.sim.run, mode: 'DAILY' } },
+            { ...run.sim, wave: '3' },
+            { ...run.sim, score: undefined },
+            { ...run.sim, tick: null },
+        ];
+        for (const sim of broken) {
+            storage.write(SAVED_RUN_KEY, JSON.stringify({ ...run, sim }));
+            expect(loadRun(storage, SIMULATION_VERSION)).toBeNull();
+        }
+    });
+
+    it('rejects garbage', () => {
+        const storage = new MemoryStorage();
+        for (const raw of ['{"version":', 'not json', '42', '{}', JSON.stringify({ version: SAVED_RUN_VERSION, simVersion: SIMULATION_VERSION })]) {
+            storage.write(SAVED_RUN_KEY, raw);
+            expect(loadRun(storage, SIMULATION_VERSION)).toBeNull();
+        }
+    });
+});
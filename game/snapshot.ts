@@ -0,0 +1,182 @@
+import { BOSS_ROSTER } from './bosses';
+import { isDifficulty } from './difficulty';
+import { getArchetype } from './enemies';
+import { Boss, Enemy, Hazard, Laser, Loot, Player, PowerUp, Projectile, createPlayer } from './entities';
+import { getHazard } from './hazards';
+import { isObject, isOneOf } from './json';
+import { PatternRunner, Vec } from './patterns';
+import type { ReplayFile } from './replay';
+import { WaveBonus, WaveTally } from './scoring';
+import type { SimStatus } from './simulation';
+import { ENTRY_PATHS, EntryPathId } from './stages';
+import { StorageBackend } from './storage';
+import { Consumables, RunConfig, Upgrades } from './types';
+
+// --- Run Snapshots ---
+// A snapshot is a run in progress as plain JSON: the simulation's counters and clocks, the RNG
+// state and every live ship, enemy, boss, shot, pick-up, beam and hazard. A restored run carries on
+// exactly as the original would have. Sparks, popups and stars are only for show and are left
+// out. Registry entries (archetypes, bosses, entry paths, patterns, hazards) are stored by id.
+
+// The stored fields of an entity: methods go, and so do getters (`Derived`) and registry references
+type Fields<T, Derived extends keyof T = never> = Omit<{ [K in keyof T as T[K] extends Function ? never : K]: T[K] }, Derived>;
+
+export type EnemyData = Fields<Enemy, 'archetype' | 'entry' | 'shape'> & { entry: EntryPathId | null };
+export type BossData = Fields<Boss, 'def' | 'weapons' | 'phase' | 'state' | 'shape'> & { def: string; weapons: number[] };
+export type ProjectileData = Fields<Projectile, 'shape'>;
+export type PowerUpData = Fields<PowerUp, 'shape'>;
+export type LootData = Fields<Loot>;
+export type LaserData = Fields<Laser, 'active' | 'done'>;
+export type HazardData = Fields<Hazard, 'def' | 'armed' | 'parts'>;
+
+export interface SimSnapshot {
+    run: RunConfig;
+    upgrades: Upgrades;
+    consumables: Consumables;
+    // Runs are only saved mid-wave or between waves; a finished run has nothing to resume
+    status: Exclude<SimStatus, 'GAMEOVER'>;
+    rng: number;
+    tick: number;
+    time: number;
+    startTime: number;
+    lastEnemySpawn: number;
+    score: number;
+    coins: number;
+    wave: number;
+    shake: number;
+    grazes: number;
+    combo: { chain: number; timer: number; best: number };
+    tally: WaveTally;
+    counters: {
+        enemiesDefeated: number; kills: number; bossesDefeated: number; coinsEarned: number;
+        shotsFired: number; shotsHit: number; nextEnemyId: number; nextHazardId: number;
+    };
+    stage: { clock: number; nextGroup: number; nextEvent: number };
+    players: Player[];
+    enemies: EnemyData[];
+    boss: BossData | null;
+    bullets: ProjectileData[];
+    enemyBullets: ProjectileData[];
+    powerups: PowerUpData[];
+    loot: LootData[];
+    lasers: LaserData[];
+    hazards: HazardData[];
+    salvos: { pattern: string; time: number; origin: Vec }[];
+}
+
+// --- Entities ---
+
+// JSON has no -Infinity, which is how a ship that never fired is marked
+const NEVER_FIRED = -1e9;
+
+const copyEffects = (effects: Player['effects']) =>
+    Object.fromEntries(Object.entries(effects).map(([type, e]) => [type, { ...e }])) as Player['effects'];
+
+export const encodePlayer = (p: Player): Player =>
+    ({ ...p, lastFire: Number.isFinite(p.lastFire) ? p.lastFire : NEVER_FIRED, effects: copyEffects(p.effects), stats: { ...p.stats } });
+
+export const decodePlayer = (data: Player): Player => ({
+    ...createPlayer(data.index, data.health),
+    ...data,
+    lastFire: data.lastFire <= NEVER_FIRED ? -Infinity : data.lastFire,
+    effects: copyEffects(data.effects ?? {}),
+    stats: { ...data.stats },
+});
+
+export const encodeEnemy = (e: Enemy): EnemyData => {
+    const { archetype, entry, ...data } = e;
+    return { ...data, entryOffset: { ...e.entryOffset }, entry: entry ? entry.id : null };
+};
+
+// Fills a recycled enemy from the pool
+export const decodeEnemy = (data: EnemyData, e: Enemy): Enemy => {
+    e.reset(data.id, getArchetype(data.type), data.x, data.y, 0);
+    Object.assign(e, data, { entry: data.entry ? ENTRY_PATHS[data.entry] : null, entryOffset: { ...data.entryOffset } });
+    return e;
+};
+
+export const encodeBoss = (boss: Boss): BossData => {
+    const { def, weapons, ...data } = boss;
+    return { ...data, triggered: [...boss.triggered], def: def.id, weapons: weapons.map(w => w.time) };
+};
+
+export const decodeBoss = (data: BossData, width: number): Boss => {
+    const def = BOSS_ROSTER.find(b => b.id === data.def);
+    if (!def) throw new Error(`Snapshot has an unknown boss "${data.def}"`);
+    const boss = new Boss(def, width, data.maxHp);
+    const { def: _, weapons, ...rest } = data;
+    Object.assign(boss, rest, { triggered: [...data.triggered] });
+    boss.weapons = boss.phase.attacks.map((a, i) => {
+        const runner = new PatternRunner(a.pattern);
+        runner.time = weapons[i] ?? 0;
+        return runner;
+    });
+    return boss;
+};
+
+export const encodeProjectile = (b: Projectile): ProjectileData => ({ ...b, hits: [...b.hits] });
+
+export const decodeProjectile = (data: ProjectileData, b: Projectile): Projectile => {
+    b.reset(data.x, data.y, data.vx, data.vy, data.fromEnemy, data.motion);
+    Object.assign(b, data, { hits: [...data.hits] });
+    return b;
+};
+
+export const decodePowerUp = (data: PowerUpData) => Object.assign(new PowerUp(data.x, data.y, data.type), data);
+
+export const decodeLoot = (data: LootData, l: Loot) => Object.assign(l, data);
+
+export const decodeLaser = (data: LaserData) => Object.assign(new Laser(data.x, data.y, data.w, data.telegraph, data.duration), data);
+
+export const encodeHazard = (h: Hazard): HazardData => {
+    const { def, ...data } = h;
+    return data;
+};
+
+export const decodeHazard = (data: HazardData) => Object.assign(new Hazard(data.id, getHazard(data.type), data.x, data.y, data.w, data.h), data);
+
+// --- Saved runs ---
+// The UI keeps the latest snapshot in storage so a run survives a reload, together with the
+// shop visit in progress and the replay recorded so far. Anything saved by a different build
+// or under different rules is thrown away rather than restored.
+
+export const SAVED_RUN_KEY = 'galaxy-defender-run';
+export const SAVED_RUN_VERSION = 1;
+
+export interface SavedRun {
+    version: number;
+    // Rules revision the snapshot was taken under
+    simVersion: number;
+    savedAt: string;
+    sim: SimSnapshot;
+    // Purchases made so far in a shop visit that was still open, and the bonuses it announced
+    shop: { upgrades: Upgrades; consumables: Consumables; bonuses: WaveBonus[] } | null;
+    replay: ReplayFile | null;
+}
+
+export const saveRun = (storage: StorageBackend, run: SavedRun) => {
+    storage.write(SAVED_RUN_KEY, JSON.stringify(run));
+};
+
+export const clearRun = (storage: StorageBackend) => {
+    storage.remove(SAVED_RUN_KEY);
+};
+
+// Checks what the START screen shows and what restore needs before anything else is read
+const isSavedRun = (data: unknown, simVersion: number): data is SavedRun => {
+    if (!isObject(data) || data.version !== SAVED_RUN_VERSION || data.simVersion !== simVersion) return false;
+    const { sim } = data;
+    if (!isObject(sim) || !Array.isArray(sim.players) || !['wave', 'score', 'tick'].every(k => typeof sim[k] === 'number')) return false;
+    const { run } = sim;
+    return isObject(run) && typeof run.seed === 'number' && isOneOf(run.mode, ['ENDLESS', 'DAILY', 'COOP', 'CAMPAIGN']) &&
+        isDifficulty(run.difficulty) && (run.mode !== 'DAILY' || typeof run.day === 'string');
+};
+
+export const loadRun = (storage: StorageBackend, simVersion: number): SavedRun | null => {
+    try {
+        const data: unknown = JSON.parse(storage.read(SAVED_RUN_KEY) ?? 'null');
+        return isSavedRun(data, simVersion) ? data : null;
+    } catch {
+        return null;
+    }
+};
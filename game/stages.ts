@@ -0,0 +1,197 @@
+import { BOSS_ROSTER } from './bosses';
+import { ENEMY_ARCHETYPES } from './enemies';
+import { HAZARD_TYPES } from './hazards';
+import { isObject, isOneOf } from './json';
+import { Vec } from './patterns';
+import { POWERUP_TYPES } from './powerups';
+import { EnemyType, HazardType, MusicIntensity, PowerUpType } from './types';
+
+// --- Stages ---
+// An authored stage is plain JSON: groups of ships that arrive at set times in a formation,
+// optionally flying in along an entry path, a few scripted events such as hazards, the music it
+// opens with and the boss waiting at the end. Stage files come from outside the code, so every
+// one is checked on load and rejected with a message that points at the offending field.
+
+export type Formation = 'SINGLE' | 'LINE' | 'V' | 'CIRCLE';
+export type EntryPathId = 'DROP' | 'SWOOP_LEFT' | 'SWOOP_RIGHT' | 'LOOP';
+
+export interface SpawnGroup {
+    // Seconds after the stage starts
+    at: number;
+    enemy: EnemyType;
+    count: number;
+    formation: Formation;
+    // Centre of the formation across the playfield, 0 (left edge) to 1 (right edge)
+    x: number;
+    // Gap between neighbouring ships in pixels; the radius for a circle
+    spacing?: number;
+    // Without a path the ships appear above the screen and fly their usual pattern straight away
+    path?: EntryPathId;
+}
+
+export type StageEvent =
+    | { at: number; type: 'MESSAGE'; text: string }
+    | { at: number; type: 'POWERUP'; powerup: PowerUpType; x: number }
+    | { at: number; type: 'MUSIC'; music: MusicIntensity }
+    // Brings in a hazard, or a whole asteroid field, centred at x across the playfield
+    | { at: number; type: 'HAZARD'; hazard: HazardType; x: number };
+
+export interface StageFile {
+    name: string;
+    music: MusicIntensity;
+    // Id of a boss in the roster, fought once every group has been dealt with; null ends the
+    // stage as soon as the field is clear
+    boss: string | null;
+    groups: SpawnGroup[];
+    events: StageEvent[];
+}
+
+export const FORMATIONS: Formation[] = ['SINGLE', 'LINE', 'V', 'CIRCLE'];
+export const DEFAULT_SPACING = 60;
+
+// Where each ship of a formation sits relative to its centre; the leader comes first
+export const formationOffsets = (formation: Formation, count: number, spacing = DEFAULT_SPACING): Vec[] =>
+    Array.from({ length: count }, (_, i) => {
+        if (formation === 'LINE') return { x: (i - (count - 1) / 2) * spacing, y: 0 };
+        if (formation === 'V') {
+            // Leader at the tip, then alternating left and right, each pair one row further back
+            const rank = Math.ceil(i / 2);
+            const side = i % 2 === 1 ? -1 : 1;
+            return { x: side * rank * spacing, y: -rank * spacing * 0.7 };
+        }
+        if (formation === 'CIRCLE') {
+            const angle = (i / count) * Math.PI * 2 - Math.PI / 2;
+            return { x: Math.cos(angle) * spacing, y: Math.sin(angle) * spacing };
+        }
+        return { x: 0, y: -i * spacing };
+    });
+
+// --- Entry paths ---
+// A path moves the formation's centre from off screen to where the ships take over with their
+// own movement. `point` gets the progress from 0 to 1 and the x the stage asked for.
+
+export interface EntryPath {
+    id: EntryPathId;
+    label: string;
+    // Seconds the entry takes
+    duration: number;
+    point: (t: number, x: number, width: number, height: number) => Vec;
+}
+
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+const bezier = (a: Vec, b: Vec, c: Vec, t: number): Vec => ({
+    x: (1 - t) * (1 - t) * a.x + 2 * (1 - t) * t * b.x + t * t * c.x,
+    y: (1 - t) * (1 - t) * a.y + 2 * (1 - t) * t * b.y + t * t * c.y,
+});
+
+const swoop = (side: -1 | 1) => (t: number, x: number, width: number, height: number) => {
+    const start = { x: side < 0 ? -80 : width + 80, y: height * 0.35 };
+    const bend = { x: side < 0 ? width * 0.1 : width * 0.9, y: -height * 0.1 };
+    return bezier(start, bend, { x, y: height * 0.2 }, ease(t));
+};
+
+export const ENTRY_PATHS: Record<EntryPathId, EntryPath> = {
+    DROP: {
+        id: 'DROP',
+        label: 'DROP',
+        duration: 1.6,
+        point: (t, x, _, height) => ({ x, y: -80 + (height * 0.2 + 80) * ease(t) }),
+    },
+    SWOOP_LEFT: { id: 'SWOOP_LEFT', label: 'SWOOP FROM LEFT', duration: 2.2, point: swoop(-1) },
+    SWOOP_RIGHT: { id: 'SWOOP_RIGHT', label: 'SWOOP FROM RIGHT', duration: 2.2, point: swoop(1) },
+    // Drops in, then circles once before breaking off
+    LOOP: {
+        id: 'LOOP',
+        label: 'LOOP',
+        duration: 3.2,
+        point: (t, x, _, height) => {
+            if (t < 0.4) return { x, y: -80 + (height * 0.3 + 80) * ease(t / 0.4) };
+            const angle = ((t - 0.4) / 0.6) * Math.PI * 2;
+            const r = Math.min(110, height * 0.1);
+            return { x: x + Math.sin(angle) * r, y: height * 0.3 - r + Math.cos(angle) * r };
+        },
+    },
+};
+
+// --- Validation ---
+
+const MUSIC: MusicIntensity[] = ['CALM', 'ACTION', 'BOSS'];
+const MAX_GROUP = 24;
+
+export class StageError extends Error {}
+
+// Checks one stage file field by field; the first problem found is thrown as a StageError
+// naming the stage and the field, e.g. `Stage "Outer Rim": groups[2].enemy: unknown enemy type "UFO"`
+export const parseStage = (data: unknown, label = 'Stage'): StageFile => {
+    const where = isObject(data) && typeof data.name === 'string' && data.name ? `Stage "${data.name}"` : label;
+    // Typed on the variable so that the checks below narrow what they have checked
+    const fail: (field: string, message: string) => never = (field, message) => { throw new StageError(`${where}: ${field}: ${message}`); };
+    const number = (value: unknown, field: string, min: number, max: number) => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) fail(field, 'must be a number');
+        if (value < min || value > max) fail(field, `must be between ${min} and ${max}`);
+        return value;
+    };
+    const oneOf = <T extends string>(value: unknown, field: string, options: readonly T[]) => {
+        if (!isOneOf(value, options)) fail(field, `must be one of ${options.join(', ')}`);
+        return value;
+    };
+
+    if (!isObject(data)) throw new StageError(`${label}: not a stage object`);
+    const { name, boss, groups: groupList, events: eventList } = data;
+    if (typeof name !== 'string' || !name.trim()) fail('name', 'must be a non-empty string');
+    const music = oneOf(data.music, 'music', MUSIC);
+    const bosses = BOSS_ROSTER.map(b => b.id);
+    if (!isOneOf(boss, [null, ...bosses])) fail('boss', `must be null or one of ${bosses.join(', ')}`);
+    if (!Array.isArray(groupList) || groupList.length === 0) fail('groups', 'must be a non-empty list');
+    if (!Array.isArray(eventList)) fail('events', 'must be a list');
+
+    const groups = groupList.map((g: unknown, i: number): SpawnGroup => {
+        const field = (name: string) => `groups[${i}].${name}`;
+        if (!isObject(g)) fail(`groups[${i}]`, 'must be an object');
+        if (!isOneOf(g.enemy, Object.keys(ENEMY_ARCHETYPES) as EnemyType[])) fail(field('enemy'), `unknown enemy type "${g.enemy}"`);
+        const group: SpawnGroup = {
+            at: number(g.at, field('at'), 0, 600),
+            enemy: g.enemy,
+            count: number(g.count, field('count'), 1, MAX_GROUP),
+            formation: oneOf(g.formation, field('formation'), FORMATIONS),
+            x: number(g.x, field('x'), 0, 1),
+        };
+        if (!Number.isInteger(group.count)) fail(field('count'), 'must be a whole number');
+        if (g.spacing !== undefined) group.spacing = number(g.spacing, field('spacing'), 10, 400);
+        if (g.path !== undefined) group.path = oneOf(g.path, field('path'), Object.keys(ENTRY_PATHS) as EntryPathId[]);
+        return group;
+    });
+
+    const events = eventList.map((e: unknown, i: number): StageEvent => {
+        const field = (name: string) => `events[${i}].${name}`;
+        if (!isObject(e)) fail(`events[${i}]`, 'must be an object');
+        const at = number(e.at, field('at'), 0, 600);
+        const type = oneOf(e.type, field('type'), ['MESSAGE', 'POWERUP', 'MUSIC', 'HAZARD'] as const);
+        if (type === 'MESSAGE') {
+            if (typeof e.text !== 'string' || !e.text) fail(field('text'), 'must be a non-empty string');
+            return { at, type, text: e.text.slice(0, 60) };
+        }
+        if (type === 'POWERUP') return { at, type, powerup: oneOf(e.powerup, field('powerup'), POWERUP_TYPES), x: number(e.x, field('x'), 0, 1) };
+        if (type === 'HAZARD') return { at, type, hazard: oneOf(e.hazard, field('hazard'), HAZARD_TYPES), x: number(e.x, field('x'), 0, 1) };
+        return { at, type, music: oneOf(e.music, field('music'), MUSIC) };
+    });
+
+    // Both lists are played from the front, so they are kept in time order
+    return {
+        name: name.trim(),
+        music,
+        boss,
+        groups: groups.sort((a, b) => a.at - b.at),
+        events: events.sort((a, b) => a.at - b.at),
+    };
+};
+
+// A list of stages, as found in a campaign or a stage pack; label says where they came from
+export const parseStages = (data: unknown, label = 'Campaign'): StageFile[] => {
+    if (!Array.isArray(data) || data.length === 0) throw new StageError(`${label}: must be a non-empty list of stages`);
+    return data.map((stage, i) => parseStage(stage, `${label} stage ${i + 1}`));
+};
+
+// Seconds until the last group of a stage has arrived
+export const stageLength = (stage: StageFile) => Math.max(0, ...stage.groups.map(g => g.at));
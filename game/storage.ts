@@ -0,0 +1,64 @@
+// --- Storage Backends ---
+// Persistence goes through this tiny key/value interface so the game never touches
+// localStorage directly and can run against memory in tests or when storage is blocked.
+
+export interface StorageBackend {
+    read(key: string): string | null;
+    write(key: string, value: string): void;
+    remove(key: string): void;
+}
+
+export class MemoryStorage implements StorageBackend {
+    private data = new Map<string, string>();
+
+    read(key: string) {
+        return this.data.get(key) ?? null;
+    }
+
+    write(key: string, value: string) {
+        this.data.set(key, value);
+    }
+
+    remove(key: string) {
+        this.data.delete(key);
+    }
+}
+
+// Private browsing and full quotas make localStorage throw; those failures are swallowed so
+// a save that cannot be written never takes the game down with it
+export class LocalStorageBackend implements StorageBackend {
+    read(key: string) {
+        try {
+            return window.localStorage.getItem(key);
+        } catch {
+            return null;
+        }
+    }
+
+    write(key: string, value: string) {
+        try {
+            window.localStorage.setItem(key, value);
+        } catch {
+            // Nothing sensible to do; the profile stays in memory for this session
+        }
+    }
+
+    remove(key: string) {
+        try {
+            window.localStorage.removeItem(key);
+        } catch {
+            // See write()
+        }
+    }
+}
+
+export const createStorage = (): StorageBackend => {
+    try {
+        const probe = '__galaxy_defender_probe__';
+        window.localStorage.setItem(probe, probe);
+        window.localStorage.removeItem(probe);
+        return new LocalStorageBackend();
+    } catch {
+        return new MemoryStorage();
+    }
+};
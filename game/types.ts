@@ -0,0 +1,78 @@
+import type { StageFile } from './stages';
+
+// --- Shared Game Types ---
+
+// Id of a registered enemy archetype, see enemies.ts
+export type EnemyType = string;
+// See powerups.ts
+export type PowerUpType =
+    | 'RAPID_FIRE' | 'SHIELD' | 'TRIPLE_SHOT' | 'HEAL'
+    | 'MAGNET' | 'TIME_SLOW' | 'DRONE' | 'BOMB_CHARGE' | 'SCORE_DOUBLER';
+// See hazards.ts
+export type HazardType = 'ASTEROID' | 'LASER_GATE' | 'GRAVITY_WELL' | 'EMP_STORM';
+export type GameMode = 'ENDLESS' | 'DAILY' | 'COOP' | 'CAMPAIGN';
+export type SoundCue = 'shoot' | 'explosion' | 'hit' | 'powerup' | 'coin';
+// How hard the soundtrack drives, see audio.ts
+export type MusicIntensity = 'CALM' | 'ACTION' | 'BOSS';
+
+// Returns a float in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+export type WeaponId = 'BLASTER' | 'SPREAD' | 'LASER' | 'HOMING' | 'CHARGE';
+// Hull flown by every ship of a run, see ships.ts
+export type ShipId = 'DEFENDER' | 'INTERCEPTOR' | 'HUNTER' | 'BULWARK';
+export type ConsumableId = 'SMART_BOMB' | 'SHIELD_CHARGE' | 'REPAIR_KIT';
+export type Consumables = Record<ConsumableId, number>;
+
+// Everything bought in the shop that lasts beyond the current run
+export interface Upgrades {
+    damage: number;
+    fireRate: number;
+    speed: number;
+    maxHealth: number;
+    // Unlocked weapons and the one currently fitted
+    weapons: WeaponId[];
+    weapon: WeaponId;
+    // Weapons that came with an unlocked ship rather than from the shop; they are never refunded
+    granted?: WeaponId[];
+    // Tech tree node levels by node id, see shop.ts
+    tech: Record<string, number>;
+}
+
+// Everything the simulation needs to know about the controls for one tick
+export interface InputSnapshot {
+    // Sideways push from -1 (full left) to 1 (full right), see quantizeMove in input.ts
+    move: number;
+    fire: boolean;
+    bomb: boolean;
+}
+
+export type DifficultyPreset = 'EASY' | 'NORMAL' | 'HARD' | 'CUSTOM';
+
+// Multipliers on the standard rules, see difficulty.ts
+export interface Difficulty {
+    preset: DifficultyPreset;
+    // How fast the difficulty multiplier climbs with wave, time and score
+    scaling: number;
+    // Damage the ships take
+    damage: number;
+    // How often new enemies arrive
+    spawnRate: number;
+}
+
+// Identifies a run: the same mode, seed, difficulty, stages and inputs always produce the same game
+export interface RunConfig {
+    mode: GameMode;
+    seed: number;
+    // UTC date of a daily challenge, e.g. 2026-10-19, which its seed was made from
+    day?: string;
+    difficulty: Difficulty;
+    // The stages to fly through, in campaign mode; see stages.ts
+    stages?: StageFile[];
+    // Seconds into the first stage to start from, when play-testing from the stage editor
+    startAt?: number;
+    // Runs from before ship variants all flew the DEFENDER
+    ship?: ShipId;
+    // Loot still on screen is banked when a wave is cleared; see loot.ts. On when left out
+    autoCollect?: boolean;
+}
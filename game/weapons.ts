@@ -0,0 +1,113 @@
+import { Projectile } from './entities';
+import { WeaponId } from './types';
+
+// --- Player Weapons ---
+// What comes out of the ship when the trigger is pulled. The simulation handles cooldowns,
+// charging and collisions; a weapon only decides which projectiles one trigger pull makes.
+
+export interface WeaponShot {
+    // Muzzle at the nose of the ship
+    x: number;
+    y: number;
+    tripleShot: boolean;
+    // Seconds the trigger was held, for charged weapons
+    charge: number;
+    tech: Record<string, number>;
+    // Hands out a blank projectile, recycled from the simulation's pool
+    projectile: () => Projectile;
+}
+
+export interface WeaponDef {
+    id: WeaponId;
+    name: string;
+    description: string;
+    // Multiplier on the base fire cooldown
+    cooldown: number;
+    // Fires once on release, scaled by how long the trigger was held
+    charged?: boolean;
+    // Damage multiplier of one projectile, as shown in the shop
+    power: number;
+    fire: (shot: WeaponShot) => Projectile[];
+}
+
+// Holding the trigger longer than this adds nothing
+export const MAX_CHARGE = 1.2;
+export const MIN_CHARGE = 0.15;
+
+const bolt = (shot: WeaponShot, x: number, y: number, vx: number, vy: number, options: Partial<Projectile> = {}) =>
+    Object.assign(shot.projectile().reset(x, y, vx, vy), options);
+
+export const WEAPONS: Record<WeaponId, WeaponDef> = {
+    BLASTER: {
+        id: 'BLASTER',
+        name: 'BLASTER',
+        description: 'Reliable single bolt.',
+        cooldown: 1,
+        power: 1,
+        fire: shot => {
+            const { x, y, tripleShot } = shot;
+            return tripleShot
+                ? [bolt(shot, x, y, 0, -900), bolt(shot, x, y, -240, -840), bolt(shot, x, y, 240, -840)]
+                : [bolt(shot, x, y, 0, -900)];
+        },
+    },
+    SPREAD: {
+        id: 'SPREAD',
+        name: 'SPREAD CANNON',
+        description: 'Five weaker pellets in a wide fan.',
+        cooldown: 1.25,
+        power: 0.6,
+        fire: shot => {
+            const { x, y, tripleShot } = shot;
+            const count = tripleShot ? 7 : 5;
+            const arc = tripleShot ? 1.3 : 1;
+            return Array.from({ length: count }, (_, i) => {
+                const a = -Math.PI / 2 - arc / 2 + (arc * i) / (count - 1);
+                return bolt(shot, x, y, Math.cos(a) * 820, Math.sin(a) * 820, { power: 0.6, color: '#00ffaa' });
+            });
+        },
+    },
+    LASER: {
+        id: 'LASER',
+        name: 'PIERCING LASER',
+        description: 'Fast lance that passes through two targets.',
+        cooldown: 0.9,
+        power: 0.8,
+        fire: shot => (shot.tripleShot ? [-14, 0, 14] : [0]).map(dx =>
+            bolt(shot, shot.x + dx, shot.y - 14, 0, -1400, { h: 26, power: 0.8, pierce: 2, color: '#ffea00' })),
+    },
+    HOMING: {
+        id: 'HOMING',
+        name: 'HOMING MISSILES',
+        description: 'Slow missiles that steer into the nearest target.',
+        cooldown: 1.6,
+        power: 1.6,
+        fire: shot => {
+            const { x, y, tripleShot, tech } = shot;
+            const count = (tech.TWIN_MISSILES ? 2 : 1) + (tripleShot ? 1 : 0);
+            return Array.from({ length: count }, (_, i) => {
+                const vx = (i - (count - 1) / 2) * 220;
+                return bolt(shot, x, y, vx, -560, { w: 6, h: 10, power: 1.6, homing: true, color: '#ff8800' });
+            });
+        },
+    },
+    CHARGE: {
+        id: 'CHARGE',
+        name: 'CHARGE BEAM',
+        description: 'Hold fire to charge, release for a piercing blast.',
+        cooldown: 1,
+        charged: true,
+        // At full charge
+        power: 6.5,
+        fire: shot => {
+            const { x, y, charge, tripleShot } = shot;
+            const level = Math.min(1, charge / MAX_CHARGE);
+            const w = 6 + level * 14;
+            const beam = (dx: number) => bolt(shot, x + dx - w / 2, y - 30, 0, -1200,
+                { w, h: 40, power: 1.5 + level * 5, pierce: 99, color: '#ffffff' });
+            return tripleShot ? [beam(-26), beam(0), beam(26)] : [beam(0)];
+        },
+    },
+};
+
+export const getWeapon = (id: WeaponId) => WEAPONS[id] ?? WEAPONS.BLASTER;
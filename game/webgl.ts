@@ -0,0 +1,230 @@
+import type { Bounds, RenderBackend, Sprite, VectorDraw } from './render';
+
+// --- WebGL2 Backend ---
+// Sprites and rectangles become textured quads, collected per texture and sent to the GPU in
+// one draw call per texture when a layer ends. Rectangles are a 1x1 white texture tinted to
+// their colour. Vectors have no GPU path: each is drawn into a scratch canvas the size of its
+// bounds and uploaded as a texture, which stays cheap for the few small rings that need it.
+
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec2 a_uv;
+layout(location = 2) in vec4 a_tint;
+uniform vec2 u_size;
+uniform vec3 u_view;
+out vec2 v_uv;
+out vec4 v_tint;
+void main() {
+    vec2 p = (a_position * u_view.x + u_view.yz) / u_size * 2.0 - 1.0;
+    gl_Position = vec4(p.x, -p.y, 0.0, 1.0);
+    v_uv = a_uv;
+    v_tint = a_tint;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+in vec4 v_tint;
+uniform sampler2D u_texture;
+out vec4 color;
+void main() {
+    color = texture(u_texture, v_uv) * v_tint;
+}`;
+
+// Floats per vertex (position, uv, premultiplied tint) and per quad
+const VERTEX = 8;
+const QUAD = VERTEX * 4;
+// Quads per draw call; a fuller batch is drawn early
+const MAX_QUADS = 8192;
+
+interface Batch {
+    texture: WebGLTexture;
+    data: Float32Array;
+    quads: number;
+}
+
+const compile = (gl: WebGL2RenderingContext, type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+    return shader;
+};
+
+export class WebGLBackend implements RenderBackend {
+    readonly id = 'WEBGL';
+    readonly canvas: HTMLCanvasElement;
+    private gl: WebGL2RenderingContext;
+    private view: WebGLUniformLocation;
+    private size: WebGLUniformLocation;
+    private white: WebGLTexture;
+    // One texture per sprite image, uploaded on first use
+    private textures = new Map<HTMLCanvasElement, WebGLTexture>();
+    // Quads waiting to be drawn, grouped by texture
+    private batches = new Map<WebGLTexture, Batch>();
+    private scratch = document.createElement('canvas');
+    private scratchTexture: WebGLTexture;
+    private scale = 1;
+    // CSS colours already turned into 0..1 RGB
+    private colors = new Map<string, number[]>();
+    private probe: CanvasRenderingContext2D;
+
+    constructor(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext) {
+        this.canvas = canvas;
+        this.gl = gl;
+        const program = gl.createProgram()!;
+        gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+        gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+        gl.linkProgram(program);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(`Shader failed to link: ${gl.getProgramInfoLog(program)}`);
+        gl.useProgram(program);
+        this.view = gl.getUniformLocation(program, 'u_view')!;
+        this.size = gl.getUniformLocation(program, 'u_size')!;
+
+        gl.bindVertexArray(gl.createVertexArray());
+        gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+        [2, 2, 4].reduce((offset, count, location) => {
+            gl.enableVertexAttribArray(location);
+            gl.vertexAttribPointer(location, count, gl.FLOAT, false, VERTEX * 4, offset * 4);
+            return offset + count;
+        }, 0);
+        // Every quad is two triangles over its four corners
+        const indices = new Uint16Array(MAX_QUADS * 6);
+        for (let i = 0; i < MAX_QUADS; i++) indices.set([0, 1, 2, 0, 2, 3].map(n => i * 4 + n), i * 6);
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, gl.createBuffer());
+        gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+
+        // Sprites arrive straight from 2D canvases, so alpha is premultiplied on upload
+        gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        this.white = this.createTexture();
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array([255, 255, 255, 255]));
+        this.scratchTexture = this.createTexture();
+        const probe = document.createElement('canvas');
+        probe.width = probe.height = 1;
+        this.probe = probe.getContext('2d', { willReadFrequently: true })!;
+    }
+
+    begin(clear: string, scale: number, x: number, y: number) {
+        const { gl, canvas } = this;
+        const [r, g, b] = this.color(clear);
+        this.scale = scale;
+        gl.viewport(0, 0, canvas.width, canvas.height);
+        gl.clearColor(r, g, b, 1);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        gl.uniform2f(this.size, canvas.width, canvas.height);
+        gl.uniform3f(this.view, scale, x, y);
+    }
+
+    sprite(sprite: Sprite, x: number, y: number, alpha: number, scale: number) {
+        let texture = this.textures.get(sprite.image);
+        if (!texture) {
+            texture = this.createTexture();
+            this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, this.gl.RGBA, this.gl.UNSIGNED_BYTE, sprite.image);
+            this.textures.set(sprite.image, texture);
+        }
+        const w = (sprite.w + sprite.pad * 2) * scale, h = (sprite.h + sprite.pad * 2) * scale;
+        this.quad(texture, x + (sprite.w - w) / 2, y + (sprite.h - h) / 2, w, h, 1, 1, alpha, alpha, alpha, alpha);
+    }
+
+    rect(x: number, y: number, w: number, h: number, color: string, alpha: number) {
+        const [r, g, b] = this.color(color);
+        this.quad(this.white, x, y, w, h, 1, 1, r * alpha, g * alpha, b * alpha, alpha);
+    }
+
+    // Drawn straight away, after everything queued before it, so it keeps its place in the layer
+    vector(bounds: Bounds, draw: VectorDraw) {
+        const { gl, scratch, scale } = this;
+        const w = Math.ceil(bounds.w * scale), h = Math.ceil(bounds.h * scale);
+        if (w <= 0 || h <= 0) return;
+        // The scratch canvas only ever grows; each vector uses its top-left corner
+        if (scratch.width < w) scratch.width = w;
+        if (scratch.height < h) scratch.height = h;
+        const g = scratch.getContext('2d')!;
+        g.setTransform(1, 0, 0, 1, 0, 0);
+        g.clearRect(0, 0, w, h);
+        g.save();
+        g.beginPath(); g.rect(0, 0, w, h); g.clip();
+        g.setTransform(scale, 0, 0, scale, -bounds.x * scale, -bounds.y * scale);
+        draw(g);
+        g.restore();
+        this.flush();
+        gl.bindTexture(gl.TEXTURE_2D, this.scratchTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, scratch);
+        this.quad(this.scratchTexture, bounds.x, bounds.y, w / scale, h / scale, w / scratch.width, h / scratch.height, 1, 1, 1, 1);
+        this.flush();
+    }
+
+    flush() {
+        const { gl } = this;
+        this.batches.forEach(batch => {
+            if (!batch.quads) return;
+            gl.bindTexture(gl.TEXTURE_2D, batch.texture);
+            gl.bufferData(gl.ARRAY_BUFFER, batch.data.subarray(0, batch.quads * QUAD), gl.STREAM_DRAW);
+            gl.drawElements(gl.TRIANGLES, batch.quads * 6, gl.UNSIGNED_SHORT, 0);
+            batch.quads = 0;
+        });
+    }
+
+    release() {
+        this.flush();
+        this.textures.forEach(texture => {
+            this.gl.deleteTexture(texture);
+            this.batches.delete(texture);
+        });
+        this.textures.clear();
+    }
+
+    private quad(texture: WebGLTexture, x: number, y: number, w: number, h: number, u: number, v: number, r: number, g: number, b: number, a: number) {
+        let batch = this.batches.get(texture);
+        if (!batch) {
+            batch = { texture, data: new Float32Array(QUAD * 64), quads: 0 };
+            this.batches.set(texture, batch);
+        }
+        if (batch.quads === MAX_QUADS) this.flush();
+        // Batches start small and double as they fill
+        if ((batch.quads + 1) * QUAD > batch.data.length) {
+            const data = new Float32Array(batch.data.length * 2);
+            data.set(batch.data);
+            batch.data = data;
+        }
+        const i = batch.quads * QUAD;
+        this.vertex(batch.data, i, x, y, 0, 0, r, g, b, a);
+        this.vertex(batch.data, i + VERTEX, x + w, y, u, 0, r, g, b, a);
+        this.vertex(batch.data, i + VERTEX * 2, x + w, y + h, u, v, r, g, b, a);
+        this.vertex(batch.data, i + VERTEX * 3, x, y + h, 0, v, r, g, b, a);
+        batch.quads++;
+    }
+
+    private vertex(d: Float32Array, i: number, x: number, y: number, u: number, v: number, r: number, g: number, b: number, a: number) {
+        d[i] = x; d[i + 1] = y; d[i + 2] = u; d[i + 3] = v;
+        d[i + 4] = r; d[i + 5] = g; d[i + 6] = b; d[i + 7] = a;
+    }
+
+    private createTexture() {
+        const { gl } = this;
+        const texture = gl.createTexture()!;
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return texture;
+    }
+
+    // Any CSS colour, read back from a 1x1 canvas the first time it is seen
+    private color(css: string) {
+        let rgb = this.colors.get(css);
+        if (!rgb) {
+            const { probe } = this;
+            probe.clearRect(0, 0, 1, 1);
+            probe.fillStyle = css;
+            probe.fillRect(0, 0, 1, 1);
+            const [r, g, b] = probe.getImageData(0, 0, 1, 1).data;
+            rgb = [r / 255, g / 255, b / 255];
+            this.colors.set(css, rgb);
+        }
+        return rgb;
+    }
+}
@@ -1,236 +1,75 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
+import { ACHIEVEMENTS, Achievement, AchievementId, AchievementState, AchievementTracker, getAchievement } from './game/achievements';
+import { SoundEngine } from './game/audio';
+import { BENCHMARK_BULLET_COUNTS, BenchmarkOptions, CollisionBenchmark, DEFAULT_BENCHMARK } from './game/benchmark';
+import { CAMPAIGN } from './game/campaign';
+import { DIFFICULTY_MAX, DIFFICULTY_MIN, DIFFICULTY_PRESETS, DIFFICULTY_PRESET_IDS } from './game/difficulty';
+import { exportStage, importStage, loadDraft, newGroup, saveDraft, stageFileName, timelineLength } from './game/editor';
+import { ENEMY_ARCHETYPES, getArchetype } from './game/enemies';
+import { Enemy } from './game/entities';
+import { BOSS_ROSTER } from './game/bosses';
+import { HAZARDS, HAZARD_TYPES } from './game/hazards';
+import {
+    ACTIONS, Action, Bindings, COOP_BINDINGS, DEFAULT_BINDINGS, GamepadInput, InputManager, KeyboardInput, TouchInput, buttonLabel, cloneBindings, keyLabel,
+} from './game/input';
+import {
+    LEADERBOARD_SIZE, LeaderboardEntry, LeaderboardFilter, addEntry, cleanInitials, entryFromRun, loadLeaderboard, saveLeaderboard, topEntries,
+} from './game/leaderboard';
+import { PALETTES, Palette, PaletteId, getPalette } from './game/palette';
+import { POWERUPS, POWERUP_TYPES } from './game/powerups';
+import { GameRenderer, RENDERERS, RendererId, createRenderer, fitView } from './game/render';
+import { REPLAY_SPEEDS, ReplayFile, ReplayPlayer, ReplayRecorder, parseReplay } from './game/replay';
+import { dailyKey, dailySeed, formatSeed, parseSeed, randomSeed } from './game/rng';
+import { SaveProfile, Settings, UI_SCALE_MAX, UI_SCALE_MIN, loadProfile, recordRun, saveProfile } from './game/save';
+import { WaveBonus } from './game/scoring';
+import { SHIPS, SHIP_IDS, getShip, grantShipWeapon, shipLoadout, shipUnlocked, shipUnlockedBy } from './game/ships';
+import {
+    EMPTY_CONSUMABLES, SHOP_NODES, ShopCategory, ShopNode, ShopState, checkPurchase, checkRefund, investedIn, previewPurchase, respec, statSheet,
+} from './game/shop';
+import { DEFAULT_UPGRADES, GameSimulation, SIMULATION_VERSION, TICK_MS, cloneUpgrades, playerCount } from './game/simulation';
+import { SAVED_RUN_VERSION, SavedRun, clearRun, loadRun, saveRun } from './game/snapshot';
+import { ENTRY_PATHS, EntryPathId, FORMATIONS, SpawnGroup, StageEvent, StageFile, formationOffsets, parseStage } from './game/stages';
+import { createStorage } from './game/storage';
+import { Consumables, GameMode, MusicIntensity, PowerUpType, ShipId, Upgrades, WeaponId } from './game/types';
+import { WEAPONS } from './game/weapons';
 
 // --- Types & Interfaces ---
 
-type GameState = 'START' | 'PLAYING' | 'GAMEOVER' | 'SHOP';
-type EnemyType = 'BASIC' | 'SINE' | 'DIVER' | 'ZIGZAG' | 'SCOUT';
-type PowerUpType = 'RAPID_FIRE' | 'SHIELD' | 'TRIPLE_SHOT' | 'HEAL';
-
-interface Upgrades {
-    damage: number;
-    fireRate: number;
-    speed: number;
-    maxHealth: number;
-}
-
-// --- Sound Engine (Synthesized) ---
-
-class SoundEngine {
-    ctx: AudioContext | null = null;
-    noiseBuffer: AudioBuffer | null = null;
-
-    init() {
-        if (!this.ctx) {
-            this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-            this.noiseBuffer = this.createNoiseBuffer();
-        }
-        if (this.ctx && this.ctx.state === 'suspended') {
-            this.ctx.resume();
-        }
-    }
-
-    private createNoiseBuffer() {
-        if (!this.ctx) return null;
-        const bufferSize = this.ctx.sampleRate * 2;
-        const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-        const output = buffer.getChannelData(0);
-        for (let i = 0; i < bufferSize; i++) {
-            output[i] = Math.random() * 2 - 1;
-        }
-        return buffer;
-    }
-
-    private playTone(freq: number, type: OscillatorType, duration: number, volume: number, decay = true) {
-        if (!this.ctx) return;
-        const osc = this.ctx.createOscillator();
-        const gain = this.ctx.createGain();
-        osc.type = type;
-        osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
-        gain.gain.setValueAtTime(volume, this.ctx.currentTime);
-        if (decay) {
-            gain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + duration);
-        }
-        osc.connect(gain);
-        gain.connect(this.ctx.destination);
-        osc.start();
-        osc.stop(this.ctx.currentTime + duration);
-    }
-
-    shoot() {
-        if (!this.ctx || !this.noiseBuffer) return;
-        const noiseSource = this.ctx.createBufferSource();
-        noiseSource.buffer = this.noiseBuffer;
-        const noiseGain = this.ctx.createGain();
-        noiseGain.gain.setValueAtTime(0.015, this.ctx.currentTime);
-        noiseGain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + 0.1);
-        noiseSource.connect(noiseGain);
-        noiseGain.connect(this.ctx.destination);
-        noiseSource.start();
-        this.playTone(880, 'sine', 0.08, 0.01);
-    }
-
-    explosion() {
-        if (!this.ctx || !this.noiseBuffer) return;
-        this.playTone(60, 'sawtooth', 0.5, 0.1);
-        const noiseSource = this.ctx.createBufferSource();
-        noiseSource.buffer = this.noiseBuffer;
-        const noiseGain = this.ctx.createGain();
-        noiseGain.gain.setValueAtTime(0.05, this.ctx.currentTime);
-        noiseGain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + 0.5);
-        noiseSource.connect(noiseGain);
-        noiseGain.connect(this.ctx.destination);
-        noiseSource.start();
-    }
-
-    hit() { 
-        this.playTone(120, 'square', 0.15, 0.03); 
-    }
-    
-    powerup() { 
-        this.playTone(440, 'sine', 0.1, 0.04, false);
-        this.playTone(660, 'sine', 0.15, 0.03, true);
-    }
-}
+type GameState = 'START' | 'PLAYING' | 'GAMEOVER' | 'SHOP' | 'REPLAY' | 'LEADERBOARD' | 'BENCHMARK' | 'CONTROLS' | 'SETTINGS' | 'EDITOR' | 'ACHIEVEMENTS';
 
 const sounds = new SoundEngine();
+const storage = createStorage();
+
+// Bindings and touch mode are swapped in from the profile whenever settings change
+const keyboard = new KeyboardInput(DEFAULT_BINDINGS);
+const gamepad = new GamepadInput(DEFAULT_BINDINGS);
+const touch = new TouchInput();
+const input = new InputManager([keyboard, gamepad, touch]);
+
+// Co-op splits the keyboard in two; the gamepad goes to player two and touch to player one
+const coopKeyboards = COOP_BINDINGS.map(b => new KeyboardInput(b));
+const coopInputs = [new InputManager([coopKeyboards[0], touch]), new InputManager([coopKeyboards[1], gamepad])];
+const inputsFor = (mode: GameMode) => (playerCount(mode) > 1 ? coopInputs : [input]);
+
+// First keyboard binding of an action, for on-screen hints
+const keyHint = (bindings: Bindings, action: Action) => {
+    const code = bindings.keyboard[action][0];
+    return code ? keyLabel(code) : '-';
+};
 
-// --- Game Entities ---
-
-class Particle {
-    x: number; y: number; vx: number; vy: number;
-    life: number = 1.0;
-    color: string;
-    constructor(x: number, y: number, color: string, vx?: number, vy?: number) {
-        this.x = x; this.y = y;
-        this.vx = vx ?? (Math.random() - 0.5) * 6;
-        this.vy = vy ?? (Math.random() - 0.5) * 6;
-        this.color = color;
-    }
-    update() { this.x += this.vx; this.y += this.vy; this.life -= 0.02; }
-}
-
-class Projectile {
-    x: number; y: number; vx: number; vy: number; 
-    w: number = 4; h: number = 12;
-    fromEnemy: boolean;
-    constructor(x: number, y: number, vx: number, vy: number, fromEnemy = false) {
-        this.x = x; this.y = y; this.vx = vx; this.vy = vy; this.fromEnemy = fromEnemy;
-    }
-    update() { this.x += this.vx; this.y += this.vy; }
-}
-
-class PowerUp {
-    x: number; y: number; w = 30; h = 30;
-    type: PowerUpType;
-    pulse: number = 0;
-    constructor(x: number, y: number, type: PowerUpType) {
-        this.x = x; this.y = y; this.type = type;
-    }
-    update() {
-        this.y += 1.8;
-        this.pulse += 0.1;
-    }
-}
-
-class Enemy {
-    x: number; y: number; w: number; h: number; s: number; hue: number;
-    type: EnemyType;
-    startX: number;
-    timer: number = 0;
-    hp: number;
-    canShoot: boolean = false;
-    shootRate: number = 0.005;
-
-    constructor(canvasWidth: number, type: EnemyType, speedBase: number) {
-        this.type = type;
-        this.w = 40; this.h = 40;
-        this.startX = Math.random() * (canvasWidth - this.w);
-        this.x = this.startX;
-        this.y = -50;
-        this.hp = 1;
-        
-        switch (type) {
-            case 'SINE': this.hue = 300; this.s = speedBase * 0.9; this.canShoot = true; break;
-            case 'DIVER': this.hue = 0; this.s = speedBase * 0.6; this.hp = 3; break;
-            case 'ZIGZAG': this.hue = 120; this.s = speedBase * 1.3; break;
-            case 'SCOUT': this.hue = 40; this.s = speedBase * 1.5; this.canShoot = true; this.shootRate = 0.01; break;
-            default: this.hue = 200; this.s = speedBase;
-        }
-    }
-
-    update(canvasWidth: number) {
-        this.timer++;
-        switch (this.type) {
-            case 'SINE':
-                this.y += this.s;
-                this.x = this.startX + Math.sin(this.timer * 0.04) * 120;
-                break;
-            case 'DIVER':
-                if (this.y < 250) this.y += this.s;
-                else this.y += this.s * 4.5;
-                break;
-            case 'ZIGZAG':
-                this.y += this.s;
-                this.x += Math.sin(this.timer * 0.15) * 10;
-                break;
-            case 'SCOUT':
-                this.y += this.s;
-                if (this.timer % 100 < 50) this.x += 2.5; else this.x -= 2.5;
-                break;
-            default:
-                this.y += this.s;
-        }
-        this.x = Math.max(0, Math.min(canvasWidth - this.w, this.x));
-    }
-}
+const downloadJson = (json: string, fileName: string) => {
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};
 
-class Boss {
-    x: number; y: number; width: number = 220; height: number = 140;
-    hp: number; maxHp: number;
-    angle: number = 0;
-    state: 'ENTRY' | 'SPIRAL' | 'HOMING' | 'CHARGE' | 'DYING' = 'ENTRY';
-    stateTimer: number = 0;
-    deathTimer: number = 0;
-
-    constructor(canvasWidth: number, maxHp: number) {
-        this.x = canvasWidth / 2 - 110;
-        this.y = -200;
-        this.hp = maxHp;
-        this.maxHp = maxHp;
-    }
-
-    update(canvasWidth: number, canvasHeight: number) {
-        this.stateTimer++;
-        if (this.state === 'ENTRY') {
-            if (this.y < 120) this.y += 2;
-            else this.state = 'SPIRAL';
-        } else if (this.state === 'SPIRAL') {
-            this.angle += 0.03;
-            this.x = (canvasWidth / 2 - 110) + Math.sin(this.angle) * 200;
-            if (this.stateTimer > 450) { this.state = 'HOMING'; this.stateTimer = 0; }
-        } else if (this.state === 'HOMING') {
-            this.y = 120 + Math.sin(this.stateTimer * 0.04) * 60;
-            this.x += (Math.random() - 0.5) * 20;
-            this.x = Math.max(50, Math.min(canvasWidth - this.width - 50, this.x));
-            if (this.stateTimer > 350) { this.state = 'CHARGE'; this.stateTimer = 0; }
-        } else if (this.state === 'CHARGE') {
-            if (this.stateTimer < 60) this.y -= 2;
-            else {
-                this.y += 22;
-                if (this.y > canvasHeight + 150) {
-                    this.y = -250;
-                    this.state = 'ENTRY';
-                    this.stateTimer = 0;
-                }
-            }
-        } else if (this.state === 'DYING') {
-            this.deathTimer++;
-            this.y += 0.4;
-            this.x += (Math.random() - 0.5) * 8;
-        }
-    }
-}
+const downloadReplay = (file: ReplayFile) =>
+    downloadJson(JSON.stringify(file), `galaxy-defender-${formatSeed(file.run.seed)}-${file.result.score}.json`);
 
 // --- Main App Component ---
 
@@ -238,437 +77,524 @@ const App: React.FC = () => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [gameState, setGameState] = useState<GameState>('START');
     const [isPaused, setIsPaused] = useState(false);
+    // Audio settings opened from the pause overlay
+    const [pauseSettings, setPauseSettings] = useState(false);
     const [score, setScore] = useState(0);
     const [coins, setCoins] = useState(0);
-    const [highScore, setHighScore] = useState(Number(localStorage.getItem('neonHigh') || 0));
-    const [health, setHealth] = useState(100);
+    const [profile, setProfile] = useState<SaveProfile>(() => loadProfile(storage));
+    const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>(() => loadLeaderboard(storage));
+    const [initials, setInitials] = useState('');
+    // The entry signed for the run that just ended, highlighted on the leaderboard
+    const [lastEntry, setLastEntry] = useState<LeaderboardEntry | null>(null);
+    // Hull per ship, player one first
+    const [health, setHealth] = useState<number[]>([100]);
     const [wave, setWave] = useState(1);
-    const [bossHp, setBossHp] = useState<{current: number, max: number} | null>(null);
+    const [bossHp, setBossHp] = useState<{current: number, max: number, name: string} | null>(null);
+    const [combo, setCombo] = useState({ chain: 0, multiplier: 1 });
+    // The chain timer drains every frame, so the meter is sized directly rather than through state
+    const comboMeter = useRef<HTMLDivElement>(null);
+    // Timed power-ups running per ship; their timer rings are swept every frame the same way
+    const [effects, setEffects] = useState<PowerUpType[][]>([[]]);
+    // Ships whose power-ups an EMP storm has put on hold
+    const [jammed, setJammed] = useState<boolean[]>([]);
+    const effectRings = useRef(new Map<string, HTMLDivElement>());
+    // Bonuses paid for the wave just cleared, shown in the shop
+    const [bonuses, setBonuses] = useState<WaveBonus[]>([]);
+    // Campaign only: the stage being flown, the music its script asked for and its latest message
+    const [stage, setStage] = useState<{stage: number, total: number, name: string} | null>(null);
+    const [stageMusic, setStageMusic] = useState<MusicIntensity | null>(null);
+    const [banner, setBanner] = useState('');
+    const bannerTimer = useRef(0);
     const [isMobile] = useState('ontouchstart' in window || navigator.maxTouchPoints > 0);
 
-    const [upgrades, setUpgrades] = useState<Upgrades>({
-        damage: 1,
-        fireRate: 1,
-        speed: 1,
-        maxHealth: 100
-    });
-
-    const gameData = useRef({
-        player: { x: 0, y: 0, w: 40, h: 40, vx: 0, invul: 0, shield: 0, rapidFire: 0, tripleShot: 0 },
-        bullets: [] as Projectile[],
-        enemyBullets: [] as Projectile[],
-        enemies: [] as Enemy[],
-        powerups: [] as PowerUp[],
-        particles: [] as Particle[],
-        stars: [] as {x: number, y: number, s: number, sp: number, l: number}[],
-        boss: null as Boss | null,
-        shake: 0,
-        keys: {} as Record<string, boolean>,
-        lastFire: 0,
-        lastEnemySpawn: 0,
-        startTime: 0,
-        enemiesDefeated: 0,
-        shotsFired: 0,
-        shotsHit: 0,
-    });
-
-    const initStars = (w: number, h: number) => {
-        gameData.current.stars = Array.from({ length: 200 }, () => {
-            const layer = Math.floor(Math.random() * 3);
-            return {
-                x: Math.random() * w,
-                y: Math.random() * h,
-                s: layer + 1,
-                sp: (layer + 1) * 0.7,
-                l: layer
-            };
+    const [upgrades, setUpgrades] = useState<Upgrades>(profile.upgrades);
+    const [consumables, setConsumables] = useState<Consumables>(EMPTY_CONSUMABLES);
+    const [shopTab, setShopTab] = useState<ShopCategory>('STAT');
+    const [seedInput, setSeedInput] = useState('');
+
+    const [sim] = useState(() => new GameSimulation({ upgrades }));
+    const [recorder] = useState(() => new ReplayRecorder(sim));
+    const replay = useRef<ReplayPlayer | null>(null);
+    const benchmark = useRef<CollisionBenchmark | null>(null);
+    const [, setReplayRevision] = useState(0);
+    const [replayError, setReplayError] = useState('');
+    // Achievements unlocked in the last few seconds, oldest first
+    const [toasts, setToasts] = useState<Achievement[]>([]);
+    const refreshReplay = () => setReplayRevision(r => r + 1);
+    // Read by the render loop, which outlives any one render
+    const display = useRef<Settings>(profile.settings);
+    const renderer = useRef<GameRenderer | null>(null);
+    // The backend actually drawing, which differs from the setting when WebGL2 is unavailable
+    const [activeRenderer, setActiveRenderer] = useState<RendererId>('CANVAS');
+    // The stage being edited, and whether the current run is a play-test of it
+    const [draft, setDraft] = useState<StageFile>(() => loadDraft(storage));
+    const testing = useRef(false);
+    // The run left unfinished last time, offered on the start screen
+    const [savedRun, setSavedRun] = useState<SavedRun | null>(() => loadRun(storage, SIMULATION_VERSION));
+
+    useEffect(() => {
+        const unsubscribe = [
+            sim.on('score', e => setScore(e.score)),
+            sim.on('coins', e => setCoins(e.coins)),
+            sim.on('health', e => setHealth(h => {
+                const next = h.slice(0, sim.players.length);
+                next[e.player] = e.health;
+                return next;
+            })),
+            sim.on('effects', e => {
+                setEffects(all => {
+                    const next = all.slice(0, sim.players.length);
+                    next[e.player] = e.active;
+                    return next;
+                });
+                setJammed(all => {
+                    const next = all.slice(0, sim.players.length);
+                    next[e.player] = e.jammed;
+                    return next;
+                });
+            }),
+            sim.on('wave', e => setWave(e.wave)),
+            sim.on('bossHp', hp => setBossHp(hp)),
+            sim.on('combo', c => setCombo(c)),
+            sim.on('waveBonus', e => setBonuses(e.bonuses)),
+            sim.on('consumables', c => setConsumables(c)),
+            sim.on('runStart', () => { setStage(null); setStageMusic(null); setBanner(''); }),
+            sim.on('stageStart', e => setStage(e)),
+            sim.on('music', e => setStageMusic(e.music)),
+            sim.on('message', e => {
+                setBanner(e.text);
+                window.clearTimeout(bannerTimer.current);
+                bannerTimer.current = window.setTimeout(() => setBanner(''), 3000);
+            }),
+            // During playback the recorded shop visit is applied by the player, not the UI
+            sim.on('waveClear', () => { if (!replay.current) setGameState('SHOP'); }),
+            sim.on('gameOver', () => {
+                if (replay.current) return refreshReplay();
+                // Play-tests go straight back to the editor and stay out of the records
+                if (testing.current) return setGameState('EDITOR');
+                clearRun(storage);
+                setSavedRun(null);
+                setProfile(p => recordRun(p, sim));
+                setGameState('GAMEOVER');
+            }),
+            sim.on('sound', e => {
+                if (replay.current?.seeking || benchmark.current) return;
+                sounds.play(e.cue, e.x === undefined ? 0 : panAt(e.x));
+            }),
+        ];
+        return () => unsubscribe.forEach(off => off());
+    }, [sim]);
+
+    useEffect(() => saveLeaderboard(storage, leaderboard), [leaderboard]);
+    useEffect(() => saveDraft(storage, draft), [draft]);
+
+    useEffect(() => {
+        const tracker = new AchievementTracker(sim, profile.achievements, {
+            active: () => !replay.current && !benchmark.current && !testing.current,
+            onUnlock: achievement => {
+                setToasts(t => [...t, achievement]);
+                window.setTimeout(() => setToasts(t => t.filter(a => a !== achievement)), 4000);
+                // A new ship brings its weapon into the arsenal straight away, mid-run included
+                const ship = shipUnlockedBy(achievement.id);
+                if (!ship) return;
+                setProfile(p => ({ ...p, upgrades: grantShipWeapon(p.upgrades, ship) }));
+                if (sim.run.mode !== 'DAILY') setUpgrades(u => grantShipWeapon(u, ship));
+            },
+            onSave: (achievements: AchievementState) => setProfile(p => ({ ...p, achievements })),
+        });
+        return () => tracker.detach();
+    }, [sim]);
+
+    useEffect(() => {
+        saveProfile(storage, profile);
+        const { settings } = profile;
+        sounds.setLevels({ master: settings.volume, sfx: settings.sfxVolume, music: settings.musicVolume, muted: settings.muted });
+        keyboard.bindings = gamepad.bindings = settings.bindings;
+        gamepad.deadzone = settings.deadzone;
+        touch.mode = settings.touchMode;
+        display.current = settings;
+    }, [profile]);
+
+    useEffect(() => {
+        const detach = [keyboard, ...coopKeyboards].map(k => k.attach(window));
+        return () => detach.forEach(off => off());
+    }, []);
+    useEffect(() => touch.reset(), [gameState]);
+
+    // The soundtrack picks up during play and again while a boss is on screen; campaign stages
+    // choose their own music for the rest
+    const bossActive = bossHp !== null;
+    useEffect(() => {
+        const active = (gameState === 'PLAYING' && !isPaused) || gameState === 'REPLAY';
+        sounds.setIntensity(!active ? 'CALM' : bossActive ? 'BOSS' : stageMusic ?? 'ACTION');
+    }, [gameState, isPaused, bossActive, stageMusic]);
+
+    // Daily challenges start from stock upgrades so every entry is comparable. A retry brings the
+    // seed and day of the run it repeats, so a challenge keeps its date past midnight
+    const startGame = (mode: GameMode, seed?: number, day?: string) => {
+        sounds.init();
+        replay.current = null;
+        benchmark.current = null;
+        testing.current = false;
+        const now = new Date();
+        const runSeed = seed ?? (mode === 'DAILY' ? dailySeed(now) : parseSeed(seedInput) ?? randomSeed());
+        // The daily challenge is the same run for everyone
+        const ship: ShipId = mode === 'DAILY' ? 'DEFENDER' : profile.ship;
+        const runUpgrades = shipLoadout(cloneUpgrades(mode === 'DAILY' ? DEFAULT_UPGRADES : profile.upgrades), getShip(ship));
+        setUpgrades(runUpgrades);
+        setLastEntry(null);
+        clearRun(storage);
+        setSavedRun(null);
+        setGameState('PLAYING');
+        setIsPaused(false);
+        const difficulty = mode === 'DAILY' ? DIFFICULTY_PRESETS.NORMAL : profile.settings.difficulty;
+        const autoCollect = mode === 'DAILY' || profile.settings.autoCollect;
+        sim.reset(runUpgrades, {
+            mode, seed: runSeed, difficulty, ship, autoCollect,
+            ...(mode === 'DAILY' && { day: day ?? dailyKey(now) }),
+            ...(mode === 'CAMPAIGN' && { stages: CAMPAIGN }),
         });
     };
 
-    const startGame = () => {
+    // Flies just the edited stage, from `from` seconds in, with the profile's ship and difficulty
+    const testStage = (stage: StageFile, from: number) => {
         sounds.init();
-        const now = performance.now();
+        replay.current = null;
+        benchmark.current = null;
+        testing.current = true;
+        const runUpgrades = shipLoadout(cloneUpgrades(profile.upgrades), getShip(profile.ship));
+        setUpgrades(runUpgrades);
         setGameState('PLAYING');
         setIsPaused(false);
-        setScore(0);
-        setCoins(0);
-        setHealth(upgrades.maxHealth);
-        setWave(1);
-        setBossHp(null);
-        gameData.current.boss = null;
-        gameData.current.enemies = [];
-        gameData.current.bullets = [];
-        gameData.current.enemyBullets = [];
-        gameData.current.powerups = [];
-        gameData.current.particles = [];
-        gameData.current.player.invul = 0;
-        gameData.current.player.shield = 0;
-        gameData.current.player.rapidFire = 0;
-        gameData.current.player.tripleShot = 0;
-        gameData.current.player.vx = 0;
-        gameData.current.startTime = now;
-        gameData.current.lastEnemySpawn = now;
-        gameData.current.enemiesDefeated = 0;
-        gameData.current.shotsFired = 0;
-        gameData.current.shotsHit = 0;
+        sim.reset(runUpgrades, {
+            mode: 'CAMPAIGN', seed: randomSeed(), difficulty: profile.settings.difficulty, ship: profile.ship, autoCollect: profile.settings.autoCollect,
+            stages: [stage], startAt: from,
+        });
     };
 
-    const fire = () => {
-        const now = performance.now();
-        const { player } = gameData.current;
-        const cooldown = (player.rapidFire > 0 ? 80 : 250) / (1 + (upgrades.fireRate * 0.2));
-        if (now - gameData.current.lastFire > cooldown) {
-            gameData.current.shotsFired++;
-            const px = player.x + 18;
-            const py = player.y;
-            if (player.tripleShot > 0) {
-                gameData.current.bullets.push(new Projectile(px, py, 0, -15));
-                gameData.current.bullets.push(new Projectile(px, py, -4, -14));
-                gameData.current.bullets.push(new Projectile(px, py, 4, -14));
-            } else {
-                gameData.current.bullets.push(new Projectile(px, py, 0, -15));
-            }
-            gameData.current.lastFire = now;
-            sounds.shoot();
+    // --- Saved runs ---
+    // A real run is written to storage whenever the player may be about to leave it: on pausing,
+    // in the shop and when the page is hidden or closed. Replays, benchmarks and play-tests are not.
+    const persistRun = (): SavedRun | null => {
+        if (replay.current || benchmark.current || testing.current) return null;
+        if ((gameState !== 'PLAYING' && gameState !== 'SHOP') || sim.status === 'GAMEOVER') return null;
+        const run: SavedRun = {
+            version: SAVED_RUN_VERSION,
+            simVersion: SIMULATION_VERSION,
+            savedAt: new Date().toISOString(),
+            sim: sim.snapshot(),
+            shop: gameState === 'SHOP' ? { upgrades, consumables, bonuses } : null,
+            replay: recorder.toFile(),
+        };
+        saveRun(storage, run);
+        return run;
+    };
+
+    useEffect(() => {
+        if (gameState === 'SHOP' || (gameState === 'PLAYING' && isPaused)) persistRun();
+        const onPageHide = () => persistRun();
+        const onVisibility = () => { if (document.hidden) persistRun(); };
+        window.addEventListener('pagehide', onPageHide);
+        document.addEventListener('visibilitychange', onVisibility);
+        return () => {
+            window.removeEventListener('pagehide', onPageHide);
+            document.removeEventListener('visibilitychange', onVisibility);
+        };
+    }, [gameState, isPaused, upgrades, consumables, bonuses]);
+
+    // Leaving the window mid-wave pauses the run
+    useEffect(() => {
+        if (gameState !== 'PLAYING') return;
+        const pause = () => setIsPaused(true);
+        const onVisibility = () => { if (document.hidden) pause(); };
+        window.addEventListener('blur', pause);
+        document.addEventListener('visibilitychange', onVisibility);
+        return () => {
+            window.removeEventListener('blur', pause);
+            document.removeEventListener('visibilitychange', onVisibility);
+        };
+    }, [gameState]);
+
+    // Picks up where the saved run left off: paused mid-wave, or back in the shop
+    const resumeRun = (saved: SavedRun) => {
+        sounds.init();
+        replay.current = null;
+        benchmark.current = null;
+        testing.current = false;
+        setStage(null);
+        setStageMusic(null);
+        setBanner('');
+        setLastEntry(null);
+        try {
+            sim.restore(saved.sim);
+            if (saved.replay) recorder.resume(saved.replay);
+        } catch (err) {
+            clearRun(storage);
+            setSavedRun(null);
+            setReplayError(`Saved run could not be restored: ${err instanceof Error ? err.message : String(err)}`);
+            return;
         }
+        setUpgrades(saved.shop?.upgrades ?? cloneUpgrades(sim.upgrades));
+        setConsumables(saved.shop?.consumables ?? sim.consumables);
+        setBonuses(saved.shop?.bonuses ?? []);
+        setPauseSettings(false);
+        setIsPaused(saved.sim.status === 'PLAYING');
+        setGameState(saved.sim.status === 'WAVE_CLEAR' ? 'SHOP' : 'PLAYING');
     };
 
-    const takeDamage = (amt: number) => {
-        const { player } = gameData.current;
-        if (player.shield > 0) { player.shield = 0; player.invul = 40; sounds.hit(); return; }
-        setHealth(h => {
-            const next = h - amt;
-            if (next <= 0) { setGameState('GAMEOVER'); sounds.explosion(); return 0; }
-            return next;
-        });
-        player.invul = 80;
-        gameData.current.shake = 25;
-        sounds.hit();
+    // The run stays saved, so it can be resumed from the start screen
+    const quitToMenu = () => {
+        setSavedRun(persistRun());
+        setIsPaused(false);
+        setPauseSettings(false);
+        setGameState('START');
     };
 
+    const exitTest = () => {
+        setIsPaused(false);
+        setGameState('EDITOR');
+    };
+
+    const loadReplay = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const data = parseReplay(await file.text());
+            sounds.init();
+            replay.current = new ReplayPlayer(sim, data);
+            setReplayError('');
+            setIsPaused(false);
+            setGameState('REPLAY');
+        } catch (err) {
+            setReplayError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const exitReplay = () => {
+        replay.current = null;
+        setGameState('START');
+    };
+
+    const startBenchmark = () => {
+        replay.current = null;
+        benchmark.current = new CollisionBenchmark();
+        setIsPaused(false);
+        setGameState('BENCHMARK');
+    };
+
+    const exitBenchmark = () => {
+        benchmark.current = null;
+        setGameState('START');
+    };
+
+    // A canvas only ever holds one kind of context, so changing renderer mounts a fresh canvas
+    const rendererSetting = profile.settings.renderer;
     useEffect(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
-        const ctx = canvas.getContext('2d')!;
-        let animationFrameId: number;
-
-        const resize = () => {
-            canvas.width = window.innerWidth;
-            canvas.height = window.innerHeight;
-            gameData.current.player.x = canvas.width / 2 - 20;
-            gameData.current.player.y = canvas.height - 120;
-            initStars(canvas.width, canvas.height);
-        };
+        const current = createRenderer(canvas, rendererSetting);
+        renderer.current = current;
+        setActiveRenderer(current.id);
+        // Only the canvas follows the window; the playfield keeps its size and is letterboxed
+        const resize = () => current.resize(window.innerWidth, window.innerHeight, window.devicePixelRatio || 1);
         resize();
         window.addEventListener('resize', resize);
+        return () => window.removeEventListener('resize', resize);
+    }, [rendererSetting]);
 
-        const update = (time: number) => {
-            if (isPaused || gameState !== 'PLAYING') return;
-
-            const { player, enemies, bullets, particles, boss, stars, enemyBullets, powerups, keys } = gameData.current;
-
-            // Handle Input
-            const speed = 1.8 + (upgrades.speed * 0.3);
-            if (keys['ArrowLeft'] || keys['KeyA']) player.vx -= speed;
-            if (keys['ArrowRight'] || keys['KeyD']) player.vx += speed;
-            if (keys['Space']) fire();
-
-            const elapsed = (time - gameData.current.startTime) / 1000;
-            // Dynamic Difficulty Scaling: Based on wave, time, and score
-            const scoreFactor = score / 5000;
-            const timeFactor = elapsed / 180;
-            const waveFactor = (wave - 1) * 0.3;
-            const diffMult = 1 + waveFactor + timeFactor + scoreFactor;
-
-            const enemySpeed = 2.4 * diffMult;
-            const spawnRate = Math.max(200, 1800 / diffMult);
-
-            if (gameData.current.enemiesDefeated >= wave * 15 && !boss) {
-                // Boss HP scales with wave, time, and score
-                const baseBossHP = 150 + (wave * 100);
-                const bossHP = Math.floor(baseBossHP * (1 + (elapsed / 300) + (score / 10000)));
-                gameData.current.boss = new Boss(canvas.width, bossHP);
-                sounds.init();
-            }
-
-            player.vx *= 0.86;
-            player.x += player.vx;
-            player.x = Math.max(0, Math.min(canvas.width - player.w, player.x));
-            if (player.invul > 0) player.invul--;
-            if (player.shield > 0) player.shield--;
-            if (player.rapidFire > 0) player.rapidFire--;
-            if (player.tripleShot > 0) player.tripleShot--;
-
-            stars.forEach(s => { s.y += s.sp; if (s.y > canvas.height) s.y = 0; });
-
-            // Using backward loops for safe splicing
-            for (let i = bullets.length - 1; i >= 0; i--) {
-                bullets[i].update();
-                if (bullets[i].y < -50 || bullets[i].x < -50 || bullets[i].x > canvas.width + 50) {
-                    bullets.splice(i, 1);
-                }
-            }
+    useEffect(() => {
+        let animationFrameId: number;
 
-            for (let i = enemyBullets.length - 1; i >= 0; i--) {
-                enemyBullets[i].update();
-                const b = enemyBullets[i];
-                if (b.y > canvas.height + 50 || b.y < -250 || b.x < -250 || b.x > canvas.width + 250) {
-                    enemyBullets.splice(i, 1);
-                    continue;
-                }
-                if (player.invul === 0 && b.x > player.x && b.x < player.x + player.w && b.y > player.y && b.y < player.y + player.h) {
-                    takeDamage(15);
-                    enemyBullets.splice(i, 1);
-                }
-            }
 
-            for (let i = powerups.length - 1; i >= 0; i--) {
-                const p = powerups[i];
-                p.update();
-                if (p.y > canvas.height) {
-                    powerups.splice(i, 1);
-                    continue;
-                }
-                if (p.x < player.x + player.w && p.x + p.w > player.x && p.y < player.y + player.h && p.y + p.h > player.y) {
-                    sounds.powerup();
-                    if (p.type === 'RAPID_FIRE') player.rapidFire = 600;
-                    if (p.type === 'SHIELD') player.shield = 600;
-                    if (p.type === 'TRIPLE_SHOT') player.tripleShot = 600;
-                    if (p.type === 'HEAL') setHealth(h => Math.min(upgrades.maxHealth, h + 30));
-                    powerups.splice(i, 1);
-                }
-            }
+        const isRunning = () => {
+            if (gameState === 'REPLAY') return !!replay.current && !replay.current.paused && !replay.current.finished;
+            if (gameState === 'BENCHMARK') return !!benchmark.current;
+            return gameState === 'PLAYING' && !isPaused && sim.status === 'PLAYING';
+        };
 
-            if (!boss && time - gameData.current.lastEnemySpawn > spawnRate) {
-                const r = Math.random();
-                let type: EnemyType = 'BASIC';
-                if (r > 0.9) type = 'DIVER';
-                else if (r > 0.75) type = 'SCOUT';
-                else if (r > 0.6) type = 'ZIGZAG';
-                else if (r > 0.4) type = 'SINE';
-                enemies.push(new Enemy(canvas.width, type, enemySpeed));
-                gameData.current.lastEnemySpawn = time;
-            }
+        const update = () => {
+            if (gameState === 'REPLAY') replay.current?.update();
+            else if (gameState === 'BENCHMARK') benchmark.current?.step();
+            else sim.step(...inputsFor(sim.run.mode).map((m, i) => m.snapshot(sim.players[i])));
+        };
 
-            if (boss) {
-                boss.update(canvas.width, canvas.height);
-                setBossHp({ current: boss.hp, max: boss.maxHp });
-                if (boss.state !== 'DYING') {
-                    if (boss.state === 'SPIRAL' && boss.stateTimer % 12 === 0) {
-                        const a = boss.stateTimer * 0.15;
-                        enemyBullets.push(new Projectile(boss.x + boss.width / 2, boss.y + boss.height, Math.cos(a) * 5, Math.sin(a) * 5 + 3, true));
-                    }
-                    if (boss.state === 'HOMING' && boss.stateTimer % 50 === 0) {
-                        const dx = (player.x + 20) - (boss.x + boss.width / 2);
-                        const dy = (player.y + 20) - (boss.y + boss.height);
-                        const dist = Math.sqrt(dx * dx + dy * dy) || 1;
-                        enemyBullets.push(new Projectile(boss.x + boss.width / 2, boss.y + boss.height, (dx / dist) * 8, (dy / dist) * 8, true));
-                    }
-                    for (let bi = bullets.length - 1; bi >= 0; bi--) {
-                        const b = bullets[bi];
-                        if (b.x > boss.x && b.x < boss.x + boss.width && b.y > boss.y && b.y < boss.y + boss.height) {
-                            boss.hp -= upgrades.damage;
-                            gameData.current.shotsHit++;
-                            bullets.splice(bi, 1);
-                            if (boss.hp <= 0) {
-                                boss.state = 'DYING';
-                                gameData.current.shake = 30;
-                                sounds.explosion();
-                            }
-                        }
-                    }
-                    if (player.invul === 0 && boss.x < player.x + player.w && boss.x + boss.width > player.x && boss.y < player.y + player.h && boss.y + boss.height > player.y) {
-                        takeDamage(25);
-                    }
-                } else {
-                    if (boss.deathTimer % 5 === 0) {
-                        particles.push(new Particle(boss.x + Math.random() * boss.width, boss.y + Math.random() * boss.height, '#ff00ea'));
-                        if (boss.deathTimer % 15 === 0) sounds.explosion();
-                    }
-                    if (boss.deathTimer > 180) {
-                        setScore(s => s + 2000);
-                        setCoins(c => c + 150);
-                        setWave(w => w + 1);
-                        gameData.current.enemiesDefeated = 0;
-                        gameData.current.boss = null;
-                        setBossHp(null);
-                        setGameState('SHOP');
-                    }
-                }
-            }
+        // Pause works from any device, so it is read from the polled actions rather than key events
+        const handlePause = () => {
+            if (!inputsFor(sim.run.mode).some(m => m.pressed('Pause'))) return;
+            if (gameState === 'PLAYING') { setIsPaused(p => !p); setPauseSettings(false); }
+            if (gameState === 'REPLAY' && replay.current) { replay.current.paused = !replay.current.paused; refreshReplay(); }
+        };
 
-            for (let i = enemies.length - 1; i >= 0; i--) {
-                const e = enemies[i];
-                e.update(canvas.width);
-                if (e.canShoot && Math.random() < e.shootRate * diffMult) {
-                    enemyBullets.push(new Projectile(e.x + 20, e.y + 40, 0, 7, true));
-                }
-                if (e.y > canvas.height + 60) {
-                    enemies.splice(i, 1);
-                    continue;
-                }
-                for (let bi = bullets.length - 1; bi >= 0; bi--) {
-                    const b = bullets[bi];
-                    if (b.x > e.x && b.x < e.x + e.w && b.y > e.y && b.y < e.y + e.h) {
-                        e.hp -= upgrades.damage;
-                        gameData.current.shotsHit++;
-                        bullets.splice(bi, 1);
-                        if (e.hp <= 0) {
-                            enemies.splice(i, 1);
-                            gameData.current.enemiesDefeated++;
-                            setScore(s => s + 50);
-                            setCoins(c => c + 10);
-                            for (let k = 0; k < 10; k++) particles.push(new Particle(e.x + 20, e.y + 20, `hsl(${e.hue}, 100%, 50%)`));
-                            sounds.explosion();
-                            if (Math.random() < 0.18) {
-                                const types: PowerUpType[] = ['RAPID_FIRE', 'SHIELD', 'TRIPLE_SHOT', 'HEAL'];
-                                powerups.push(new PowerUp(e.x, e.y, types[Math.floor(Math.random() * types.length)]));
-                            }
-                        } else {
-                            sounds.hit();
-                        }
-                    }
-                }
-                if (e.x < player.x + player.w && e.x + e.w > player.x && e.y < player.y + player.h && e.y + e.h > player.y && player.invul === 0) {
-                    enemies.splice(i, 1);
-                    takeDamage(20);
+        // Fixed-timestep loop: real time is banked in an accumulator and spent in whole ticks,
+        // then the frame is drawn part way between the last two ticks.
+        const MAX_TICKS_PER_FRAME = 8;
+        let lastFrame = performance.now();
+        let accumulator = 0;
+        const frame = (now: number) => {
+            const elapsed = Math.max(0, now - lastFrame);
+            lastFrame = now;
+            inputsFor(sim.run.mode).forEach(m => m.poll());
+            handlePause();
+            if (isRunning()) {
+                accumulator += elapsed;
+                let ticks = 0;
+                while (accumulator >= TICK_MS && ticks < MAX_TICKS_PER_FRAME && isRunning()) {
+                    update();
+                    accumulator -= TICK_MS;
+                    ticks++;
                 }
+                // Drop the backlog after a long stall (tab switch, debugger) instead of fast-forwarding
+                if (ticks === MAX_TICKS_PER_FRAME) accumulator = 0;
+            } else {
+                accumulator = 0;
             }
+            if (comboMeter.current) comboMeter.current.style.width = `${sim.combo.fraction * 100}%`;
+            effectRings.current.forEach((ring, key) => {
+                const [player, type] = key.split(':');
+                const effect = sim.players[+player]?.effects[type as PowerUpType];
+                if (effect) ring.style.background = `conic-gradient(${ring.dataset.color} ${(effect.time / effect.duration) * 360}deg, rgba(255,255,255,0.1) 0)`;
+            });
+            renderer.current?.render(benchmark.current?.sim ?? sim, isRunning() ? accumulator / TICK_MS : 1, {
+                palette: getPalette(display.current.palette),
+                reducedMotion: display.current.reducedMotion,
+            });
+            animationFrameId = requestAnimationFrame(frame);
+        };
 
-            for (let i = particles.length - 1; i >= 0; i--) {
-                particles[i].update();
-                if (particles[i].life <= 0) particles.splice(i, 1);
-            }
-            if (gameData.current.shake > 0) gameData.current.shake *= 0.92;
+        animationFrameId = requestAnimationFrame(frame);
+        return () => {
+            cancelAnimationFrame(animationFrameId);
         };
+    }, [gameState, isPaused, sim]);
 
-        const draw = () => {
-            ctx.fillStyle = '#050505';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-            const { player, enemies, bullets, particles, boss, stars, shake, enemyBullets, powerups } = gameData.current;
-
-            ctx.save();
-            if (shake > 0.1) ctx.translate((Math.random() - 0.5) * shake, (Math.random() - 0.5) * shake);
-
-            stars.forEach(s => { ctx.globalAlpha = (s.l + 1) / 4; ctx.fillStyle = '#fff'; ctx.fillRect(s.x, s.y, s.s, s.s); });
-            ctx.globalAlpha = 1;
-
-            powerups.forEach(p => {
-                const s = 1 + Math.sin(p.pulse) * 0.2;
-                ctx.strokeStyle = p.type === 'RAPID_FIRE' ? '#ff00ea' : p.type === 'SHIELD' ? '#ffea00' : p.type === 'TRIPLE_SHOT' ? '#00f2ff' : '#00ff00';
-                ctx.lineWidth = 3;
-                ctx.strokeRect(p.x + (p.w - p.w * s) / 2, p.y + (p.h - p.h * s) / 2, p.w * s, p.h * s);
-                ctx.fillStyle = ctx.strokeStyle;
-                ctx.font = 'bold 18px Arial';
-                ctx.fillText(p.type[0], p.x + 8, p.y + 22);
-            });
+    const shopState: ShopState = { upgrades, consumables };
 
-            if (player.invul % 10 < 5) {
-                ctx.strokeStyle = '#00f2ff';
-                ctx.lineWidth = 4;
-                ctx.beginPath();
-                ctx.moveTo(player.x + 20, player.y);
-                ctx.lineTo(player.x - 5, player.y + 45);
-                ctx.lineTo(player.x + 45, player.y + 45);
-                ctx.closePath();
-                ctx.stroke();
-                if (player.shield > 0) {
-                    ctx.strokeStyle = '#ffea00';
-                    ctx.setLineDash([10, 5]);
-                    ctx.beginPath(); ctx.arc(player.x + 20, player.y + 28, 45, 0, Math.PI * 2); ctx.stroke();
-                    ctx.setLineDash([]);
-                }
-            }
+    // Daily runs shop from stock every time, so only endless purchases are kept
+    const applyShop = (next: ShopState) => {
+        setUpgrades(next.upgrades);
+        setConsumables(next.consumables);
+        if (sim.run.mode !== 'DAILY') setProfile(p => ({ ...p, upgrades: next.upgrades }));
+    };
 
-            ctx.fillStyle = player.rapidFire > 0 ? '#ff00ea' : '#00f2ff';
-            bullets.forEach(b => ctx.fillRect(b.x, b.y, b.w, b.h));
-            ctx.fillStyle = '#ff0044';
-            enemyBullets.forEach(b => ctx.fillRect(b.x, b.y, 6, 6));
-
-            enemies.forEach(e => {
-                ctx.strokeStyle = `hsl(${e.hue}, 100%, 50%)`;
-                ctx.lineWidth = 3;
-                if (e.type === 'DIVER') {
-                    ctx.beginPath(); ctx.moveTo(e.x + 20, e.y); ctx.lineTo(e.x + 40, e.y + 40); ctx.lineTo(e.x, e.y + 40); ctx.closePath(); ctx.stroke();
-                } else if (e.type === 'SCOUT') {
-                    ctx.strokeRect(e.x + 5, e.y + 10, 30, 20);
-                    ctx.strokeRect(e.x + 15, e.y, 10, 10);
-                } else {
-                    ctx.strokeRect(e.x, e.y, e.w, e.h);
-                }
-            });
+    const buyNode = (node: ShopNode) => {
+        const check = checkPurchase(node, shopState, coins);
+        if (!check.ok || !sim.spendCoins(check.cost)) return;
+        applyShop(node.buy(shopState));
+        sounds.play('powerup');
+    };
 
-            if (boss) {
-                ctx.strokeStyle = boss.state === 'CHARGE' ? '#ff0044' : '#ff00ea';
-                ctx.lineWidth = 6;
-                ctx.strokeRect(boss.x, boss.y, boss.width, boss.height);
-                ctx.fillStyle = 'rgba(255, 0, 234, 0.05)';
-                ctx.fillRect(boss.x, boss.y, boss.width, boss.height);
-                ctx.strokeRect(boss.x - 15, boss.y + 20, 15, 60); ctx.strokeRect(boss.x + boss.width, boss.y + 20, 15, 60);
-            }
+    const refundNode = (node: ShopNode) => {
+        const check = checkRefund(node, shopState);
+        if (!check.ok || !node.sell) return;
+        sim.refundCoins(check.refund);
+        applyShop(node.sell(shopState));
+    };
 
-            particles.forEach(p => { ctx.globalAlpha = p.life; ctx.fillStyle = p.color; ctx.beginPath(); ctx.arc(p.x, p.y, 2.5, 0, Math.PI * 2); ctx.fill(); });
-            ctx.globalAlpha = 1;
-            ctx.restore();
+    const respecAll = () => {
+        const { upgrades: reset, refund } = respec(upgrades);
+        if (refund <= 0) return;
+        sim.refundCoins(refund);
+        applyShop({ upgrades: reset, consumables });
+    };
 
-            animationFrameId = requestAnimationFrame((t) => { update(t); draw(); });
-        };
+    const equipWeapon = (weapon: WeaponId) => applyShop({ upgrades: { ...cloneUpgrades(upgrades), weapon }, consumables });
 
-        const onKeyDown = (e: KeyboardEvent) => {
-            gameData.current.keys[e.code] = true;
-            if (e.code === 'KeyP' && gameState === 'PLAYING') setIsPaused(p => !p);
-        };
-        const onKeyUp = (e: KeyboardEvent) => gameData.current.keys[e.code] = false;
-        window.addEventListener('keydown', onKeyDown);
-        window.addEventListener('keyup', onKeyUp);
+    const submitScore = () => {
+        const entry = entryFromRun(sim, initials);
+        setLeaderboard(board => addEntry(board, entry));
+        setLastEntry(entry);
+        setGameState('LEADERBOARD');
+    };
 
-        draw();
-        return () => {
-            cancelAnimationFrame(animationFrameId);
-            window.removeEventListener('keydown', onKeyDown);
-            window.removeEventListener('keyup', onKeyUp);
-            window.removeEventListener('resize', resize);
-        };
-    }, [gameState, isPaused, upgrades]);
-
-    const buyUpgrade = (key: keyof Upgrades) => {
-        let cost = 0;
-        if (key === 'maxHealth') {
-            cost = Math.floor((upgrades.maxHealth / 20) * 50);
-        } else {
-            cost = upgrades[key] * 50;
-        }
+    const updateSettings = (patch: Partial<Settings>) => setProfile(p => ({ ...p, settings: { ...p.settings, ...patch } }));
 
-        if (coins >= cost) {
-            setCoins(c => c - cost);
-            setUpgrades(prev => {
-                const newVal = prev[key] + (key === 'maxHealth' ? 20 : 1);
-                return { ...prev, [key]: newVal };
-            });
-            sounds.powerup();
-        }
+    // Converts a screen position to playfield x, undoing the renderer's letterbox
+    const toPlayfieldX = (clientX: number) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return clientX;
+        const rect = canvas.getBoundingClientRect();
+        const view = fitView(rect.width, rect.height, sim.width, sim.height);
+        return (clientX - rect.left - view.x) / view.scale;
+    };
+
+    // Stereo position of a playfield x, from where it lands on the canvas
+    const panAt = (x: number) => {
+        const canvas = canvasRef.current;
+        if (!canvas || !canvas.width) return 0;
+        const view = fitView(canvas.width, canvas.height, sim.width, sim.height);
+        const screenX = view.x + x * view.scale;
+        return Math.max(-1, Math.min(1, (screenX / canvas.width) * 2 - 1)) * 0.8;
     };
 
-    const accuracy = gameData.current.shotsFired > 0 
-        ? Math.round((gameData.current.shotsHit / gameData.current.shotsFired) * 100) 
-        : 0;
+    const { bindings } = profile.settings;
+    const palette = getPalette(profile.settings.palette);
+    const { uiScale } = profile.settings;
+
+    const accuracy = sim.accuracy;
+    const coop = sim.players.length > 1;
+    const { shotsFired, shotsHit } = profile.stats;
+    const lifetimeAccuracy = shotsFired > 0 ? Math.round((shotsHit / shotsFired) * 100) : 0;
 
     return (
         <div style={styles.container}>
-            <canvas ref={canvasRef} style={styles.canvas} />
+            <canvas key={rendererSetting} ref={canvasRef} style={styles.canvas} />
 
-            <div style={styles.ui}>
+            {/* Zoomed overlays are shrunk to match, so they still cover exactly the screen */}
+            <div style={{...styles.ui, zoom: uiScale, width: `${100 / uiScale}%`, height: `${100 / uiScale}%`}}>
                 {gameState === 'START' && (
                     <div style={styles.menuOverlay}>
                         <h1 style={styles.title}>GALAXY DEFENDER</h1>
                         <p style={styles.subtitle}>NEON STRIKE RECHARGED</p>
-                        <p style={styles.statLine}>HIGH SCORE: {highScore}</p>
-                        <button style={styles.btn} onClick={startGame}>INITIALIZE</button>
-                        <div style={styles.hint}>[WASD] MOVE &bull; [SPACE] FIRE &bull; [P] PAUSE</div>
+                        <p style={styles.statLine}>
+                            HIGH SCORE: {profile.bestScores.ENDLESS} &bull; DAILY BEST: {profile.bestScores.DAILY} &bull; CO-OP BEST: {profile.bestScores.COOP} &bull; CAMPAIGN BEST: {profile.bestScores.CAMPAIGN}
+                        </p>
+                        <ShipPicker selected={profile.ship} unlocked={profile.achievements.unlocked}
+                            onSelect={ship => setProfile(p => ({ ...p, ship }))} />
+                        {savedRun && (
+                            <>
+                                <button style={styles.btn} onClick={() => resumeRun(savedRun)}>RESUME RUN</button>
+                                <div style={styles.seedLine}>
+                                    {savedRun.sim.run.mode} &bull; WAVE {savedRun.sim.wave} &bull; SCORE {savedRun.sim.score}
+                                </div>
+                            </>
+                        )}
+                        <input style={styles.seedInput} placeholder="SEED (BLANK = RANDOM)" value={seedInput}
+                            onChange={e => setSeedInput(e.target.value)} maxLength={24} />
+                        <button style={styles.btn} onClick={() => startGame('ENDLESS')}>INITIALIZE</button>
+                        <button style={styles.btn} onClick={() => startGame('CAMPAIGN')}>CAMPAIGN</button>
+                        <div style={styles.seedLine}>{CAMPAIGN.length} STAGES &bull; UPGRADES CARRY OVER</div>
+                        <button style={{...styles.btn, borderColor: '#ff00ea'}} onClick={() => startGame('DAILY')}>DAILY CHALLENGE</button>
+                        <div style={styles.seedLine}>DAILY {dailyKey()} &bull; SEED {formatSeed(dailySeed())}</div>
+                        <button style={{...styles.btn, borderColor: palette.players[1]}} onClick={() => startGame('COOP')}>CO-OP</button>
+                        <div style={styles.seedLine}>
+                            P1 [A/D] [SPACE] [Q] &bull; P2 [&larr;/&rarr;] [ENTER] [R-SHIFT] OR GAMEPAD
+                        </div>
+                        <label style={styles.linkBtn}>
+                            LOAD REPLAY
+                            <input type="file" accept=".json,application/json" style={{display: 'none'}}
+                                onChange={e => { loadReplay(e.target.files?.[0]); e.target.value = ''; }} />
+                        </label>
+                        {replayError && <div style={styles.errorLine}>{replayError}</div>}
+                        <button style={styles.linkBtn} onClick={() => setGameState('LEADERBOARD')}>LEADERBOARD</button>
+                        <button style={styles.linkBtn} onClick={() => setGameState('ACHIEVEMENTS')}>
+                            ACHIEVEMENTS {profile.achievements.unlocked.length}/{ACHIEVEMENTS.length}
+                        </button>
+                        <button style={styles.linkBtn} onClick={startBenchmark}>COLLISION BENCHMARK</button>
+                        <button style={styles.linkBtn} onClick={() => setGameState('CONTROLS')}>CONTROLS</button>
+                        <button style={styles.linkBtn} onClick={() => setGameState('EDITOR')}>STAGE EDITOR</button>
+                        <button style={styles.linkBtn} onClick={() => { sounds.init(); setGameState('SETTINGS'); }}>
+                            SETTINGS &bull; {profile.settings.difficulty.preset}{profile.settings.muted ? ' (MUTED)' : ''}
+                        </button>
+                        <div style={styles.seedLine}>
+                            RUNS {profile.stats.runs} &bull; KILLS {profile.stats.kills} &bull; BOSSES {profile.stats.bossesDefeated} &bull; ACCURACY {lifetimeAccuracy}%
+                        </div>
+                        <div style={styles.hint}>
+                            [{keyHint(bindings, 'MoveLeft')}/{keyHint(bindings, 'MoveRight')}] MOVE &bull; [{keyHint(bindings, 'Fire')}] FIRE
+                            &bull; [{keyHint(bindings, 'Bomb')}] BOMB &bull; [{keyHint(bindings, 'Pause')}] PAUSE &bull; GAMEPAD READY
+                        </div>
                     </div>
                 )}
 
-                {gameState === 'PLAYING' && (
+                {(gameState === 'PLAYING' || gameState === 'REPLAY') && (
                     <>
                         <div style={styles.hudTop}>
                             <div style={styles.hudGroup}>
@@ -676,8 +602,8 @@ const App: React.FC = () => {
                                 <div style={styles.hudValue}>{score}</div>
                             </div>
                             <div style={styles.hudGroup}>
-                                <div style={styles.hudLabel}>WAVE</div>
-                                <div style={styles.hudValue}>{wave}</div>
+                                <div style={styles.hudLabel}>{stage ? 'STAGE' : 'WAVE'}</div>
+                                <div style={styles.hudValue}>{stage ? `${stage.stage}/${stage.total}` : wave}</div>
                             </div>
                             <div style={styles.hudGroup}>
                                 <div style={styles.hudLabel}>COINS</div>
@@ -685,49 +611,119 @@ const App: React.FC = () => {
                             </div>
                         </div>
 
-                        <div style={styles.healthBarContainer}>
-                            <div style={{...styles.healthBarInner, width: `${Math.max(0, (health / upgrades.maxHealth) * 100)}%`}} />
-                            <div style={styles.healthBarText}>HULL STABILITY</div>
-                        </div>
+                        {combo.chain > 0 && (
+                            <div style={styles.comboContainer}>
+                                <div style={styles.comboLabel}>
+                                    CHAIN {combo.chain} <span style={{...styles.comboMultiplier, color: palette.warning}}>x{combo.multiplier}</span>
+                                </div>
+                                <div style={styles.comboBarOuter}>
+                                    <div ref={comboMeter} style={{...styles.comboBarInner, background: palette.warning}} />
+                                </div>
+                            </div>
+                        )}
+
+                        {sim.players.map((p, i) => (
+                            <div key={i} style={{...styles.healthBarContainer, ...(coop && { left: `${(i + 1) * 100 / 3}%`, width: '220px', borderColor: palette.players[i] })}}>
+                                <div style={{...styles.healthBarInner, width: `${Math.max(0, ((health[i] ?? 0) / sim.upgrades.maxHealth) * 100)}%`}} />
+                                <div style={{...styles.healthBarText, color: palette.players[i]}}>
+                                    {!coop ? 'HULL STABILITY' : p.downed ? `P${i + 1} DOWN - FLY CLOSE TO REVIVE` : `P${i + 1} HULL`}
+                                </div>
+                            </div>
+                        ))}
 
                         <div style={styles.powerupStatus}>
-                            {gameData.current.player.rapidFire > 0 && <div style={{color:'#ff00ea'}}>RAPID FIRE</div>}
-                            {gameData.current.player.tripleShot > 0 && <div style={{color:'#00f2ff'}}>TRIPLE SHOT</div>}
-                            {gameData.current.player.shield > 0 && <div style={{color:'#ffea00'}}>SHIELD</div>}
+                            {sim.players.map((p, i) => (!!effects[i]?.length || jammed[i]) && (
+                                <div key={i} style={styles.effectRow}>
+                                    {coop && <span style={{color: palette.players[i]}}>P{i + 1}</span>}
+                                    {jammed[i] && <span style={{color: palette.hazards.EMP_STORM}}>EMP</span>}
+                                    {effects[i].map(type => {
+                                        const key = `${i}:${type}`;
+                                        const stacks = p.effects[type]?.stacks ?? 1;
+                                        return (
+                                            <div key={key} title={POWERUPS[type].name} data-color={palette.powerups[type]}
+                                                ref={el => { if (el) effectRings.current.set(key, el); else effectRings.current.delete(key); }}
+                                                style={{...styles.effectRing, background: palette.powerups[type], opacity: jammed[i] ? 0.35 : 1}}>
+                                                <div style={{...styles.effectGlyph, color: palette.powerups[type]}}>
+                                                    {POWERUPS[type].short}{stacks > 1 && <sub>{stacks}</sub>}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            ))}
+                            {consumables.SMART_BOMB > 0 && <div style={{color:'#ff8800'}}>[B] BOMB x{consumables.SMART_BOMB}</div>}
+                            {consumables.SHIELD_CHARGE > 0 && <div style={{color:'#ffea00'}}>SHIELD CHARGE x{consumables.SHIELD_CHARGE}</div>}
+                            {consumables.REPAIR_KIT > 0 && <div style={{color:'#00ffaa'}}>REPAIR KIT x{consumables.REPAIR_KIT}</div>}
                         </div>
 
-                        {isPaused && (
+                        {isPaused && (pauseSettings ? (
+                            <SettingsScreen settings={profile.settings} activeRenderer={activeRenderer} onChange={updateSettings} onBack={() => setPauseSettings(false)} />
+                        ) : (
                             <div style={styles.blurOverlay}>
                                 <h2 style={styles.pauseTitle}>SYSTEMS PAUSED</h2>
-                                <p style={styles.statLine}>PRESS 'P' TO RESUME</p>
+                                <button style={styles.btn} onClick={() => setIsPaused(false)}>RESUME</button>
+                                <p style={styles.statLine}>OR PRESS '{keyHint(bindings, 'Pause')}'</p>
+                                <button style={styles.linkBtn} onClick={() => setPauseSettings(true)}>SETTINGS</button>
+                                {testing.current ? (
+                                    <button style={styles.linkBtn} onClick={exitTest}>BACK TO EDITOR</button>
+                                ) : (
+                                    <>
+                                        <button style={styles.linkBtn} onClick={() => startGame(sim.run.mode)}>RESTART</button>
+                                        <button style={styles.linkBtn} onClick={quitToMenu}>QUIT TO MENU</button>
+                                    </>
+                                )}
                             </div>
-                        )}
+                        ))}
+
+                        {banner && <div style={styles.banner}>{banner}</div>}
 
                         {bossHp && (
                             <div style={styles.bossBarContainer}>
-                                <div style={styles.bossLabel}>BOSS INTEGRITY</div>
+                                <div style={styles.bossLabel}>{bossHp.name} &bull; INTEGRITY</div>
                                 <div style={styles.bossBarOuter}>
                                     <div style={{...styles.bossBarInner, width: `${(bossHp.current / bossHp.max) * 100}%`}} />
                                 </div>
                             </div>
                         )}
 
-                        {isMobile && (
+                        {gameState === 'REPLAY' && replay.current && (
+                            <ReplayControls player={replay.current} onChange={refreshReplay} onExit={exitReplay} />
+                        )}
+
+                        {isMobile && gameState === 'PLAYING' && profile.settings.touchMode === 'DRAG' && (
+                            <div style={styles.dragSurface}
+                                onTouchStart={e => touch.drag(toPlayfieldX(e.touches[0].clientX))}
+                                onTouchMove={e => touch.drag(toPlayfieldX(e.touches[0].clientX))}
+                                onTouchEnd={e => { if (e.touches.length === 0) touch.drag(null); }}
+                            />
+                        )}
+
+                        {isMobile && gameState === 'PLAYING' && (
                             <div style={styles.mobileControls}>
-                                <div style={styles.dpad}>
-                                    <button style={styles.dpadBtn} 
-                                        onTouchStart={() => gameData.current.keys['ArrowLeft'] = true}
-                                        onTouchEnd={() => gameData.current.keys['ArrowLeft'] = false}
-                                    >←</button>
-                                    <button style={styles.dpadBtn}
-                                        onTouchStart={() => gameData.current.keys['ArrowRight'] = true}
-                                        onTouchEnd={() => gameData.current.keys['ArrowRight'] = false}
-                                    >→</button>
-                                </div>
-                                <button style={styles.fireBtn}
-                                    onTouchStart={() => gameData.current.keys['Space'] = true}
-                                    onTouchEnd={() => gameData.current.keys['Space'] = false}
-                                >FIRE</button>
+                                {profile.settings.touchMode === 'DPAD' ? (
+                                    <div style={styles.dpad}>
+                                        <button style={styles.dpadBtn}
+                                            onTouchStart={() => touch.set('MoveLeft', true)}
+                                            onTouchEnd={() => touch.set('MoveLeft', false)}
+                                        >←</button>
+                                        <button style={styles.dpadBtn}
+                                            onTouchStart={() => touch.set('MoveRight', true)}
+                                            onTouchEnd={() => touch.set('MoveRight', false)}
+                                        >→</button>
+                                    </div>
+                                ) : <div />}
+                                {consumables.SMART_BOMB > 0 && (
+                                    <button style={{...styles.dpadBtn, fontSize: '0.9rem', borderColor: '#ff8800'}}
+                                        onTouchStart={() => touch.set('Bomb', true)}
+                                        onTouchEnd={() => touch.set('Bomb', false)}
+                                    >BOMB</button>
+                                )}
+                                {profile.settings.touchMode === 'DPAD' && (
+                                    <button style={styles.fireBtn}
+                                        onTouchStart={() => touch.set('Fire', true)}
+                                        onTouchEnd={() => touch.set('Fire', false)}
+                                    >FIRE</button>
+                                )}
                             </div>
                         )}
                     </>
@@ -736,30 +732,95 @@ const App: React.FC = () => {
                 {gameState === 'SHOP' && (
                     <div style={styles.menuOverlay}>
                         <h1 style={styles.title}>COMMAND CENTER</h1>
-                        <p style={{color: '#00f2ff', fontSize: '1.2rem', marginBottom: '10px'}}>WAVE {wave-1} CLEARED</p>
+                        <p style={{color: '#00f2ff', fontSize: '1.2rem', marginBottom: '10px'}}>{stage ? `STAGE ${wave - 1} CLEARED - ${stage.name}` : `WAVE ${wave - 1} CLEARED`}</p>
                         <div style={styles.statsPanel}>
                             <p>CURRENT COINS: {coins}</p>
-                            <p>LAST WAVE ACCURACY: {accuracy}%</p>
+                            {bonuses.length === 0 && <p>NO WAVE BONUS</p>}
+                            {bonuses.map(b => <p key={b.id} style={{color: palette.good}}>{b.label} BONUS: +{b.points}</p>)}
+                        </div>
+                        <div style={styles.replayRow}>
+                            {SHOP_TABS.map(t => (
+                                <button key={t.id} style={{...styles.buyBtn, opacity: shopTab === t.id ? 1 : 0.5}} onClick={() => setShopTab(t.id)}>{t.label}</button>
+                            ))}
                         </div>
                         <div style={styles.shopGrid}>
-                            <ShopItem label="WEAPON DAMAGE" val={upgrades.damage} cost={upgrades.damage*50} onBuy={() => buyUpgrade('damage')} />
-                            <ShopItem label="FIRE RATE" val={upgrades.fireRate} cost={upgrades.fireRate*50} onBuy={() => buyUpgrade('fireRate')} />
-                            <ShopItem label="THRUSTER SPEED" val={upgrades.speed} cost={upgrades.speed*50} onBuy={() => buyUpgrade('speed')} />
-                            <ShopItem label="MAX HULL" val={upgrades.maxHealth} cost={Math.floor((upgrades.maxHealth/20)*50)} onBuy={() => buyUpgrade('maxHealth')} />
+                            {SHOP_NODES.filter(n => n.category === shopTab).map(node => (
+                                <ShopCard key={node.id} node={node} state={shopState} coins={coins}
+                                    onBuy={() => buyNode(node)} onRefund={() => refundNode(node)} onEquip={equipWeapon} />
+                            ))}
+                        </div>
+                        <div style={styles.shopSheet}>
+                            {statSheet(shopState).map(line => <span key={line.label}>{line.label} <b>{line.value}</b></span>)}
                         </div>
-                        <button style={styles.btn} onClick={() => { setGameState('PLAYING'); setHealth(upgrades.maxHealth); }}>NEXT WAVE</button>
+                        <button style={styles.linkBtn} onClick={respecAll}>RESPEC ALL (+{investedIn(upgrades)}C)</button>
+                        <button style={styles.btn} onClick={() => { sim.nextWave(upgrades, consumables); setGameState('PLAYING'); }}>NEXT WAVE</button>
                     </div>
                 )}
 
                 {gameState === 'GAMEOVER' && (
                     <div style={styles.menuOverlay}>
-                        <h1 style={{...styles.title, color: '#ff0044'}}>MISSION FAILED</h1>
+                        {sim.victory
+                            ? <h1 style={{...styles.title, color: palette.good}}>CAMPAIGN COMPLETE</h1>
+                            : <h1 style={{...styles.title, color: '#ff0044'}}>MISSION FAILED</h1>}
                         <div style={styles.statsPanel}>
                             <p>FINAL SCORE: {score}</p>
-                            <p>WAVES COMPLETED: {wave - 1}</p>
+                            <p>{stage ? `STAGES CLEARED: ${wave - 1}/${stage.total}` : `WAVES COMPLETED: ${wave - 1}`}</p>
                             <p>TOTAL ACCURACY: {accuracy}%</p>
+                            <p>BEST CHAIN: {sim.combo.best} &bull; GRAZES: {sim.grazes}</p>
+                            <p>{sim.run.mode === 'DAILY' ? `DAILY CHALLENGE ${sim.run.day}` : coop ? 'CO-OP' : sim.run.mode} &bull; {sim.run.difficulty.preset} &bull; SEED {formatSeed(sim.run.seed)}</p>
                         </div>
-                        <button style={{...styles.btn, borderColor: '#ff0044', color: '#ff0044'}} onClick={startGame}>RESTART MISSION</button>
+                        {coop && <PilotBreakdown sim={sim} colors={palette.players} />}
+                        {!lastEntry && score > 0 && (
+                            <div style={styles.replayRow}>
+                                <input style={{...styles.seedInput, width: '120px'}} placeholder="AAA" value={initials} autoFocus
+                                    onChange={e => setInitials(cleanInitials(e.target.value))}
+                                    onKeyDown={e => { e.stopPropagation(); if (e.key === 'Enter') submitScore(); }} />
+                                <button style={styles.buyBtn} onClick={submitScore}>SUBMIT SCORE</button>
+                            </div>
+                        )}
+                        <button style={{...styles.btn, borderColor: '#ff0044', color: '#ff0044'}} onClick={() => startGame(sim.run.mode)}>RESTART MISSION</button>
+                        <button style={styles.btn} onClick={() => startGame(sim.run.mode, sim.run.seed, sim.run.day)}>RETRY SEED</button>
+                        <button style={styles.linkBtn} onClick={() => { const file = recorder.toFile(); if (file) downloadReplay(file); }}>EXPORT REPLAY</button>
+                    </div>
+                )}
+
+                {gameState === 'ACHIEVEMENTS' && (
+                    <AchievementGallery state={profile.achievements} onBack={() => setGameState('START')} />
+                )}
+
+                {gameState === 'LEADERBOARD' && (
+                    <Leaderboard entries={leaderboard} highlight={lastEntry} onBack={() => setGameState('START')} />
+                )}
+
+                {gameState === 'SETTINGS' && (
+                    <SettingsScreen settings={profile.settings} activeRenderer={activeRenderer} onChange={updateSettings} onBack={() => setGameState('START')} />
+                )}
+
+                {gameState === 'EDITOR' && (
+                    <StageEditor stage={draft} width={sim.width} height={sim.height} palette={palette}
+                        onChange={setDraft} onTest={testStage} onBack={() => setGameState('START')} />
+                )}
+
+                {gameState === 'CONTROLS' && (
+                    <ControlsScreen settings={profile.settings} isMobile={isMobile} onChange={updateSettings} onBack={() => setGameState('START')} />
+                )}
+
+                {gameState === 'BENCHMARK' && benchmark.current && (
+                    <BenchmarkPanel bench={benchmark.current} onExit={exitBenchmark} />
+                )}
+
+                {toasts.length > 0 && (
+                    <div style={styles.toastStack}>
+                        {toasts.map(a => {
+                            const ship = shipUnlockedBy(a.id);
+                            return (
+                                <div key={a.id} style={{...styles.toast, borderColor: palette.good}}>
+                                    <div style={{...styles.toastLabel, color: palette.good}}>ACHIEVEMENT UNLOCKED</div>
+                                    <div>{a.name}</div>
+                                    {ship && <div style={styles.toastDetail}>NEW SHIP: {ship.name}</div>}
+                                </div>
+                            );
+                        })}
                     </div>
                 )}
             </div>
@@ -767,14 +828,687 @@ const App: React.FC = () => {
     );
 };
 
-const ShopItem = ({ label, val, cost, onBuy }: any) => (
-    <div style={styles.shopItem}>
-        <div style={styles.shopLabel}>{label}</div>
-        <div style={styles.shopValue}>LEVEL {val}</div>
-        <button style={styles.buyBtn} onClick={onBuy}>UPGRADE ({cost}C)</button>
+// Ships on the START screen; locked ones say which achievement opens them
+const ShipPicker = ({ selected, unlocked, onSelect }: { selected: ShipId, unlocked: AchievementId[], onSelect: (ship: ShipId) => void }) => {
+    const current = SHIPS[selected];
+    return (
+        <div style={styles.shipPicker}>
+            <div style={styles.replayRow}>
+                {SHIP_IDS.map(id => {
+                    const ship = SHIPS[id];
+                    const open = shipUnlocked(ship, unlocked);
+                    const lock = ship.unlock && getAchievement(ship.unlock);
+                    return (
+                        <button key={id} disabled={!open} title={open ? ship.description : `UNLOCK: ${lock?.name}`}
+                            style={{...styles.buyBtn, opacity: id === selected ? 1 : open ? 0.5 : 0.25}} onClick={() => onSelect(id)}>
+                            {open ? ship.name : 'LOCKED'}
+                        </button>
+                    );
+                })}
+            </div>
+            <div style={styles.seedLine}>
+                {current.description} &bull; SPEED {Math.round(current.speed * 100)}% &bull; HITBOX {current.w}x{current.h}
+                {current.weapon && <> &bull; {WEAPONS[current.weapon].name}</>}
+            </div>
+        </div>
+    );
+};
+
+const AchievementGallery = ({ state, onBack }: { state: AchievementState, onBack: () => void }) => (
+    <div style={styles.menuOverlay}>
+        <h1 style={{...styles.title, fontSize: '2.6rem'}}>ACHIEVEMENTS</h1>
+        <div style={styles.shopGrid}>
+            {ACHIEVEMENTS.map(a => {
+                const done = state.unlocked.includes(a.id);
+                const progress = done ? a.goal : state.progress[a.id] ?? 0;
+                const ship = shipUnlockedBy(a.id);
+                return (
+                    <div key={a.id} style={{...styles.shopItem, opacity: done ? 1 : 0.6, borderColor: done ? '#00ffaa' : undefined}}>
+                        <div style={styles.shopLabel}>{a.name}</div>
+                        <div style={styles.shopDesc}>{a.description}</div>
+                        {ship && <div style={styles.shopDesc}>UNLOCKS {ship.name}</div>}
+                        <div style={styles.achievementBar}>
+                            <div style={{...styles.achievementFill, width: `${(progress / a.goal) * 100}%`}} />
+                        </div>
+                        <div style={styles.shopDesc}>{done ? 'UNLOCKED' : `${progress}/${a.goal}`}</div>
+                    </div>
+                );
+            })}
+        </div>
+        <button style={styles.btn} onClick={onBack}>BACK</button>
     </div>
 );
 
+// What each ship brought to the team, for the co-op GAMEOVER screen
+const PilotBreakdown = ({ sim, colors }: { sim: GameSimulation, colors: string[] }) => (
+    <table style={{...styles.lbTable, marginTop: 0, marginBottom: '15px'}}>
+        <thead>
+            <tr>
+                {['PILOT', 'SCORE', 'KILLS', 'ACCURACY', 'GRAZES', 'DAMAGE TAKEN', 'REVIVES'].map(h => <th key={h} style={styles.lbHead}>{h}</th>)}
+            </tr>
+        </thead>
+        <tbody>
+            {sim.players.map(({ index, stats }) => (
+                <tr key={index}>
+                    <td style={{...styles.lbCell, color: colors[index]}}>P{index + 1}</td>
+                    <td style={styles.lbCell}>{stats.score}</td>
+                    <td style={styles.lbCell}>{stats.kills}</td>
+                    <td style={styles.lbCell}>{stats.shotsFired > 0 ? Math.round((stats.shotsHit / stats.shotsFired) * 100) : 0}%</td>
+                    <td style={styles.lbCell}>{stats.grazes}</td>
+                    <td style={styles.lbCell}>{Math.round(stats.damageTaken)}</td>
+                    <td style={styles.lbCell}>{stats.revives}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+const SHOP_TABS: { id: ShopCategory; label: string }[] = [
+    { id: 'STAT', label: 'SYSTEMS' },
+    { id: 'WEAPON', label: 'WEAPONS' },
+    { id: 'TECH', label: 'TECH TREE' },
+    { id: 'SUPPLY', label: 'SUPPLIES' },
+];
+
+interface ShopCardProps {
+    node: ShopNode;
+    state: ShopState;
+    coins: number;
+    onBuy: () => void;
+    onRefund: () => void;
+    onEquip: (weapon: WeaponId) => void;
+}
+
+const ShopCard: React.FC<ShopCardProps> = ({ node, state, coins, onBuy, onRefund, onEquip }) => {
+    const level = node.level(state);
+    const purchase = checkPurchase(node, state, coins);
+    const refund = checkRefund(node, state);
+    const preview = level < node.maxLevel ? previewPurchase(node, state) : [];
+    const owned = node.category === 'WEAPON' && level > 0;
+    const equipped = owned && state.upgrades.weapon === node.id;
+    return (
+        <div style={styles.shopItem}>
+            <div style={styles.shopLabel}>{node.name}</div>
+            <div style={styles.shopValue}>{node.category === 'SUPPLY' ? `CARRYING ${level}/${node.maxLevel}` : `LEVEL ${level}/${node.maxLevel}`}</div>
+            <div style={styles.shopDesc}>{node.description}</div>
+            {preview.map(line => <div key={line.label} style={styles.shopPreview}>{line.label}: {line.from} &rarr; {line.to}</div>)}
+            <div style={{...styles.replayRow, marginTop: '8px'}}>
+                {level < node.maxLevel && (
+                    <button style={{...styles.buyBtn, opacity: purchase.ok ? 1 : 0.5}} onClick={onBuy} disabled={!purchase.ok}>
+                        {purchase.ok ? `BUY (${purchase.cost}C)` : purchase.reason}
+                    </button>
+                )}
+                {owned && (
+                    <button style={{...styles.buyBtn, opacity: equipped ? 0.5 : 1}} onClick={() => onEquip(node.id as WeaponId)} disabled={equipped}>
+                        {equipped ? 'EQUIPPED' : 'EQUIP'}
+                    </button>
+                )}
+                {refund.ok && <button style={{...styles.buyBtn, borderColor: '#ff0044'}} onClick={onRefund}>REFUND (+{refund.refund}C)</button>}
+            </div>
+        </div>
+    );
+};
+
+const ReplayControls = ({ player, onChange, onExit }: { player: ReplayPlayer, onChange: () => void, onExit: () => void }) => {
+    const act = (fn: () => void) => () => { fn(); onChange(); };
+    const { file } = player;
+    return (
+        <div style={styles.replayBar}>
+            <div style={styles.replayInfo}>
+                REPLAY &bull; SEED {formatSeed(file.run.seed)} &bull; {player.finished ? 'END' : `${Math.floor(player.tick / 60)}s / ${Math.floor(file.ticks / 60)}s`}
+            </div>
+            <div style={styles.replayRow}>
+                <button style={styles.buyBtn} onClick={act(() => player.paused = !player.paused)}>{player.paused ? 'PLAY' : 'PAUSE'}</button>
+                {REPLAY_SPEEDS.map(speed => (
+                    <button key={speed} style={{...styles.buyBtn, opacity: player.speed === speed ? 1 : 0.5}}
+                        onClick={act(() => player.speed = speed)}>{speed}x</button>
+                ))}
+            </div>
+            <div style={styles.replayRow}>
+                {file.waves.map(w => (
+                    <button key={w.wave} style={styles.buyBtn} onClick={act(() => player.seekWave(w.wave))}>WAVE {w.wave}</button>
+                ))}
+                <button style={{...styles.buyBtn, borderColor: '#ff0044'}} onClick={onExit}>EXIT</button>
+            </div>
+        </div>
+    );
+};
+
+// Re-reads the timings twice a second; the scene itself runs in the main loop
+const BenchmarkPanel = ({ bench, onExit }: { bench: CollisionBenchmark, onExit: () => void }) => {
+    const [, setRevision] = useState(0);
+    useEffect(() => {
+        const id = window.setInterval(() => setRevision(r => r + 1), 500);
+        return () => window.clearInterval(id);
+    }, []);
+    const { options } = bench;
+    const stats = bench.stats;
+    const set = (patch: Partial<BenchmarkOptions>) => () => { bench.configure({ ...options, ...patch }); setRevision(r => r + 1); };
+    return (
+        <div style={styles.replayBar}>
+            <div style={styles.replayInfo}>
+                {stats.averageMs.toFixed(2)} MS / TICK (WORST {stats.worstMs.toFixed(1)}) &bull; {stats.entities} ENTITIES &bull; {stats.allocated} ALLOCATED
+            </div>
+            <div style={styles.replayRow}>
+                {BENCHMARK_BULLET_COUNTS.map(count => (
+                    <button key={count} style={{...styles.buyBtn, opacity: options.bullets === count ? 1 : 0.5}} onClick={set({ bullets: count })}>{count} BULLETS</button>
+                ))}
+            </div>
+            <div style={styles.replayRow}>
+                <button style={styles.buyBtn} onClick={set({ broadphase: options.broadphase === 'GRID' ? 'NAIVE' : 'GRID' })}>
+                    BROADPHASE: {options.broadphase}
+                </button>
+                <button style={styles.buyBtn} onClick={set({ pooling: !options.pooling })}>POOLING: {options.pooling ? 'ON' : 'OFF'}</button>
+                <button style={styles.buyBtn} onClick={set(DEFAULT_BENCHMARK)}>DEFAULTS</button>
+                <button style={{...styles.buyBtn, borderColor: '#ff0044'}} onClick={onExit}>EXIT</button>
+            </div>
+        </div>
+    );
+};
+
+type Listening = { action: Action; device: 'keyboard' | 'gamepad' } | null;
+
+// Moves `value` onto `action`, taking it away from whichever action had it before
+const assign = <T,>(lists: Record<Action, T[]>, action: Action, value: T) => {
+    for (const { id } of ACTIONS) lists[id] = lists[id].filter(v => v !== value);
+    lists[action].push(value);
+};
+
+const pressedButtons = () => {
+    const pad = GamepadInput.connected();
+    return pad ? pad.buttons.map((b, i) => (b.pressed ? i : -1)).filter(i => i >= 0) : [];
+};
+
+type VolumeKey = 'volume' | 'sfxVolume' | 'musicVolume';
+
+const VOLUME_SLIDERS: { key: VolumeKey; label: string }[] = [
+    { key: 'volume', label: 'MASTER' },
+    { key: 'sfxVolume', label: 'EFFECTS' },
+    { key: 'musicVolume', label: 'MUSIC' },
+];
+
+type SettingsTab = 'AUDIO' | 'DISPLAY' | 'DIFFICULTY';
+
+const SETTINGS_TABS: SettingsTab[] = ['AUDIO', 'DISPLAY', 'DIFFICULTY'];
+
+type DifficultyKey = 'scaling' | 'damage' | 'spawnRate';
+
+const DIFFICULTY_SLIDERS: { key: DifficultyKey; label: string }[] = [
+    { key: 'scaling', label: 'ESCALATION' },
+    { key: 'damage', label: 'DAMAGE TAKEN' },
+    { key: 'spawnRate', label: 'SPAWN RATE' },
+];
+
+interface SettingsScreenProps {
+    settings: Settings;
+    activeRenderer: RendererId;
+    onChange: (patch: Partial<Settings>) => void;
+    onBack: () => void;
+}
+
+const SettingsScreen = ({ settings, activeRenderer, onChange, onBack }: SettingsScreenProps) => {
+    const [tab, setTab] = useState<SettingsTab>('AUDIO');
+    const { difficulty } = settings;
+    // Touching a slider turns whatever preset was chosen into a custom one
+    const tune = (key: DifficultyKey, value: number) => onChange({ difficulty: { ...difficulty, preset: 'CUSTOM', [key]: value } });
+
+    return (
+        <div style={styles.menuOverlay}>
+            <h1 style={styles.title}>SETTINGS</h1>
+            <div style={styles.replayRow}>
+                {SETTINGS_TABS.map(t => (
+                    <button key={t} style={{...styles.buyBtn, opacity: tab === t ? 1 : 0.5}} onClick={() => setTab(t)}>{t}</button>
+                ))}
+            </div>
+
+            {tab === 'AUDIO' && (
+                <>
+                    {VOLUME_SLIDERS.map(({ key, label }) => (
+                        <div key={key} style={{...styles.replayRow, marginTop: '12px', alignItems: 'center'}}>
+                            <span style={{...styles.shopLabel, width: '120px'}}>{label} {Math.round(settings[key] * 100)}%</span>
+                            <input type="range" min={0} max={1} step={0.05} value={settings[key]} style={{pointerEvents: 'auto'}}
+                                onChange={e => onChange({ [key]: Number(e.target.value) })} />
+                        </div>
+                    ))}
+                    <button style={{...styles.buyBtn, marginTop: '20px', borderColor: settings.muted ? '#ff0044' : '#00f2ff'}}
+                        onClick={() => onChange({ muted: !settings.muted })}>{settings.muted ? 'UNMUTE' : 'MUTE ALL'}</button>
+                </>
+            )}
+
+            {tab === 'DISPLAY' && (
+                <>
+                    <button style={{...styles.buyBtn, marginTop: '12px'}} onClick={() => onChange({ reducedMotion: !settings.reducedMotion })}>
+                        REDUCED MOTION: {settings.reducedMotion ? 'ON' : 'OFF'}
+                    </button>
+                    <div style={styles.seedLine}>NO SCREEN SHAKE, BLINKING OR PULSING</div>
+                    <div style={{...styles.replayRow, marginTop: '12px'}}>
+                        {(Object.keys(PALETTES) as PaletteId[]).map(id => (
+                            <button key={id} style={{...styles.buyBtn, borderColor: PALETTES[id].players[0], opacity: settings.palette === id ? 1 : 0.5}}
+                                onClick={() => onChange({ palette: id })}>{PALETTES[id].label}</button>
+                        ))}
+                    </div>
+                    <div style={{...styles.replayRow, marginTop: '12px', alignItems: 'center'}}>
+                        <span style={{...styles.shopLabel, width: '120px'}}>UI SCALE {Math.round(settings.uiScale * 100)}%</span>
+                        <input type="range" min={UI_SCALE_MIN} max={UI_SCALE_MAX} step={0.05} value={settings.uiScale} style={{pointerEvents: 'auto'}}
+                            onChange={e => onChange({ uiScale: Number(e.target.value) })} />
+                    </div>
+                    <div style={{...styles.replayRow, marginTop: '12px'}}>
+                        {RENDERERS.map(({ id, label }) => (
+                            <button key={id} style={{...styles.buyBtn, opacity: settings.renderer === id ? 1 : 0.5}}
+                                onClick={() => onChange({ renderer: id })}>{label}</button>
+                        ))}
+                    </div>
+                    {activeRenderer !== settings.renderer && <div style={styles.seedLine}>WEBGL2 IS NOT AVAILABLE HERE &bull; DRAWING WITH CANVAS 2D</div>}
+                </>
+            )}
+
+            {tab === 'DIFFICULTY' && (
+                <>
+                    <div style={{...styles.replayRow, marginTop: '12px'}}>
+                        {DIFFICULTY_PRESET_IDS.map(id => (
+                            <button key={id} style={{...styles.buyBtn, opacity: difficulty.preset === id ? 1 : 0.5}}
+                                onClick={() => onChange({ difficulty: id === 'CUSTOM' ? { ...difficulty, preset: 'CUSTOM' } : DIFFICULTY_PRESETS[id] })}>{id}</button>
+                        ))}
+                    </div>
+                    {DIFFICULTY_SLIDERS.map(({ key, label }) => (
+                        <div key={key} style={{...styles.replayRow, marginTop: '12px', alignItems: 'center'}}>
+                            <span style={{...styles.shopLabel, width: '160px'}}>{label} x{difficulty[key].toFixed(2)}</span>
+                            <input type="range" min={DIFFICULTY_MIN} max={DIFFICULTY_MAX} step={0.05} value={difficulty[key]} style={{pointerEvents: 'auto'}}
+                                onChange={e => tune(key, Number(e.target.value))} />
+                        </div>
+                    ))}
+                    <button style={{...styles.buyBtn, marginTop: '12px'}} onClick={() => onChange({ autoCollect: !settings.autoCollect })}>
+                        AUTO-COLLECT LOOT: {settings.autoCollect ? 'ON' : 'OFF'}
+                    </button>
+                    <div style={styles.seedLine}>
+                        {settings.autoCollect ? 'COINS LEFT ON SCREEN ARE BANKED WHEN A WAVE ENDS' : 'A CLEARED WAVE WAITS UNTIL ALL LOOT IS COLLECTED OR LOST'}
+                    </div>
+                    <div style={styles.seedLine}>APPLIES FROM THE NEXT RUN &bull; THE DAILY CHALLENGE IS ALWAYS NORMAL</div>
+                </>
+            )}
+
+            <button style={styles.btn} onClick={onBack}>BACK</button>
+        </div>
+    );
+};
+
+const PREVIEW_WIDTH = 240;
+
+// Draws one spawn group on a miniature playfield: its entry path, and the formation where the
+// ships take over from the path
+const FormationPreview = ({ group, width, height, palette }: { group: SpawnGroup | null, width: number, height: number, palette: Palette }) => {
+    const ref = useRef<HTMLCanvasElement>(null);
+    const previewHeight = Math.round((PREVIEW_WIDTH * height) / width);
+
+    useEffect(() => {
+        const canvas = ref.current;
+        if (!canvas) return;
+        const g = canvas.getContext('2d')!;
+        g.fillStyle = '#050505';
+        g.fillRect(0, 0, canvas.width, canvas.height);
+        if (!group) return;
+        g.save();
+        g.scale(canvas.width / width, canvas.width / width);
+        const x = group.x * width;
+        const offsets = formationOffsets(group.formation, group.count, group.spacing);
+        const path = group.path ? ENTRY_PATHS[group.path] : null;
+        // Ships without a path drop straight in from above; they are shown just inside the top edge
+        let centre = { x, y: 60 - Math.min(...offsets.map(o => o.y)) };
+        if (path) {
+            g.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+            g.lineWidth = 4;
+            g.setLineDash([16, 10]);
+            g.beginPath();
+            for (let i = 0; i <= 48; i++) {
+                const p = path.point(i / 48, x, width, height);
+                if (i === 0) g.moveTo(p.x, p.y); else g.lineTo(p.x, p.y);
+            }
+            g.stroke();
+            g.setLineDash([]);
+            centre = path.point(1, x, width, height);
+        }
+        const archetype = getArchetype(group.enemy);
+        const ghost = new Enemy();
+        for (const o of offsets) {
+            ghost.reset(0, archetype, centre.x + o.x - archetype.stats.w / 2, centre.y + o.y - archetype.stats.h / 2, 0);
+            archetype.render(g, ghost, ghost.x, ghost.y, palette);
+        }
+        g.restore();
+    }, [group, width, height, palette]);
+
+    return <canvas ref={ref} width={PREVIEW_WIDTH} height={previewHeight} style={styles.editorPreview} />;
+};
+
+const MUSIC_CUES: MusicIntensity[] = ['CALM', 'ACTION', 'BOSS'];
+
+interface StageEditorProps {
+    stage: StageFile;
+    width: number;
+    height: number;
+    palette: Palette;
+    onChange: (stage: StageFile) => void;
+    onTest: (stage: StageFile, from: number) => void;
+    onBack: () => void;
+}
+
+// Groups sit on a timeline: clicking an empty spot places a copy of the selected group there,
+// clicking a marker selects it for the controls below
+const StageEditor = ({ stage, width, height, palette, onChange, onTest, onBack }: StageEditorProps) => {
+    const [selected, setSelected] = useState(0);
+    const [testFrom, setTestFrom] = useState(0);
+    const [error, setError] = useState('');
+    const length = timelineLength(stage);
+    const group = stage.groups[selected] ?? null;
+
+    const update = (patch: Partial<StageFile>) => {
+        setError('');
+        onChange({ ...stage, ...patch });
+    };
+    const updateGroup = (patch: Partial<SpawnGroup>) => update({ groups: stage.groups.map((g, i) => (i === selected ? { ...g, ...patch } : g)) });
+    const addGroup = (at: number) => {
+        update({ groups: [...stage.groups, { ...(group ?? newGroup(at)), at }] });
+        setSelected(stage.groups.length);
+    };
+    const removeGroup = () => {
+        update({ groups: stage.groups.filter((_, i) => i !== selected) });
+        setSelected(Math.max(0, selected - 1));
+    };
+    const updateEvent = (index: number, event: StageEvent) => update({ events: stage.events.map((e, i) => (i === index ? event : e)) });
+
+    const placeGroup = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        addGroup(Math.round(((e.clientX - rect.left) / rect.width) * length * 2) / 2);
+    };
+
+    // Anything handed to the game is validated first, so mistakes show up here and not mid-run
+    const checked = (use: (stage: StageFile) => void) => {
+        try {
+            use(parseStage(stage));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const importFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            onChange(importStage(await file.text()));
+            setSelected(0);
+            setError('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const percent = (at: number) => `${(Math.min(at, length) / length) * 100}%`;
+
+    return (
+        <div style={{...styles.menuOverlay, justifyContent: 'flex-start', overflowY: 'auto', paddingTop: '20px'}}>
+            <h1 style={{...styles.title, fontSize: '2.2rem'}}>STAGE EDITOR</h1>
+            <div style={styles.replayRow}>
+                <input style={{...styles.seedInput, width: '220px'}} value={stage.name} maxLength={40}
+                    onChange={e => update({ name: e.target.value })} />
+                {MUSIC_CUES.map(m => (
+                    <button key={m} style={{...styles.buyBtn, opacity: stage.music === m ? 1 : 0.5}} onClick={() => update({ music: m })}>{m}</button>
+                ))}
+            </div>
+            <div style={{...styles.replayRow, marginTop: '8px', alignItems: 'center'}}>
+                <span style={styles.shopLabel}>BOSS</span>
+                {[null, ...BOSS_ROSTER.map(b => b.id)].map(id => (
+                    <button key={id ?? 'NONE'} style={{...styles.buyBtn, opacity: stage.boss === id ? 1 : 0.5}} onClick={() => update({ boss: id })}>{id ?? 'NONE'}</button>
+                ))}
+            </div>
+
+            <div style={styles.timeline} onClick={placeGroup}>
+                {stage.groups.map((g, i) => (
+                    <button key={i} style={{...styles.timelineMarker, left: percent(g.at), opacity: i === selected ? 1 : 0.6,
+                        borderColor: i === selected ? '#fff' : '#00f2ff'}}
+                        onClick={e => { e.stopPropagation(); setSelected(i); }}>{g.enemy[0]}{g.count}</button>
+                ))}
+                {stage.events.map((ev, i) => <div key={i} style={{...styles.timelineEvent, left: percent(ev.at)}} title={ev.type} />)}
+                <div style={{...styles.timelineCursor, left: percent(testFrom)}} />
+            </div>
+            <div style={styles.seedLine}>0s &mdash; {length}s &bull; CLICK THE TIMELINE TO ADD A GROUP</div>
+
+            <div style={styles.editorLayout}>
+                <div style={styles.editorColumn}>
+                    {group ? (
+                        <>
+                            <span style={styles.shopLabel}>AT {group.at.toFixed(1)}s</span>
+                            <input type="range" min={0} max={length} step={0.5} value={group.at} style={{pointerEvents: 'auto'}}
+                                onChange={e => updateGroup({ at: Number(e.target.value) })} />
+                            <div style={styles.replayRow}>
+                                {Object.keys(ENEMY_ARCHETYPES).map(id => (
+                                    <button key={id} style={{...styles.buyBtn, opacity: group.enemy === id ? 1 : 0.5}} onClick={() => updateGroup({ enemy: id })}>{id}</button>
+                                ))}
+                            </div>
+                            <div style={styles.replayRow}>
+                                {FORMATIONS.map(f => (
+                                    <button key={f} style={{...styles.buyBtn, opacity: group.formation === f ? 1 : 0.5}} onClick={() => updateGroup({ formation: f })}>{f}</button>
+                                ))}
+                            </div>
+                            <div style={styles.replayRow}>
+                                {[undefined, ...Object.keys(ENTRY_PATHS) as EntryPathId[]].map(id => (
+                                    <button key={id ?? 'NONE'} style={{...styles.buyBtn, opacity: group.path === id ? 1 : 0.5}}
+                                        onClick={() => updateGroup({ path: id })}>{id ? ENTRY_PATHS[id].label : 'NO PATH'}</button>
+                                ))}
+                            </div>
+                            <span style={styles.shopLabel}>SHIPS {group.count}</span>
+                            <input type="range" min={1} max={12} step={1} value={group.count} style={{pointerEvents: 'auto'}}
+                                onChange={e => updateGroup({ count: Number(e.target.value) })} />
+                            <span style={styles.shopLabel}>POSITION {Math.round(group.x * 100)}%</span>
+                            <input type="range" min={0} max={1} step={0.05} value={group.x} style={{pointerEvents: 'auto'}}
+                                onChange={e => updateGroup({ x: Number(e.target.value) })} />
+                            <span style={styles.shopLabel}>SPACING {group.spacing ?? 60}px</span>
+                            <input type="range" min={20} max={200} step={5} value={group.spacing ?? 60} style={{pointerEvents: 'auto'}}
+                                onChange={e => updateGroup({ spacing: Number(e.target.value) })} />
+                            <div style={styles.replayRow}>
+                                <button style={styles.buyBtn} onClick={() => addGroup(group.at + 4)}>DUPLICATE</button>
+                                {stage.groups.length > 1 && <button style={{...styles.buyBtn, borderColor: '#ff0044'}} onClick={removeGroup}>DELETE</button>}
+                            </div>
+                        </>
+                    ) : <span style={styles.shopLabel}>NO GROUP SELECTED</span>}
+                </div>
+                <FormationPreview group={group} width={width} height={height} palette={palette} />
+            </div>
+
+            <div style={{...styles.editorColumn, marginTop: '12px'}}>
+                <span style={styles.shopLabel}>EVENTS</span>
+                {stage.events.map((ev, i) => (
+                    <div key={i} style={{...styles.replayRow, alignItems: 'center'}}>
+                        <input type="number" min={0} step={0.5} value={ev.at} style={{...styles.seedInput, width: '70px', padding: '4px'}}
+                            onChange={e => updateEvent(i, { ...ev, at: Math.max(0, Number(e.target.value)) })} />
+                        <span style={{...styles.shopLabel, width: '70px'}}>{ev.type}</span>
+                        {ev.type === 'MESSAGE' && (
+                            <input style={{...styles.seedInput, width: '200px', padding: '4px'}} value={ev.text} maxLength={60}
+                                onChange={e => updateEvent(i, { ...ev, text: e.target.value })} />
+                        )}
+                        {ev.type === 'POWERUP' && POWERUP_TYPES.map(p => (
+                            <button key={p} style={{...styles.buyBtn, opacity: ev.powerup === p ? 1 : 0.5}} onClick={() => updateEvent(i, { ...ev, powerup: p })}>{p}</button>
+                        ))}
+                        {ev.type === 'HAZARD' && HAZARD_TYPES.map(h => (
+                            <button key={h} title={HAZARDS[h].description} style={{...styles.buyBtn, opacity: ev.hazard === h ? 1 : 0.5}} onClick={() => updateEvent(i, { ...ev, hazard: h })}>{HAZARDS[h].name}</button>
+                        ))}
+                        {ev.type === 'MUSIC' && MUSIC_CUES.map(m => (
+                            <button key={m} style={{...styles.buyBtn, opacity: ev.music === m ? 1 : 0.5}} onClick={() => updateEvent(i, { ...ev, music: m })}>{m}</button>
+                        ))}
+                        <button style={{...styles.buyBtn, borderColor: '#ff0044'}} onClick={() => update({ events: stage.events.filter((_, j) => j !== i) })}>X</button>
+                    </div>
+                ))}
+                <div style={styles.replayRow}>
+                    <button style={styles.buyBtn} onClick={() => update({ events: [...stage.events, { at: group?.at ?? 0, type: 'MESSAGE', text: 'INCOMING' }] })}>+ MESSAGE</button>
+                    <button style={styles.buyBtn} onClick={() => update({ events: [...stage.events, { at: group?.at ?? 0, type: 'POWERUP', powerup: 'SHIELD', x: 0.5 }] })}>+ POWER-UP</button>
+                    <button style={styles.buyBtn} onClick={() => update({ events: [...stage.events, { at: group?.at ?? 0, type: 'MUSIC', music: 'BOSS' }] })}>+ MUSIC</button>
+                    <button style={styles.buyBtn} onClick={() => update({ events: [...stage.events, { at: group?.at ?? 0, type: 'HAZARD', hazard: 'ASTEROID', x: 0.5 }] })}>+ HAZARD</button>
+                </div>
+            </div>
+
+            <div style={{...styles.replayRow, marginTop: '16px', alignItems: 'center'}}>
+                <span style={{...styles.shopLabel, width: '110px'}}>TEST FROM {testFrom.toFixed(1)}s</span>
+                <input type="range" min={0} max={length} step={0.5} value={testFrom} style={{pointerEvents: 'auto'}}
+                    onChange={e => setTestFrom(Number(e.target.value))} />
+                <button style={styles.buyBtn} onClick={() => checked(s => onTest(s, testFrom))}>PLAY TEST</button>
+            </div>
+            {error && <div style={styles.errorLine}>{error}</div>}
+            <div style={styles.replayRow}>
+                <button style={styles.linkBtn} onClick={() => checked(s => downloadJson(exportStage(s), stageFileName(s)))}>EXPORT JSON</button>
+                <label style={styles.linkBtn}>
+                    IMPORT JSON
+                    <input type="file" accept=".json,application/json" style={{display: 'none'}}
+                        onChange={e => { importFile(e.target.files?.[0]); e.target.value = ''; }} />
+                </label>
+            </div>
+            <button style={styles.btn} onClick={onBack}>BACK</button>
+        </div>
+    );
+};
+
+interface ControlsScreenProps {
+    settings: Settings;
+    isMobile: boolean;
+    onChange: (patch: Partial<Settings>) => void;
+    onBack: () => void;
+}
+
+// Rebinding takes the next key, or the next pad button that goes down, for the chosen action
+const ControlsScreen = ({ settings, isMobile, onChange, onBack }: ControlsScreenProps) => {
+    const [listening, setListening] = useState<Listening>(null);
+    const { bindings } = settings;
+
+    const update = (edit: (next: Bindings) => void) => {
+        const next = cloneBindings(bindings);
+        edit(next);
+        onChange({ bindings: next });
+        setListening(null);
+    };
+
+    useEffect(() => {
+        if (!listening) return;
+        const { action } = listening;
+        if (listening.device === 'keyboard') {
+            const onKey = (e: KeyboardEvent) => {
+                e.preventDefault();
+                update(next => assign(next.keyboard, action, e.code));
+            };
+            window.addEventListener('keydown', onKey);
+            return () => window.removeEventListener('keydown', onKey);
+        }
+        // Buttons already held when listening starts must be released and pressed again
+        let held = pressedButtons();
+        let frameId = requestAnimationFrame(function poll() {
+            const now = pressedButtons();
+            const fresh = now.find(i => !held.includes(i));
+            if (fresh !== undefined) return update(next => assign(next.gamepad, action, fresh));
+            held = now;
+            frameId = requestAnimationFrame(poll);
+        });
+        return () => cancelAnimationFrame(frameId);
+    }, [listening, bindings]);
+
+    const pad = GamepadInput.connected();
+    const waiting = (action: Action, device: 'keyboard' | 'gamepad') => listening?.action === action && listening.device === device;
+    return (
+        <div style={styles.menuOverlay}>
+            <h1 style={{...styles.title, fontSize: '2.6rem'}}>CONTROLS</h1>
+            <p style={styles.statLine}>{pad ? `GAMEPAD: ${pad.id.slice(0, 40)}` : 'NO GAMEPAD DETECTED - PRESS ANY BUTTON ON ONE'}</p>
+            <div style={{...styles.bindRow, color: '#aaa', fontSize: '0.7rem'}}>
+                <span>ACTION</span><span>KEYBOARD</span><span>GAMEPAD</span>
+            </div>
+            {ACTIONS.map(({ id, label }) => (
+                <div key={id} style={styles.bindRow}>
+                    <span>{label}</span>
+                    <div style={styles.replayRow}>
+                        {bindings.keyboard[id].map(code => (
+                            <button key={code} style={styles.bindChip} title="Remove"
+                                onClick={() => update(next => { next.keyboard[id] = next.keyboard[id].filter(c => c !== code); })}>{keyLabel(code)} &times;</button>
+                        ))}
+                        <button style={styles.buyBtn} onClick={() => setListening({ action: id, device: 'keyboard' })}>
+                            {waiting(id, 'keyboard') ? 'PRESS A KEY...' : '+ KEY'}
+                        </button>
+                    </div>
+                    <div style={styles.replayRow}>
+                        {bindings.gamepad[id].map(index => (
+                            <button key={index} style={styles.bindChip} title="Remove"
+                                onClick={() => update(next => { next.gamepad[id] = next.gamepad[id].filter(i => i !== index); })}>{buttonLabel(index)} &times;</button>
+                        ))}
+                        <button style={styles.buyBtn} onClick={() => setListening({ action: id, device: 'gamepad' })}>
+                            {waiting(id, 'gamepad') ? 'PRESS A BUTTON...' : '+ PAD'}
+                        </button>
+                    </div>
+                </div>
+            ))}
+            <div style={{...styles.replayRow, marginTop: '20px', alignItems: 'center'}}>
+                <span style={styles.shopLabel}>STICK DEADZONE {Math.round(settings.deadzone * 100)}%</span>
+                <input type="range" min={0} max={0.9} step={0.05} value={settings.deadzone} style={{pointerEvents: 'auto'}}
+                    onChange={e => onChange({ deadzone: Number(e.target.value) })} />
+            </div>
+            <div style={{...styles.replayRow, marginTop: '12px', alignItems: 'center'}}>
+                <span style={styles.shopLabel}>TOUCH{isMobile ? '' : ' (MOBILE ONLY)'}</span>
+                {(['DPAD', 'DRAG'] as const).map(mode => (
+                    <button key={mode} style={{...styles.buyBtn, opacity: settings.touchMode === mode ? 1 : 0.5}} onClick={() => onChange({ touchMode: mode })}>
+                        {mode === 'DPAD' ? 'D-PAD BUTTONS' : 'DRAG TO MOVE'}
+                    </button>
+                ))}
+            </div>
+            {listening && <button style={styles.linkBtn} onClick={() => setListening(null)}>CANCEL</button>}
+            <button style={styles.linkBtn} onClick={() => update(next => Object.assign(next, cloneBindings(DEFAULT_BINDINGS)))}>RESET DEFAULTS</button>
+            <button style={styles.btn} onClick={onBack}>BACK</button>
+        </div>
+    );
+};
+
+const LEADERBOARD_FILTERS: { id: LeaderboardFilter; label: string }[] = [
+    { id: 'ALL', label: 'ALL TIME' },
+    { id: 'WEEK', label: 'THIS WEEK' },
+    { id: 'DAILY', label: "TODAY'S SEED" },
+];
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const Leaderboard = ({ entries, highlight, onBack }: { entries: LeaderboardEntry[], highlight: LeaderboardEntry | null, onBack: () => void }) => {
+    const [mode, setMode] = useState<GameMode>(highlight?.mode ?? 'ENDLESS');
+    const [filter, setFilter] = useState<LeaderboardFilter>('ALL');
+    const rows = topEntries(entries, mode, filter);
+    return (
+        <div style={styles.menuOverlay}>
+            <h1 style={{...styles.title, fontSize: '2.6rem'}}>HALL OF FAME</h1>
+            <div style={styles.replayRow}>
+                {(['ENDLESS', 'DAILY', 'COOP', 'CAMPAIGN'] as GameMode[]).map(m => (
+                    <button key={m} style={{...styles.buyBtn, opacity: mode === m ? 1 : 0.5}} onClick={() => setMode(m)}>{m}</button>
+                ))}
+            </div>
+            <div style={{...styles.replayRow, marginTop: '8px'}}>
+                {LEADERBOARD_FILTERS.map(f => (
+                    <button key={f.id} style={{...styles.buyBtn, opacity: filter === f.id ? 1 : 0.5}} onClick={() => setFilter(f.id)}>{f.label}</button>
+                ))}
+            </div>
+            <table style={styles.lbTable}>
+                <thead>
+                    <tr>{['#', 'NAME', 'SCORE', 'WAVES', 'ACC', 'TIME', 'DIFF', 'UPGRADES', 'DATE'].map(h => <th key={h} style={styles.lbHead}>{h}</th>)}</tr>
+                </thead>
+                <tbody>
+                    {rows.map((e, i) => (
+                        <tr key={`${e.date}-${i}`} style={e === highlight ? styles.lbHighlight : undefined}>
+                            <td style={styles.lbCell}>{i + 1}</td>
+                            <td style={styles.lbCell}>{e.initials}</td>
+                            <td style={styles.lbCell}>{e.score}</td>
+                            <td style={styles.lbCell}>{e.wavesCleared}</td>
+                            <td style={styles.lbCell}>{e.accuracy}%</td>
+                            <td style={styles.lbCell}>{formatDuration(e.duration)}</td>
+                            <td style={styles.lbCell}>{e.difficulty}</td>
+                            <td style={styles.lbCell}>{WEAPONS[e.upgrades.weapon]?.name ?? 'BLASTER'} &bull; DMG {e.upgrades.damage} ROF {e.upgrades.fireRate} SPD {e.upgrades.speed} HULL {e.upgrades.maxHealth}</td>
+                            <td style={styles.lbCell}>{e.date.slice(0, 10)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {rows.length === 0 && <p style={styles.statLine}>NO RUNS RECORDED YET</p>}
+            <div style={styles.seedLine}>TOP {LEADERBOARD_SIZE} &bull; WEEKS START MONDAY (UTC)</div>
+            <button style={styles.btn} onClick={onBack}>BACK</button>
+        </div>
+    );
+};
+
 const styles: Record<string, React.CSSProperties> = {
     container: { position: 'relative', width: '100%', height: '100%', overflow: 'hidden', background: '#000' },
     canvas: { display: 'block' },
@@ -794,6 +1528,13 @@ const styles: Record<string, React.CSSProperties> = {
     title: { fontSize: '4rem', margin: '0 0 10px 0', color: '#00f2ff', letterSpacing: '8px', textAlign: 'center', fontWeight: 800 },
     subtitle: { fontSize: '1.2rem', color: '#ff00ea', marginTop: '-10px', letterSpacing: '4px', marginBottom: '20px', fontWeight: 400 },
     statLine: { color: '#ccc', marginBottom: '20px', letterSpacing: '1px' },
+    seedInput: { background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(0,242,255,0.4)', color: '#fff', padding: '10px 14px', fontSize: '1rem', letterSpacing: '2px', textAlign: 'center', width: '260px', fontFamily: 'inherit', pointerEvents: 'auto' },
+    seedLine: { marginTop: '12px', color: '#ff00ea', fontSize: '0.75rem', letterSpacing: '2px', opacity: 0.8 },
+    linkBtn: { background: 'none', border: 'none', color: '#00f2ff', fontSize: '0.85rem', letterSpacing: '2px', marginTop: '18px', cursor: 'pointer', textDecoration: 'underline', pointerEvents: 'auto' },
+    errorLine: { marginTop: '8px', color: '#ff0044', fontSize: '0.8rem', letterSpacing: '1px' },
+    replayBar: { position: 'absolute', bottom: 70, left: '50%', transform: 'translateX(-50%)', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '8px', pointerEvents: 'auto' },
+    replayInfo: { color: '#ffea00', fontSize: '0.75rem', letterSpacing: '2px' },
+    replayRow: { display: 'flex', gap: '8px', flexWrap: 'wrap', justifyContent: 'center' },
     hint: { marginTop: '40px', color: '#999', fontSize: '0.8rem', letterSpacing: '2px' },
     btn: { background: 'none', border: '2px solid #00f2ff', color: '#fff', padding: '12px 40px', fontSize: '1.4rem', cursor: 'pointer', marginTop: '20px', fontWeight: 600, transition: 'all 0.2s', pointerEvents: 'auto' },
     hudTop: { position: 'absolute', top: 25, left: 25, right: 25, display: 'flex', justifyContent: 'space-between' },
@@ -803,22 +1544,55 @@ const styles: Record<string, React.CSSProperties> = {
     healthBarContainer: { position: 'absolute', bottom: 35, left: '50%', transform: 'translateX(-50%)', width: '300px', height: '10px', background: 'rgba(255,255,255,0.08)', border: '1px solid rgba(0,242,255,0.4)', borderRadius: '10px', overflow: 'hidden' },
     healthBarInner: { height: '100%', background: 'linear-gradient(90deg, #00f2ff, #00ffaa)', transition: 'width 0.3s ease' },
     healthBarText: { position: 'absolute', width: '100%', textAlign: 'center', top: '-22px', color: '#00f2ff', fontSize: '0.7rem', letterSpacing: '2px', opacity: 0.9 },
+    comboContainer: { position: 'absolute', top: 100, right: 25, width: '140px', textAlign: 'right' },
+    comboLabel: { fontSize: '0.7rem', color: '#aaa', letterSpacing: '2px', marginBottom: '5px' },
+    comboMultiplier: { fontSize: '1.2rem', fontWeight: 700 },
+    comboBarOuter: { height: '6px', background: 'rgba(255,255,255,0.1)', borderRadius: '6px', overflow: 'hidden' },
+    comboBarInner: { height: '100%', width: '100%' },
+    shipPicker: { display: 'flex', flexDirection: 'column', alignItems: 'center', marginBottom: '14px', maxWidth: '750px' },
+    toastStack: { position: 'absolute', top: 20, left: '50%', transform: 'translateX(-50%)', display: 'flex', flexDirection: 'column', gap: '8px', alignItems: 'center' },
+    toast: { background: 'rgba(5,5,5,0.85)', border: '1px solid', padding: '10px 24px', textAlign: 'center', letterSpacing: '2px', fontWeight: 600 },
+    toastLabel: { fontSize: '0.65rem', letterSpacing: '3px', marginBottom: '4px' },
+    toastDetail: { fontSize: '0.7rem', color: '#ffea00', marginTop: '4px' },
+    achievementBar: { height: '6px', margin: '8px 0 4px', background: 'rgba(255,255,255,0.1)', borderRadius: '6px', overflow: 'hidden' },
+    achievementFill: { height: '100%', background: '#00ffaa' },
     powerupStatus: { position: 'absolute', top: 120, left: 25, display: 'flex', flexDirection: 'column', gap: '5px', fontWeight: 500, fontSize: '0.9rem' },
+    effectRow: { display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' },
+    effectRing: { width: '34px', height: '34px', borderRadius: '50%', padding: '3px', boxSizing: 'border-box' },
+    effectGlyph: { width: '100%', height: '100%', borderRadius: '50%', background: '#050505', display: 'flex', alignItems: 'center', justifyContent: 'center', fontWeight: 700, fontSize: '0.8rem' },
     blurOverlay: { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', background: 'rgba(0,0,0,0.4)', backdropFilter: 'blur(5px)', pointerEvents: 'auto' },
     pauseTitle: { fontSize: '2.5rem', color: '#ffea00', fontWeight: 700, marginBottom: '10px' },
     bossBarContainer: { position: 'absolute', top: 100, left: '25%', width: '50%' },
+    timeline: { position: 'relative', width: '90%', maxWidth: '750px', height: '54px', marginTop: '14px', border: '1px solid rgba(0,242,255,0.4)', background: 'rgba(0,242,255,0.05)', cursor: 'crosshair', pointerEvents: 'auto' },
+    timelineMarker: { position: 'absolute', top: '4px', transform: 'translateX(-50%)', background: 'rgba(0,242,255,0.25)', border: '1px solid #00f2ff', color: '#fff', fontSize: '0.65rem', padding: '3px 4px', cursor: 'pointer' },
+    timelineEvent: { position: 'absolute', bottom: '4px', width: '8px', height: '8px', transform: 'translateX(-50%) rotate(45deg)', background: '#ffea00' },
+    timelineCursor: { position: 'absolute', top: 0, bottom: 0, width: '2px', background: '#ff00ea', pointerEvents: 'none' },
+    editorLayout: { display: 'flex', gap: '20px', marginTop: '14px', width: '90%', maxWidth: '750px', justifyContent: 'center', flexWrap: 'wrap' },
+    editorColumn: { display: 'flex', flexDirection: 'column', gap: '8px', flex: 1, minWidth: '280px', maxWidth: '750px' },
+    editorPreview: { border: '1px solid rgba(0,242,255,0.4)', alignSelf: 'flex-start' },
+    banner: { position: 'absolute', top: '22%', width: '100%', textAlign: 'center', color: '#00f2ff', fontSize: '1.4rem', letterSpacing: '6px', textShadow: '0 0 12px #00f2ff' },
     bossLabel: { color: '#ff00ea', fontSize: '0.7rem', textAlign: 'center', marginBottom: '5px', letterSpacing: '3px', opacity: 0.9 },
     bossBarOuter: { height: '12px', background: 'rgba(255,255,255,0.1)', border: '1px solid rgba(255,0,234,0.4)', borderRadius: '10px', overflow: 'hidden' },
     bossBarInner: { height: '100%', background: 'linear-gradient(90deg, #ff00ea, #ff0044)', transition: 'width 0.2s linear' },
     shopGrid: { display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px', margin: '20px 0', width: '90%', maxWidth: '750px' },
     shopItem: { background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.15)', padding: '15px', textAlign: 'center', borderRadius: '4px' },
     shopLabel: { color: '#ccc', fontSize: '0.7rem', letterSpacing: '1px' },
+    shopDesc: { color: '#999', fontSize: '0.7rem', marginBottom: '4px' },
+    shopPreview: { color: '#00ffaa', fontSize: '0.7rem' },
+    shopSheet: { display: 'flex', flexWrap: 'wrap', gap: '6px 16px', justifyContent: 'center', maxWidth: '750px', color: '#aaa', fontSize: '0.7rem', letterSpacing: '1px' },
     shopValue: { fontSize: '1.1rem', margin: '8px 0', color: '#00f2ff', fontWeight: 600 },
     buyBtn: { background: 'rgba(0,242,255,0.2)', border: '1px solid #00f2ff', color: '#fff', padding: '8px 14px', fontWeight: 600, cursor: 'pointer', borderRadius: '2px', fontSize: '0.8rem', transition: '0.2s', pointerEvents: 'auto' },
+    lbTable: { marginTop: '20px', borderCollapse: 'collapse', fontSize: '0.8rem', letterSpacing: '1px', maxWidth: '95%' },
+    lbHead: { color: '#aaa', fontWeight: 400, padding: '6px 10px', borderBottom: '1px solid rgba(0,242,255,0.4)' },
+    lbCell: { padding: '6px 10px', textAlign: 'center', color: '#ddd' },
+    lbHighlight: { background: 'rgba(255,0,234,0.2)' },
     statsPanel: { margin: '15px 0', color: '#ddd', textAlign: 'center', fontSize: '0.9rem' },
     mobileControls: { position: 'absolute', bottom: 30, left: 0, width: '100%', display: 'flex', justifyContent: 'space-between', padding: '0 30px', boxSizing: 'border-box', pointerEvents: 'auto' },
     dpad: { display: 'flex', gap: '20px' },
     dpadBtn: { width: '80px', height: '80px', borderRadius: '50%', background: 'rgba(255,255,255,0.1)', border: '2px solid rgba(0,242,255,0.5)', color: '#fff', fontSize: '2rem', display: 'flex', alignItems: 'center', justifyContent: 'center' },
+    dragSurface: { position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', pointerEvents: 'auto', touchAction: 'none' },
+    bindRow: { display: 'grid', gridTemplateColumns: '140px 1fr 1fr', gap: '12px', alignItems: 'center', padding: '8px 0', borderBottom: '1px solid rgba(255,255,255,0.1)', width: '90%', maxWidth: '750px' },
+    bindChip: { background: 'rgba(255,255,255,0.08)', border: '1px solid rgba(255,255,255,0.25)', color: '#fff', padding: '4px 8px', fontSize: '0.75rem', cursor: 'pointer', borderRadius: '2px', pointerEvents: 'auto' },
     fireBtn: { width: '100px', height: '100px', borderRadius: '50%', background: 'rgba(255,0,234,0.2)', border: '3px solid #ff00ea', color: '#fff', fontSize: '1.2rem', fontWeight: 'bold' }
 };
 